@@ -0,0 +1,46 @@
+import { Module } from '@nestjs/common';
+
+import { CancelTransactionCommand } from './commands/cancel-transaction.command';
+import { ProveExitRequestCommand } from './commands/prove-exit-request.command';
+import { ProveValidatorCommand } from './commands/prove-validator.command';
+import { ReleaseValidatorCommand } from './commands/release-validator.command';
+import { ScanBlocksCommand } from './commands/scan-blocks.command';
+import { ShowQueueCommand } from './commands/show-queue.command';
+import { SubmitBundleCommand } from './commands/submit-bundle.command';
+import { VerifyBundleCommand } from './commands/verify-bundle.command';
+import { ExitRequestsFinder } from './exit-requests-finder';
+import { TxSendingConfirmQuestions } from './questions/tx-sending-confirm.questions';
+import { ConfigModule } from '../common/config/config.module';
+import { ContractsModule } from '../common/contracts/contracts.module';
+import { LoggerModule } from '../common/logger/logger.module';
+import { PrometheusModule } from '../common/prometheus/prometheus.module';
+import { ProofVerifierModule } from '../common/proof-verifier/proof-verifier.module';
+import { ProverModule } from '../common/prover/prover.module';
+import { ProvidersModule } from '../common/providers/providers.module';
+import { StorageModule } from '../common/storage';
+
+@Module({
+  imports: [
+    LoggerModule,
+    ConfigModule,
+    PrometheusModule,
+    StorageModule,
+    ContractsModule,
+    ProvidersModule,
+    ProverModule,
+    ProofVerifierModule,
+  ],
+  providers: [
+    CancelTransactionCommand,
+    ExitRequestsFinder,
+    ProveExitRequestCommand,
+    ProveValidatorCommand,
+    ReleaseValidatorCommand,
+    ScanBlocksCommand,
+    ShowQueueCommand,
+    SubmitBundleCommand,
+    TxSendingConfirmQuestions,
+    VerifyBundleCommand,
+  ],
+})
+export class CliModule {}
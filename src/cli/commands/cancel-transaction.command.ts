@@ -0,0 +1,83 @@
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { Inject, LoggerService } from '@nestjs/common';
+import { utils } from 'ethers';
+import { Command, CommandRunner, InquirerService, Option } from 'nest-commander';
+
+import { TransactionManager } from '../../common/providers/execution/transaction-manager';
+import { parseGwei, parseNonce } from '../utils';
+
+interface CancelTransactionOptions {
+  maxFee?: bigint;
+  priorityFee?: bigint;
+}
+
+@Command({
+  name: 'cancel-transaction',
+  description: 'Cancel a pending transaction of the signer by replacing it with a zero value transfer to itself',
+  arguments: '<nonce>',
+  argsDescription: {
+    nonce: 'Nonce of the pending transaction',
+  },
+})
+export class CancelTransactionCommand extends CommandRunner {
+  constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly transactionManager: TransactionManager,
+    protected readonly inquirerService: InquirerService,
+  ) {
+    super();
+  }
+
+  async run(inputs: string[], options: CancelTransactionOptions): Promise<void> {
+    const nonce = parseNonce(inputs[0]);
+    if ((options.maxFee === undefined) !== (options.priorityFee === undefined)) {
+      throw new Error('Both --max-fee and --priority-fee must be set');
+    }
+    const tracked = this.transactionManager.inFlight.find((tx) => tx.nonce === nonce);
+
+    this.logger.log(
+      `📋 Transaction is going to be cancelled:` +
+        `\n  Nonce: ${nonce}` +
+        (tracked
+          ? `\n  Sent by the bot: ${tracked.hashes[tracked.hashes.length - 1]}` +
+            `\n  Max fee per gas: ${utils.formatUnits(tracked.maxFeePerGas, 'gwei')} Gwei (bumped on cancellation)`
+          : `\n  Not sent by the bot, the cancellation fees must exceed the pending transaction fees`) +
+        (!tracked && options.maxFee !== undefined
+          ? `\n  Cancellation max fee per gas: ${utils.formatUnits(options.maxFee, 'gwei')} Gwei`
+          : ''),
+    );
+
+    const { sendingConfirmed } = await this.inquirerService.ask<{ sendingConfirmed: boolean }>(
+      'tx-sending-confirm',
+      undefined,
+    );
+    if (!sendingConfirmed) {
+      this.logger.log('Cancellation was not sent');
+      return;
+    }
+
+    const fees =
+      options.maxFee !== undefined
+        ? { maxFeePerGas: options.maxFee, maxPriorityFeePerGas: options.priorityFee! }
+        : undefined;
+    const receipt = await this.transactionManager.cancel(nonce, fees);
+    this.logger.log(`✅ Nonce ${nonce} is used by ${receipt.transactionHash} (block ${receipt.blockNumber})`);
+  }
+
+  @Option({
+    flags: '--max-fee <gwei>',
+    description:
+      'Max fee per gas of the cancellation of a transaction not sent by the bot. Defaults to the network fee',
+  })
+  parseMaxFee(value: string): bigint {
+    return parseGwei(value);
+  }
+
+  @Option({
+    flags: '--priority-fee <gwei>',
+    description: 'Max priority fee per gas of the cancellation of a transaction not sent by the bot',
+  })
+  parsePriorityFee(value: string): bigint {
+    return parseGwei(value);
+  }
+}
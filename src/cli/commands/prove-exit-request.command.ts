@@ -0,0 +1,41 @@
+import { Command, CommandRunner, Option } from 'nest-commander';
+
+import { ProverService } from '../../common/prover/prover.service';
+import { Execution } from '../../common/providers/execution/execution';
+import { ExitRequestsFinder } from '../exit-requests-finder';
+import { parseBlockNumber } from '../utils';
+
+interface ProveExitRequestOptions {
+  block?: number;
+}
+
+@Command({
+  name: 'prove-exit-request',
+  description: 'Prove all overdue validators of the exit request',
+  arguments: '<exit-requests-hash>',
+})
+export class ProveExitRequestCommand extends CommandRunner {
+  constructor(
+    protected readonly prover: ProverService,
+    protected readonly execution: Execution,
+    protected readonly exitRequestsFinder: ExitRequestsFinder,
+  ) {
+    super();
+  }
+
+  async run(inputs: string[], options: ProveExitRequestOptions): Promise<void> {
+    const [exitRequestsHash] = inputs;
+    const exitRequest = await this.exitRequestsFinder.find(exitRequestsHash, options.block);
+    const block = options.block ?? (await this.execution.provider.getBlockNumber());
+
+    await this.prover.proveExitRequest(exitRequest, block);
+  }
+
+  @Option({
+    flags: '-b, --block <block>',
+    description: 'Block where the exit request was delivered. Looked up in the deadline queue if not set',
+  })
+  parseBlock(value: string): number {
+    return parseBlockNumber(value);
+  }
+}
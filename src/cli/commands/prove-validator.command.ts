@@ -0,0 +1,58 @@
+import { Command, CommandRunner, Option } from 'nest-commander';
+
+import { ProverService } from '../../common/prover/prover.service';
+import { Execution } from '../../common/providers/execution/execution';
+import { ExitRequestsFinder } from '../exit-requests-finder';
+import { parseBlockNumber, parseValidatorId } from '../utils';
+
+interface ProveValidatorOptions {
+  block?: number;
+  slot?: number;
+}
+
+@Command({
+  name: 'prove-validator',
+  description: 'Prove a single overdue validator of the exit request',
+  arguments: '<validator> <exit-requests-hash>',
+  argsDescription: {
+    validator: 'Validator index or public key',
+    'exit-requests-hash': 'Hash of the exit request the validator was requested to exit in',
+  },
+})
+export class ProveValidatorCommand extends CommandRunner {
+  constructor(
+    protected readonly prover: ProverService,
+    protected readonly execution: Execution,
+    protected readonly exitRequestsFinder: ExitRequestsFinder,
+  ) {
+    super();
+  }
+
+  async run(inputs: string[], options: ProveValidatorOptions): Promise<void> {
+    const [validatorId, exitRequestsHash] = inputs;
+    const exitRequest = await this.exitRequestsFinder.find(exitRequestsHash, options.block);
+    const block = options.block ?? (await this.execution.provider.getBlockNumber());
+
+    await this.prover.proveValidator(exitRequest, parseValidatorId(validatorId), block, options.slot);
+  }
+
+  @Option({
+    flags: '-b, --block <block>',
+    description: 'Block where the exit request was delivered. Looked up in the deadline queue if not set',
+  })
+  parseBlock(value: string): number {
+    return parseBlockNumber(value);
+  }
+
+  @Option({
+    flags: '-s, --slot <slot>',
+    description: 'Slot to prove the validator at. Defaults to the first slot after the exit deadline',
+  })
+  parseSlot(value: string): number {
+    const slot = Number(value);
+    if (!Number.isSafeInteger(slot) || slot < 0) {
+      throw new Error(`Invalid slot: ${value}`);
+    }
+    return slot;
+  }
+}
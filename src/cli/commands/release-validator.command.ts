@@ -0,0 +1,43 @@
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { Inject, LoggerService } from '@nestjs/common';
+import { Command, CommandRunner } from 'nest-commander';
+
+import { QuarantinedValidators } from '../../common/prover/quarantined-validators';
+import { parsePubkey } from '../utils';
+
+@Command({
+  name: 'release-validator',
+  description: 'Release a validator rejected by the verifier from the quarantine, so it is proved again',
+  arguments: '<pubkey> [exit-requests-hash]',
+  argsDescription: {
+    pubkey: 'Public key of the quarantined validator',
+    'exit-requests-hash': 'Hash of the exit request to release the validator for. Defaults to all of them',
+  },
+})
+export class ReleaseValidatorCommand extends CommandRunner {
+  constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly quarantinedValidators: QuarantinedValidators,
+  ) {
+    super();
+  }
+
+  async run(inputs: string[]): Promise<void> {
+    const [pubkey, exitRequestsHash] = inputs;
+    const released = await this.quarantinedValidators.release(parsePubkey(pubkey), exitRequestsHash);
+    if (released.length === 0) {
+      this.logger.log(`Validator ${pubkey} is not quarantined`);
+      return;
+    }
+
+    for (const validator of released) {
+      this.logger.log(
+        `✅ Validator released from the quarantine:` +
+          `\n  Public key: ${validator.pubkey}` +
+          `\n  Exit request: ${validator.exitRequestsHash}` +
+          `\n  Reason: ${validator.reason}` +
+          `\n  Quarantined at: ${new Date(validator.quarantinedAt).toISOString()}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,25 @@
+import { Command, CommandRunner } from 'nest-commander';
+
+import { ProverService } from '../../common/prover/prover.service';
+import { parseBlockNumber } from '../utils';
+
+@Command({
+  name: 'scan-blocks',
+  description: 'Collect exit requests from the block range and prove overdue validators from the deadline queue',
+  arguments: '<from-block> <to-block>',
+})
+export class ScanBlocksCommand extends CommandRunner {
+  constructor(protected readonly prover: ProverService) {
+    super();
+  }
+
+  async run(inputs: string[]): Promise<void> {
+    const fromBlock = parseBlockNumber(inputs[0]);
+    const toBlock = parseBlockNumber(inputs[1]);
+    if (fromBlock > toBlock) {
+      throw new Error(`Invalid block range: ${fromBlock} > ${toBlock}`);
+    }
+
+    await this.prover.handleBlock(fromBlock, toBlock);
+  }
+}
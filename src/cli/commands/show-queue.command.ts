@@ -0,0 +1,48 @@
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { Inject, LoggerService } from '@nestjs/common';
+import { Command, CommandRunner } from 'nest-commander';
+
+import { DeadlineQueue } from '../../common/prover/deadline-queue';
+import { Consensus } from '../../common/providers/consensus/consensus';
+
+@Command({
+  name: 'show-queue',
+  description: 'Print validators pending their exit deadlines',
+})
+export class ShowQueueCommand extends CommandRunner {
+  constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly deadlineQueue: DeadlineQueue,
+    protected readonly consensus: Consensus,
+  ) {
+    super();
+  }
+
+  async run(): Promise<void> {
+    const entries = this.deadlineQueue.entries().sort(([a], [b]) => a - b);
+    if (entries.length === 0) {
+      this.logger.log('Deadline queue is empty');
+      return;
+    }
+
+    for (const [deadlineSlot, groups] of entries) {
+      const deadline = new Date(this.consensus.slotToTimestamp(deadlineSlot) * 1000).toISOString();
+      this.logger.log(
+        `Deadline slot ${deadlineSlot} (${deadline}):` +
+          groups
+            .map(
+              (group) =>
+                `\n  Exit request: ${group.exitRequest.exitRequestsHash}` +
+                `\n    Validators: ${group.validators.map((v) => v.validator.validatorIndex).join(', ')}`,
+            )
+            .join(''),
+      );
+    }
+
+    const validatorsCount = entries.reduce(
+      (sum, [, groups]) => sum + groups.reduce((groupSum, group) => groupSum + group.validators.length, 0),
+      0,
+    );
+    this.logger.log(`Deadline queue:` + `\n  Deadline slots: ${entries.length}` + `\n  Validators: ${validatorsCount}`);
+  }
+}
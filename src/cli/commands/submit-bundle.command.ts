@@ -0,0 +1,31 @@
+import { Command, CommandRunner } from 'nest-commander';
+
+import { ProofBundles } from '../../common/prover/proof-bundles';
+import { Execution } from '../../common/providers/execution/execution';
+
+@Command({
+  name: 'submit-bundle',
+  description: 'Submit the transaction rebuilt from the proof bundle file',
+  arguments: '<bundle-path>',
+})
+export class SubmitBundleCommand extends CommandRunner {
+  constructor(
+    protected readonly proofBundles: ProofBundles,
+    protected readonly execution: Execution,
+  ) {
+    super();
+  }
+
+  async run(inputs: string[]): Promise<void> {
+    const bundle = await this.proofBundles.load(inputs[0]);
+
+    await this.execution.execute(
+      // Emulation callback
+      async () => this.proofBundles.emulate(bundle),
+      // Population callback
+      async () => this.proofBundles.toTransaction(bundle),
+      // Payload
+      this.proofBundles.toPayload(bundle),
+    );
+  }
+}
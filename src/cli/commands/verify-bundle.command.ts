@@ -0,0 +1,23 @@
+import { Command, CommandRunner } from 'nest-commander';
+
+import { ProofVerifier } from '../../common/proof-verifier/proof-verifier.service';
+import { ProofBundles } from '../../common/prover/proof-bundles';
+
+@Command({
+  name: 'verify-bundle',
+  description: 'Verify proofs of the proof bundle file offline, without sending a transaction',
+  arguments: '<bundle-path>',
+})
+export class VerifyBundleCommand extends CommandRunner {
+  constructor(
+    protected readonly proofBundles: ProofBundles,
+    protected readonly proofVerifier: ProofVerifier,
+  ) {
+    super();
+  }
+
+  async run(inputs: string[]): Promise<void> {
+    const bundle = await this.proofBundles.load(inputs[0]);
+    await this.proofVerifier.verify(bundle);
+  }
+}
@@ -0,0 +1,43 @@
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { Inject, Injectable, LoggerService } from '@nestjs/common';
+
+import { ExitRequestsResult } from '../common/contracts/types';
+import { ExitRequestsContract } from '../common/contracts/validator-exit-bus.service';
+import { DeadlineQueue } from '../common/prover/deadline-queue';
+
+@Injectable()
+export class ExitRequestsFinder {
+  constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly exitRequests: ExitRequestsContract,
+    protected readonly deadlineQueue: DeadlineQueue,
+  ) {}
+
+  /**
+   * Find the exit request by hash in the delivery block, if it is given, or in the persisted deadline queue
+   */
+  public async find(exitRequestsHash: string, block?: number): Promise<ExitRequestsResult> {
+    const hash = exitRequestsHash.toLowerCase();
+
+    if (block !== undefined) {
+      const exitRequests = await this.exitRequests.getExitRequestsFromBlock(block, block);
+      const found = exitRequests.find((exitRequest) => exitRequest.exitRequestsHash.toLowerCase() === hash);
+      if (!found) {
+        throw new Error(`Exit request ${exitRequestsHash} is not found in block ${block}`);
+      }
+      return found;
+    }
+
+    for (const [, groups] of this.deadlineQueue.entries()) {
+      const found = groups.find((group) => group.exitRequest.exitRequestsHash.toLowerCase() === hash);
+      if (found) {
+        this.logger.log(`Exit request ${exitRequestsHash} is found in the deadline queue`);
+        return found.exitRequest;
+      }
+    }
+
+    throw new Error(
+      `Exit request ${exitRequestsHash} is not found in the deadline queue. Specify the delivery block with --block`,
+    );
+  }
+}
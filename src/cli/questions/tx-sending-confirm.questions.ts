@@ -0,0 +1,14 @@
+import { Question, QuestionSet } from 'nest-commander';
+
+@QuestionSet({ name: 'tx-sending-confirm' })
+export class TxSendingConfirmQuestions {
+  @Question({
+    message: 'Send the transaction?',
+    name: 'sendingConfirmed',
+    type: 'confirm',
+    default: false,
+  })
+  parseSendingConfirmed(value: boolean): boolean {
+    return value;
+  }
+}
@@ -0,0 +1,38 @@
+import { utils } from 'ethers';
+
+export function parseBlockNumber(value: string): number {
+  const block = Number(value);
+  if (!Number.isSafeInteger(block) || block < 0) {
+    throw new Error(`Invalid block number: ${value}`);
+  }
+  return block;
+}
+
+export function parseValidatorId(value: string): string {
+  if (/^\d+$/.test(value) || /^0x[0-9a-fA-F]{96}$/.test(value)) {
+    return value;
+  }
+  throw new Error(`Invalid validator index or public key: ${value}`);
+}
+
+export function parsePubkey(value: string): string {
+  if (/^0x[0-9a-fA-F]{96}$/.test(value)) {
+    return value;
+  }
+  throw new Error(`Invalid public key: ${value}`);
+}
+
+export function parseNonce(value: string): number {
+  const nonce = Number(value);
+  if (!Number.isSafeInteger(nonce) || nonce < 0) {
+    throw new Error(`Invalid nonce: ${value}`);
+  }
+  return nonce;
+}
+
+export function parseGwei(value: string): bigint {
+  if (!/^\d+(\.\d{1,9})?$/.test(value)) {
+    throw new Error(`Invalid amount of Gwei: ${value}`);
+  }
+  return utils.parseUnits(value, 'gwei').toBigInt();
+}
@@ -12,6 +12,13 @@ export class ConfigService extends ConfigServiceSource<EnvironmentVariables> {
     // Add RPC URLs
     secrets.push(...this.get('EL_RPC_URLS'));
     secrets.push(...this.get('CL_API_URLS'));
+    secrets.push(...this.get('TX_PRIVATE_RELAY_URLS'));
+
+    // Web3Signer URL may carry credentials
+    const web3SignerUrl = this.get('TX_SIGNER_WEB3SIGNER_URL');
+    if (web3SignerUrl) {
+      secrets.push(web3SignerUrl);
+    }
 
     // Add private key if present
     const privateKey = this.get('TX_SIGNER_PRIVATE_KEY');
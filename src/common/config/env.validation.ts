@@ -8,6 +8,7 @@ import {
   IsInt,
   IsNotEmpty,
   IsNumber,
+  IsOptional,
   IsString,
   Max,
   Min,
@@ -28,6 +29,27 @@ export enum WorkingMode {
   CLI = 'cli',
 }
 
+export enum StorageType {
+  File = 'file',
+  Memory = 'memory',
+}
+
+export enum PrivateRelayMethod {
+  PrivateTransaction = 'eth_sendPrivateTransaction',
+  Bundle = 'eth_sendBundle',
+}
+
+export enum ProofStrategy {
+  PerDeadline = 'per_deadline',
+  Consolidated = 'consolidated',
+}
+
+export enum SignerType {
+  PrivateKey = 'private_key',
+  Keystore = 'keystore',
+  Web3Signer = 'web3signer',
+}
+
 const MINUTE = 60 * 1000;
 const HOUR = 60 * MINUTE;
 
@@ -47,11 +69,38 @@ export class EnvironmentVariables {
   @IsString()
   public LIDO_LOCATOR_ADDRESS: string;
 
+  @IsEnum(SignerType)
+  public TX_SIGNER_TYPE = SignerType.PrivateKey;
+
   @IsNotEmpty()
   @IsString()
-  @ValidateIf((vars) => !vars.DRY_RUN)
+  @ValidateIf((vars) => !vars.DRY_RUN && vars.TX_SIGNER_TYPE === SignerType.PrivateKey)
   public TX_SIGNER_PRIVATE_KEY: string;
 
+  @IsNotEmpty()
+  @IsString()
+  @ValidateIf((vars) => vars.TX_SIGNER_TYPE === SignerType.Keystore)
+  public TX_SIGNER_KEYSTORE_PATH?: string; // Encrypted JSON keystore
+
+  @IsNotEmpty()
+  @IsString()
+  @ValidateIf((vars) => vars.TX_SIGNER_TYPE === SignerType.Keystore)
+  public TX_SIGNER_KEYSTORE_PASSWORD_FILE?: string;
+
+  @IsNotEmpty()
+  @IsString()
+  @ValidateIf((vars) => vars.TX_SIGNER_TYPE === SignerType.Web3Signer)
+  public TX_SIGNER_WEB3SIGNER_URL?: string;
+
+  @IsOptional()
+  @IsString()
+  public TX_SIGNER_WEB3SIGNER_PUBLIC_KEY?: string; // The only key of the Web3Signer is used if not set
+
+  @IsInt()
+  @Min(1000)
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  public TX_SIGNER_WEB3SIGNER_TIMEOUT_MS = 10_000;
+
   @IsNumber()
   @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
   public TX_MIN_GAS_PRIORITY_FEE = 50_000_000; // 0.05 gwei
@@ -86,14 +135,82 @@ export class EnvironmentVariables {
   @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
   public MAX_TRANSACTION_SIZE_BYTES = 100_000; // Maximum transaction size in bytes
 
+  @IsInt()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  public DEADLINE_SLOTS_CONCURRENCY = 2; // Deadline slots proved at once, each holds its beacon state in memory
+
+  @IsEnum(ProofStrategy)
+  public PROOF_STRATEGY = ProofStrategy.PerDeadline; // Consolidated proves overdue validators at the finalized slot
+
+  @IsInt()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  public STATE_WORKERS = 2; // Worker threads deserializing beacon states and generating proofs
+
+  @IsInt()
+  @Min(512)
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  public STATE_WORKER_MAX_OLD_SPACE_MB = 4096; // Heap limit of each state worker, each holds up to two state trees
+
   @IsNumber()
   @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
   public TX_MINING_WAITING_TIMEOUT_MS = HOUR;
 
+  @IsInt()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  public TX_CANCELLATION_WAITING_TIMEOUT_MS = HOUR; // A cancellation not mined by then fails the sending of the next transactions
+
   @IsNumber()
   @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
   public TX_CONFIRMATIONS = 1;
 
+  @IsInt()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  public TX_REPLACEMENT_INTERVAL_MS = 3 * MINUTE; // Unmined transactions are replaced with bumped fees this often
+
+  @IsInt()
+  @Min(10) // Nodes reject replacements bumping fees by less than 10%
+  @Max(100)
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  public TX_REPLACEMENT_FEE_BUMP_PERCENT = 15;
+
+  @IsNumber()
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  public TX_MAX_FEE_PER_GAS = 100_000_000_000; // 100 gwei, fee bumps never exceed it
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Transform(({ value }) => parseFloat(value), { toClassOnly: true })
+  public TX_BUDGET_PER_TX_ETH?: number; // Worst-case cost of a single transaction, not limited if not set
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Transform(({ value }) => parseFloat(value), { toClassOnly: true })
+  public TX_BUDGET_PER_CYCLE_ETH?: number; // Spent within a daemon cycle, not limited if not set
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Transform(({ value }) => parseFloat(value), { toClassOnly: true })
+  public TX_BUDGET_DAILY_ETH?: number; // Spent within the rolling 24 hours, not limited if not set
+
+  @IsArray()
+  @Transform(({ value }) => (value ? value.split(',') : []))
+  public TX_PRIVATE_RELAY_URLS: string[] = []; // Transactions go to the public mempool only if empty
+
+  @IsEnum(PrivateRelayMethod)
+  public TX_PRIVATE_RELAY_METHOD = PrivateRelayMethod.PrivateTransaction;
+
+  @IsInt()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  public TX_PRIVATE_RELAY_FALLBACK_BLOCKS = 25; // Blocks before a privately sent transaction goes to the public mempool
+
   @IsNumber()
   @Min(1025)
   @Max(65535)
@@ -134,6 +251,18 @@ export class EnvironmentVariables {
   @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
   public EL_RPC_MAX_RETRIES = 3;
 
+  // Largest eth_getLogs block range, the range is split further if a provider rejects it
+  @IsInt()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  public EL_LOGS_MAX_BLOCK_RANGE = 10000;
+
+  // Maximum view calls aggregated into a single Multicall3 call or JSON-RPC batch
+  @IsInt()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  public MULTICALL_CHUNK_SIZE = 100;
+
   @IsArray()
   @ArrayMinSize(1)
   @Transform(({ value }) => value.split(','))
@@ -157,8 +286,66 @@ export class EnvironmentVariables {
   @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
   public DAEMON_SLEEP_INTERVAL_MS = 300000; // Default 5 minutes
 
+  // Start daemon cycles on finalized checkpoint events, polling every DAEMON_SLEEP_INTERVAL_MS stays as the fallback
+  @IsBoolean()
+  @Transform(({ value }) => toBoolean(value), { toClassOnly: true })
+  public CL_EVENTS_ENABLED = true;
+
+  // Proofs are queued in the daemon mode and sent by the submitter when gas fees are acceptable.
+  // Disabled by default, proofs are sent within the daemon cycle
+  @IsBoolean()
+  @Transform(({ value }) => toBoolean(value), { toClassOnly: true })
+  public SUBMISSION_QUEUE_ENABLED = false;
+
+  @IsNumber()
+  @Min(12000) // Minimum one slot
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  public SUBMISSION_INTERVAL_MS = 60000; // Default 1 minute
+
   @IsString()
   public FORK_NAME: string = 'electra';
+
+  @IsEnum(StorageType)
+  public STORAGE_TYPE = StorageType.File;
+
+  @IsNotEmpty()
+  @IsString()
+  public STORAGE_DIR = './storage';
+
+  @IsOptional()
+  @IsString()
+  public PROOF_BUNDLES_DIR?: string; // Proof bundles are exported only if set
+
+  @IsOptional()
+  @IsString()
+  public STATE_CACHE_DIR?: string; // Beacon states are cached on disk only if set
+
+  @IsInt()
+  @Min(1)
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  public STATE_CACHE_MAX_SIZE_MB = 4096;
+
+  @IsNumber()
+  @Min(1000)
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  public HEALTH_CHECK_TIMEOUT_MS = 5000;
+
+  // Readiness fails if an EL endpoint is behind the most recent one by more blocks
+  @IsInt()
+  @Min(0)
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  public HEALTH_EL_MAX_BLOCK_LAG = 10;
+
+  // Liveness fails if the daemon loop has not completed a run for longer
+  @IsNumber()
+  @Transform(({ value }) => parseInt(value, 10), { toClassOnly: true })
+  public HEALTH_MAX_SUCCESS_RUN_AGE_MS = 3600000; // Default 1 hour
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  @Transform(({ value }) => parseFloat(value), { toClassOnly: true })
+  public HEALTH_MIN_SIGNER_BALANCE_ETH?: number; // Signer balance is checked only if set
 }
 
 export function validate(config: Record<string, unknown>) {
@@ -183,7 +370,13 @@ export function validate(config: Record<string, unknown>) {
  * Uses the same sanitization logic as @lido-nestjs/logger cleanSecrets format
  */
 function sanitizeValidationErrors(errorString: string, config: Record<string, unknown>): string {
-  const sensitiveKeys = ['TX_SIGNER_PRIVATE_KEY', 'EL_RPC_URLS', 'CL_API_URLS'];
+  const sensitiveKeys = [
+    'TX_SIGNER_PRIVATE_KEY',
+    'TX_SIGNER_WEB3SIGNER_URL',
+    'TX_PRIVATE_RELAY_URLS',
+    'EL_RPC_URLS',
+    'CL_API_URLS',
+  ];
 
   const secrets: string[] = [];
   for (const key of sensitiveKeys) {
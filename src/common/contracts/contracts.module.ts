@@ -2,6 +2,7 @@ import { Module } from '@nestjs/common';
 import { ConfigModule } from '@nestjs/config';
 
 import { LidoLocatorContract } from './lido-locator.service';
+import { MulticallContract } from './multicall.service';
 import { StakingRouterContract } from './staking-router.service';
 import { ExitRequestsContract } from './validator-exit-bus.service';
 import { VerifierContract } from './validator-exit-delay-verifier.service';
@@ -9,7 +10,7 @@ import { ProvidersModule } from '../providers/providers.module';
 
 @Module({
   imports: [ConfigModule, ProvidersModule],
-  providers: [VerifierContract, ExitRequestsContract, LidoLocatorContract, StakingRouterContract],
-  exports: [VerifierContract, ExitRequestsContract, LidoLocatorContract, StakingRouterContract],
+  providers: [VerifierContract, ExitRequestsContract, LidoLocatorContract, MulticallContract, StakingRouterContract],
+  exports: [VerifierContract, ExitRequestsContract, LidoLocatorContract, MulticallContract, StakingRouterContract],
 })
 export class ContractsModule {}
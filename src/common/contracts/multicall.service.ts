@@ -0,0 +1,155 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { ethers } from 'ethers';
+
+import { ConfigService } from '../config/config.service';
+import { PrometheusService } from '../prometheus/prometheus.service';
+import { Execution } from '../providers/execution/execution';
+
+// Multicall3 is deployed at the same address on all supported chains
+export const MULTICALL3_ADDRESS = '0xcA11bde05977b3631167028862bE2a173976CA11';
+
+export interface MulticallRequest {
+  target: string;
+  iface: ethers.utils.Interface;
+  method: string;
+  args: any[];
+}
+
+export type MulticallResult<T> = { success: true; value: T } | { success: false; error: Error };
+
+/**
+ * Aggregates view calls through Multicall3, in chunks of MULTICALL_CHUNK_SIZE calls.
+ * Each call may fail on its own without affecting the others.
+ * Falls back to JSON-RPC batching of separate eth_call requests if Multicall3 is not available
+ */
+@Injectable()
+export class MulticallContract {
+  private readonly logger = new Logger(MulticallContract.name);
+  private readonly contract: ethers.Contract;
+  private deployed?: boolean;
+
+  constructor(
+    protected readonly execution: Execution,
+    protected readonly config: ConfigService,
+    protected readonly prometheus: PrometheusService,
+  ) {
+    const abi = [
+      'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)',
+    ];
+    this.contract = new ethers.Contract(MULTICALL3_ADDRESS, abi, this.execution.provider);
+  }
+
+  /**
+   * Call all requests at the given block
+   * @returns Results in the order of the requests
+   */
+  public async call<T>(
+    requests: MulticallRequest[],
+    blockTag: ethers.providers.BlockTag,
+  ): Promise<MulticallResult<T>[]> {
+    const chunkSize = this.config.get('MULTICALL_CHUNK_SIZE');
+    const results: MulticallResult<T>[] = [];
+
+    for (let i = 0; i < requests.length; i += chunkSize) {
+      const chunk = requests.slice(i, i + chunkSize);
+      results.push(...(await this.callChunk<T>(chunk, blockTag)));
+    }
+
+    for (const [i, result] of results.entries()) {
+      this.prometheus.contractCallCount.inc({
+        contract_type: 'multicall',
+        method: requests[i].method,
+        status: result.success ? 'success' : 'error',
+      });
+    }
+
+    return results;
+  }
+
+  private async callChunk<T>(
+    requests: MulticallRequest[],
+    blockTag: ethers.providers.BlockTag,
+  ): Promise<MulticallResult<T>[]> {
+    if (await this.isDeployed()) {
+      try {
+        return await this.aggregate<T>(requests, blockTag);
+      } catch (error) {
+        this.logger.warn(
+          `Multicall of ${requests.length} calls failed, falling back to batched calls: ${error.message}`,
+        );
+      }
+    }
+    return await this.batch<T>(requests, blockTag);
+  }
+
+  private async aggregate<T>(
+    requests: MulticallRequest[],
+    blockTag: ethers.providers.BlockTag,
+  ): Promise<MulticallResult<T>[]> {
+    const stopTimer = this.prometheus.contractCallDuration.startTimer({
+      contract_type: 'multicall',
+      method: 'aggregate3',
+    });
+
+    try {
+      const calls = requests.map((r) => ({
+        target: r.target,
+        allowFailure: true,
+        callData: r.iface.encodeFunctionData(r.method, r.args),
+      }));
+      const returnData: Array<{ success: boolean; returnData: string }> = await this.contract.callStatic.aggregate3(
+        calls,
+        { blockTag },
+      );
+
+      return returnData.map((data, i) =>
+        data.success
+          ? this.decode<T>(requests[i], data.returnData)
+          : { success: false, error: new Error(`Call ${requests[i].method} reverted`) },
+      );
+    } finally {
+      stopTimer();
+    }
+  }
+
+  /**
+   * Concurrent calls are sent by the fallback provider as a single JSON-RPC batch
+   */
+  private async batch<T>(
+    requests: MulticallRequest[],
+    blockTag: ethers.providers.BlockTag,
+  ): Promise<MulticallResult<T>[]> {
+    return await Promise.all(
+      requests.map(async (r): Promise<MulticallResult<T>> => {
+        try {
+          const data = await this.execution.provider.call(
+            { to: r.target, data: r.iface.encodeFunctionData(r.method, r.args) },
+            blockTag,
+          );
+          return this.decode<T>(r, data);
+        } catch (error) {
+          return { success: false, error };
+        }
+      }),
+    );
+  }
+
+  private decode<T>(request: MulticallRequest, data: string): MulticallResult<T> {
+    try {
+      return { success: true, value: request.iface.decodeFunctionResult(request.method, data)[0] as T };
+    } catch (error) {
+      return { success: false, error };
+    }
+  }
+
+  private async isDeployed(): Promise<boolean> {
+    if (this.deployed === undefined) {
+      const code = await this.execution.provider.getCode(MULTICALL3_ADDRESS);
+      this.deployed = code !== '0x';
+      if (!this.deployed) {
+        this.logger.warn(`Multicall3 is not deployed at ${MULTICALL3_ADDRESS}, view calls are batched instead`);
+      }
+    }
+    return this.deployed;
+  }
+}
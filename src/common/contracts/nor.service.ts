@@ -1,19 +1,43 @@
 import { Injectable } from '@nestjs/common';
 import { ethers } from 'ethers';
 
+import { MulticallContract, MulticallResult } from './multicall.service';
+import { isCallReverted } from './verifier-errors';
 import { Execution } from '../providers/execution/execution';
+import { LogScanner } from '../providers/execution/log-scanner';
+
+export interface PenaltyApplicableCheck {
+  nodeOperatorId: number;
+  proofSlotTimestamp: number;
+  publicKey: string;
+  eligibleToExitInSec: number;
+}
 
 @Injectable()
 export class NodeOperatorsRegistryContract {
+  // Number of recent blocks to keep exit deadline thresholds for
+  private static readonly THRESHOLD_CACHE_BLOCKS = 4;
+
   private contract: ethers.Contract;
+  // Exit deadline thresholds by block, then by node operator
+  private readonly thresholdCache = new Map<number, Map<number, number>>();
+  private exitPenaltiesAddress?: Promise<string | undefined>;
 
   constructor(
     protected readonly address: string,
     protected readonly execution: Execution,
+    protected readonly multicall: MulticallContract,
+    protected readonly logScanner: LogScanner,
   ) {
     const abi = [
       'function isValidatorExitDelayPenaltyApplicable(uint256,uint256,bytes,uint256) view returns (bool)',
       'function exitDeadlineThreshold(uint256) view returns (uint256)',
+      // Emitted by NOR-based modules when a validator exit delay is reported
+      'event ValidatorExitStatusUpdated(uint256 indexed nodeOperatorId, bytes publicKey, uint256 eligibleToExitInSec, uint256 proofSlotTimestamp)',
+      // Exit penalties contract of CSM, processing its exit delay reports
+      'function EXIT_PENALTIES() view returns (address)',
+      // Emitted by the CSM exit penalties contract when a validator exit delay is reported
+      'event ValidatorExitDelayProcessed(uint256 indexed nodeOperatorId, bytes pubkey, uint256 delayPenalty)',
     ];
 
     this.contract = new ethers.Contract(address, abi, this.execution.provider);
@@ -53,4 +77,131 @@ export class NodeOperatorsRegistryContract {
     const threshold = await this.contract.exitDeadlineThreshold(nodeOperatorId);
     return threshold.toNumber();
   }
+
+  /**
+   * Check if validator exit delay penalties are applicable, batched into multicalls
+   * @returns Results in the order of the checks, a failed call does not affect the others
+   */
+  public async isValidatorExitDelayPenaltyApplicableBatch(
+    checks: PenaltyApplicableCheck[],
+    blockTag: ethers.providers.BlockTag = 'latest',
+  ): Promise<MulticallResult<boolean>[]> {
+    return await this.multicall.call<boolean>(
+      checks.map((check) => ({
+        target: this.address,
+        iface: this.contract.interface,
+        method: 'isValidatorExitDelayPenaltyApplicable',
+        args: [check.nodeOperatorId, check.proofSlotTimestamp, check.publicKey, check.eligibleToExitInSec],
+      })),
+      blockTag,
+    );
+  }
+
+  /**
+   * Get exit deadline thresholds of node operators at the block, batched into multicalls
+   * Thresholds are cached per node operator and block, so only missing ones are requested
+   * @returns Map of node operator ID to the threshold in seconds
+   */
+  public async exitDeadlineThresholds(nodeOperatorIds: number[], blockTag: number): Promise<Map<number, number>> {
+    let cached = this.thresholdCache.get(blockTag);
+    if (!cached) {
+      cached = new Map();
+      this.thresholdCache.set(blockTag, cached);
+      // Maps keep insertion order, so the first key is the least recently added block
+      while (this.thresholdCache.size > NodeOperatorsRegistryContract.THRESHOLD_CACHE_BLOCKS) {
+        this.thresholdCache.delete(this.thresholdCache.keys().next().value);
+      }
+    }
+
+    const missing = Array.from(new Set(nodeOperatorIds)).filter((id) => !cached!.has(id));
+    if (missing.length > 0) {
+      const results = await this.multicall.call<ethers.BigNumber>(
+        missing.map((id) => ({
+          target: this.address,
+          iface: this.contract.interface,
+          method: 'exitDeadlineThreshold',
+          args: [id],
+        })),
+        blockTag,
+      );
+
+      const failed: number[] = [];
+      results.forEach((result, i) => {
+        if (result.success) {
+          cached!.set(missing[i], result.value.toNumber());
+        } else {
+          failed.push(missing[i]);
+        }
+      });
+      // Successful results stay cached, so a retry requests only the failed ones
+      if (failed.length > 0) {
+        throw new Error(
+          `Failed to get exit deadline threshold of node operators [${failed.join(', ')}] at block ${blockTag}`,
+        );
+      }
+    }
+
+    return new Map(nodeOperatorIds.map((id) => [id, cached!.get(id)!]));
+  }
+
+  /**
+   * Get public keys of validators whose exit delay was reported to the module.
+   * NOR-based modules emit the reports themselves, CSM from its exit penalties contract.
+   * The range is scanned in windows accepted by the EL provider
+   * @param fromBlock The first block of the range
+   * @param toBlock The last block of the range
+   * @returns Lowercase validator public keys
+   */
+  public async getExitDelayReportedPubkeys(fromBlock: number, toBlock: number): Promise<string[]> {
+    const exitPenaltiesAddress = await this.getExitPenaltiesAddress();
+    const addresses = exitPenaltiesAddress ? [this.address, exitPenaltiesAddress] : [this.address];
+
+    const logs: ethers.providers.Log[] = [];
+    for (const address of addresses) {
+      logs.push(
+        ...(await this.logScanner.getLogs(
+          {
+            address,
+            topics: [
+              [
+                this.contract.interface.getEventTopic('ValidatorExitStatusUpdated'),
+                this.contract.interface.getEventTopic('ValidatorExitDelayProcessed'),
+              ],
+            ],
+          },
+          fromBlock,
+          toBlock,
+        )),
+      );
+    }
+
+    return logs.map((log: ethers.providers.Log) => {
+      const event = this.contract.interface.parseLog(log);
+      const pubkey: string = event.args.publicKey ?? event.args.pubkey;
+      return pubkey.toLowerCase();
+    });
+  }
+
+  /**
+   * Exit penalties contract of the module, resolved once. Undefined for modules without one (NOR-based),
+   * their calls revert
+   */
+  private getExitPenaltiesAddress(): Promise<string | undefined> {
+    if (this.exitPenaltiesAddress) {
+      return this.exitPenaltiesAddress;
+    }
+    const resolving: Promise<string | undefined> = this.contract.EXIT_PENALTIES().then(
+      (address: string) => (address !== ethers.constants.AddressZero ? address : undefined),
+      (error: unknown) => {
+        if (isCallReverted(error)) {
+          return undefined;
+        }
+        // Resolved again by the next scan
+        this.exitPenaltiesAddress = undefined;
+        throw error;
+      },
+    );
+    this.exitPenaltiesAddress = resolving;
+    return resolving;
+  }
 }
@@ -2,10 +2,12 @@ import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
 import { ethers } from 'ethers';
 
 import { LidoLocatorContract } from './lido-locator.service';
+import { MulticallContract } from './multicall.service';
 import { NodeOperatorsRegistryContract } from './nor.service';
 import contractJson from '../contracts/abi/staking-router.json';
 import { PrometheusService } from '../prometheus/prometheus.service';
 import { Execution } from '../providers/execution/execution';
+import { LogScanner } from '../providers/execution/log-scanner';
 
 export interface StakingModule {
   id: number;
@@ -41,6 +43,8 @@ export class StakingRouterContract implements OnModuleInit {
   constructor(
     protected readonly execution: Execution,
     protected readonly lidoLocator: LidoLocatorContract,
+    protected readonly multicall: MulticallContract,
+    protected readonly logScanner: LogScanner,
     protected readonly prometheus: PrometheusService,
   ) {}
 
@@ -108,7 +112,12 @@ export class StakingRouterContract implements OnModuleInit {
 
       // Create NodeOperatorsRegistryContract instances for each staking module
       for (const module of stakingModules) {
-        const norContract = new NodeOperatorsRegistryContract(module.stakingModuleAddress, this.execution);
+        const norContract = new NodeOperatorsRegistryContract(
+          module.stakingModuleAddress,
+          this.execution,
+          this.multicall,
+          this.logScanner,
+        );
 
         this.stakingModuleContracts.set(module.id, norContract);
         this.logger.log(
@@ -132,4 +141,12 @@ export class StakingRouterContract implements OnModuleInit {
   public getStakingModuleContract(moduleId: number): NodeOperatorsRegistryContract | undefined {
     return this.stakingModuleContracts.get(moduleId);
   }
+
+  /**
+   * Get all loaded staking module contracts
+   * @returns Map of staking module ID to NodeOperatorsRegistryContract instance
+   */
+  public getStakingModuleContracts(): Map<number, NodeOperatorsRegistryContract> {
+    return this.stakingModuleContracts;
+  }
 }
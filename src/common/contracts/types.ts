@@ -5,6 +5,11 @@ export interface ExitRequestsData {
   dataFormat: number;
 }
 
+export interface ExitRequestsResult {
+  exitRequestsData: ExitRequestsData;
+  exitRequestsHash: string;
+}
+
 export interface BeaconBlockHeader {
   slot: number; // uint64
   proposerIndex: number; // uint64
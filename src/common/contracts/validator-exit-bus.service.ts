@@ -1,25 +1,34 @@
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
-import { BigNumber, ethers } from 'ethers';
+import { ethers } from 'ethers';
 
 import { LidoLocatorContract } from './lido-locator.service';
-import { ExitRequestsData } from './types';
+import { ExitRequestsData, ExitRequestsResult } from './types';
 import veboJson from '../contracts/abi/validator-exit-bus-oracle.json';
 import vebJson from '../contracts/abi/validator-exit-bus.json';
+import { DATA_FORMAT_LIST, encodeValidatorsData, hashExitRequestsData } from '../helpers/exit-requests';
 import { getSizeRangeCategory } from '../prometheus/decorators';
 import { PrometheusService } from '../prometheus/prometheus.service';
+import { DecodedValidator } from '../prover/types';
 import { Execution } from '../providers/execution/execution';
+import { LogScanner } from '../providers/execution/log-scanner';
+import { StorageService, Store } from '../storage';
 
-interface ReportData {
-  consensusVersion: number;
-  refSlot: number;
-  requestsCount: number;
-  dataFormat: BigNumber;
-  data: string;
-}
+export class ExitRequestsDecodeError extends Error {}
 
-interface ExitRequestsResult {
-  exitRequestsData: ExitRequestsData;
+/**
+ * Delivery whose exit requests data could not be reconstructed, it is retried every cycle until decoded
+ */
+interface UndecodableExitRequests {
   exitRequestsHash: string;
+  transactionHash: string;
+  logIndex: number;
+  blockNumber: number;
+  failedAt: number;
+  attempts: number;
+}
+
+interface UndecodableExitRequestsData {
+  requests: UndecodableExitRequests[];
 }
 
 @Injectable()
@@ -28,10 +37,13 @@ export class ExitRequestsContract implements OnModuleInit {
   private readonly logger = new Logger(ExitRequestsContract.name);
   private exitBusAddress: string;
   private vebIface: ethers.utils.Interface;
+  private undecodable?: Promise<Store<UndecodableExitRequestsData>>;
 
   constructor(
     protected readonly execution: Execution,
+    protected readonly logScanner: LogScanner,
     protected readonly lidoLocator: LidoLocatorContract,
+    protected readonly storage: StorageService,
     protected readonly prometheus: PrometheusService,
   ) {}
 
@@ -54,6 +66,10 @@ export class ExitRequestsContract implements OnModuleInit {
     }
   }
 
+  /**
+   * Exit requests delivered in the block range
+   * Deliveries whose data can't be reconstructed are stored as undecodable and skipped, see `retryUndecodable`
+   */
   public async getExitRequestsFromBlock(fromBlock: number, toBlock: number): Promise<ExitRequestsResult[]> {
     const startTime = Date.now();
     const blockRange = toBlock - fromBlock;
@@ -79,8 +95,8 @@ export class ExitRequestsContract implements OnModuleInit {
       this.logger.debug(`Fetching exit requests from block ${fromBlock} to ${toBlock}`);
 
       // Get all ExitDataProcessing events
-      const events = await this.veboContract.queryFilter(
-        this.veboContract.filters.ExitDataProcessing(),
+      const events = await this.logScanner.getLogs(
+        { address: this.exitBusAddress, topics: [this.veboContract.interface.getEventTopic('ExitDataProcessing')] },
         fromBlock,
         toBlock,
       );
@@ -110,124 +126,54 @@ export class ExitRequestsContract implements OnModuleInit {
       );
 
       const results: ExitRequestsResult[] = [];
-      const transactionCache = new Map<string, ethers.providers.TransactionResponse>();
+      const receiptCache = new Map<string, ethers.providers.TransactionReceipt>();
 
       let processedCount = 0;
       let errorCount = 0;
+      let undecodableCount = 0;
 
       for (const event of events) {
         try {
           processedCount++;
-          // Process the transaction and get exit data
           const txHash = event.transactionHash;
 
           // Check cache first, then fetch if not cached
-          let tx = transactionCache.get(txHash);
-          if (!tx) {
-            tx = await this.execution.provider.getTransaction(txHash);
-            if (tx) {
-              transactionCache.set(txHash, tx);
-              this.logger.debug(`Cached transaction ${txHash}`);
+          let receipt = receiptCache.get(txHash);
+          if (!receipt) {
+            receipt = await this.execution.provider.getTransactionReceipt(txHash);
+            if (receipt) {
+              receiptCache.set(txHash, receipt);
             }
           } else {
-            this.logger.debug(`Using cached transaction ${txHash}`);
-          }
-
-          if (!tx?.data) {
-            this.logger.error(`Transaction ${txHash} not found or has no data`);
-            continue;
+            this.logger.debug(`Using cached receipt of transaction ${txHash}`);
           }
 
           // Check if transaction was successful
-          const receipt = await this.execution.provider.getTransactionReceipt(txHash);
           if (!receipt || receipt.status !== 1) {
             this.logger.debug(`Skipping unsuccessful transaction ${txHash}, status: ${receipt?.status}`);
             continue;
           }
 
           // Get the exitRequestsHash from the event
-          const exitRequestsHash = event.args?.exitRequestsHash;
+          const exitRequestsHash = this.veboContract.interface.parseLog(event).args.exitRequestsHash;
           if (!exitRequestsHash) {
             this.logger.error('Exit requests hash not found in event');
             continue;
           }
 
-          // Decode the submitReportData or submitExitRequestsData transaction
-          let decodedData;
-          let decodeMethod = '';
-          try {
-            decodedData = this.veboContract.interface.decodeFunctionData('submitReportData', tx.data);
-            decodeMethod = 'submitReportData';
-          } catch (e1) {
-            try {
-              decodedData = this.vebIface.decodeFunctionData('submitExitRequestsData', tx.data);
-              decodeMethod = 'submitExitRequestsData';
-            } catch (e2) {
-              this.logger.error(`Failed to decode transaction data for ${txHash}:`, e1.message, e2.message);
-              continue;
-            }
-          }
-
-          // For submitExitRequestsData, the structure is different
-          let reportData: ReportData;
-          if (decodeMethod === 'submitExitRequestsData') {
-            // Access the request struct from decodedData
-            const requestStruct = decodedData.request || decodedData[0];
-            if (!requestStruct || !requestStruct.data) {
-              this.logger.error(
-                `Request struct from ${decodeMethod} is invalid or missing 'data' property: ` +
-                  JSON.stringify(
-                    {
-                      txHash,
-                      decodeMethod,
-                      requestStruct,
-                      decodedDataKeys: Object.keys(decodedData),
-                    },
-                    null,
-                    2,
-                  ),
-              );
-              continue;
-            }
-            reportData = {
-              consensusVersion: 0, // Not available in submitExitRequestsData
-              refSlot: 0, // Not available in submitExitRequestsData
-              requestsCount: 0, // Not available in submitExitRequestsData
-              dataFormat: requestStruct.dataFormat,
-              data: requestStruct.data,
-            };
-          } else {
-            // For submitReportData, access data directly
-            if (!decodedData || typeof decodedData !== 'object' || !('data' in decodedData)) {
-              this.logger.error(
-                `Decoded data from ${decodeMethod} is invalid or missing 'data' property: ` +
-                  JSON.stringify(
-                    {
-                      txHash,
-                      decodeMethod,
-                      txData: tx.data,
-                      decodedData,
-                      decodedDataKeys: decodedData && typeof decodedData === 'object' ? Object.keys(decodedData) : null,
-                    },
-                    null,
-                    2,
-                  ),
-              );
-              continue;
-            }
-            reportData = decodedData.data as ReportData;
-          }
-
-          const exitRequestsData: ExitRequestsData = {
-            data: reportData.data,
-            dataFormat: reportData.dataFormat.toNumber(),
-          };
+          const exitRequestsData = await this.reconstructExitRequestsData(exitRequestsHash, event.logIndex, receipt);
 
           results.push({
             exitRequestsData,
             exitRequestsHash,
           });
         } catch (error) {
+          // Undecodable requests don't hold the rest of the range, they are retried on their own
+          if (error instanceof ExitRequestsDecodeError) {
+            undecodableCount++;
+            await this.markUndecodable(event, error);
+            continue;
+          }
           errorCount++;
           this.logger.error(`Failed to process event: ${error.message}`);
           continue;
@@ -240,6 +186,9 @@ export class ExitRequestsContract implements OnModuleInit {
       if (errorCount > 0) {
         this.prometheus.exitRequestsProcessedCount.inc({ status: 'error' }, errorCount);
       }
+      if (undecodableCount > 0) {
+        this.prometheus.exitRequestsProcessedCount.inc({ status: 'decode_error' }, undecodableCount);
+      }
 
       const totalDuration = Date.now() - startTime;
       this.logger.debug(
@@ -248,6 +197,7 @@ export class ExitRequestsContract implements OnModuleInit {
           `\n  Events found: ${events.length}` +
           `\n  Successfully processed: ${processedCount}` +
           `\n  Errors: ${errorCount}` +
+          `\n  Undecodable: ${undecodableCount}` +
           `\n  Total duration: ${totalDuration}ms` +
           `\n  Avg per event: ${events.length > 0 ? (totalDuration / events.length).toFixed(2) : 0}ms`,
       );
@@ -265,6 +215,51 @@ export class ExitRequestsContract implements OnModuleInit {
     }
   }
 
+  /**
+   * Try to reconstruct the exit requests stored as undecodable again, e.g. once a node with call traces is configured
+   * Decoded requests leave the store and are returned to be processed like the ones of the scanned range
+   */
+  public async retryUndecodable(): Promise<ExitRequestsResult[]> {
+    const store = await this.openUndecodable();
+    const results: ExitRequestsResult[] = [];
+
+    for (const request of [...store.data.requests]) {
+      try {
+        const receipt = await this.execution.provider.getTransactionReceipt(request.transactionHash);
+        if (!receipt) {
+          throw new ExitRequestsDecodeError(`Receipt of transaction ${request.transactionHash} is not found`);
+        }
+        const exitRequestsData = await this.reconstructExitRequestsData(
+          request.exitRequestsHash,
+          request.logIndex,
+          receipt,
+        );
+
+        results.push({ exitRequestsData, exitRequestsHash: request.exitRequestsHash });
+        store.data.requests = store.data.requests.filter((stored) => stored !== request);
+        this.logger.log(
+          `Undecodable exit requests decoded on retry:` +
+            `\n  Hash: ${request.exitRequestsHash}` +
+            `\n  Transaction: ${request.transactionHash}` +
+            `\n  Attempts: ${request.attempts}`,
+        );
+      } catch (error) {
+        request.attempts++;
+        this.logger.warn(
+          `Exit requests are still undecodable:` +
+            `\n  Hash: ${request.exitRequestsHash}` +
+            `\n  Transaction: ${request.transactionHash}` +
+            `\n  Attempts: ${request.attempts}` +
+            `\n  Error: ${error.message}`,
+        );
+      }
+    }
+
+    await store.write();
+    this.prometheus.undecodableExitRequestsCount.set(store.data.requests.length);
+    return results;
+  }
+
   public async getExitRequestDeliveryTimestamp(exitRequestsHash: string): Promise<number> {
     const startTime = Date.now();
 
@@ -304,6 +299,183 @@ export class ExitRequestsContract implements OnModuleInit {
     }
   }
 
+  private async markUndecodable(event: ethers.providers.Log, error: ExitRequestsDecodeError): Promise<void> {
+    const exitRequestsHash: string = this.veboContract.interface.parseLog(event).args.exitRequestsHash;
+    const store = await this.openUndecodable();
+
+    if (!store.data.requests.some((request) => request.exitRequestsHash === exitRequestsHash)) {
+      store.data.requests.push({
+        exitRequestsHash,
+        transactionHash: event.transactionHash,
+        logIndex: event.logIndex,
+        blockNumber: event.blockNumber,
+        failedAt: Date.now(),
+        attempts: 1,
+      });
+      await store.write();
+    }
+    this.prometheus.undecodableExitRequestsCount.set(store.data.requests.length);
+
+    this.logger.error(`${error.message}\n  Stored as undecodable, the delivery is retried every cycle`);
+  }
+
+  /**
+   * Opened on first use, so the CLI commands not scanning exit requests don't lock the storage
+   */
+  private openUndecodable(): Promise<Store<UndecodableExitRequestsData>> {
+    this.undecodable ??= this.storage.open<UndecodableExitRequestsData>('undecodable-exit-requests', {
+      requests: [],
+    });
+    return this.undecodable;
+  }
+
+  /**
+   * Reconstruct the exit requests data delivered with the ExitDataProcessing event
+   * Works for deliveries wrapped in any outer call (multisig, DAO vote script, EasyTrack factory, proxy):
+   * 1. ValidatorExitRequest events emitted next to the ExitDataProcessing event in the same transaction
+   * 2. Top-level calldata of the transaction
+   * 3. Inner calls of the transaction from `debug_traceTransaction` or `trace_transaction`
+   * Each candidate is accepted only if it matches the exit requests hash
+   */
+  private async reconstructExitRequestsData(
+    exitRequestsHash: string,
+    logIndex: number,
+    receipt: ethers.providers.TransactionReceipt,
+  ): Promise<ExitRequestsData> {
+    const txHash = receipt.transactionHash;
+
+    for (const data of this.getExitRequestsDataFromEvents(logIndex, receipt)) {
+      if (hashExitRequestsData(data) === exitRequestsHash) {
+        this.prometheus.exitRequestsDecodedCount.inc({ source: 'events' });
+        return data;
+      }
+    }
+
+    const tx = await this.execution.provider.getTransaction(txHash);
+    const fromCalldata =
+      tx?.to?.toLowerCase() === this.exitBusAddress.toLowerCase() ? this.decodeCalldata(tx.data) : null;
+    if (fromCalldata && hashExitRequestsData(fromCalldata) === exitRequestsHash) {
+      this.prometheus.exitRequestsDecodedCount.inc({ source: 'calldata' });
+      return fromCalldata;
+    }
+
+    this.logger.warn(
+      `Exit requests ${exitRequestsHash} are not found in events and calldata of transaction ${txHash}, tracing it`,
+    );
+    for (const input of await this.getExitBusCallInputs(txHash)) {
+      const data = this.decodeCalldata(input);
+      if (data && hashExitRequestsData(data) === exitRequestsHash) {
+        this.prometheus.exitRequestsDecodedCount.inc({ source: 'trace' });
+        return data;
+      }
+    }
+
+    throw new ExitRequestsDecodeError(
+      `Failed to reconstruct exit requests data:` +
+        `\n  Hash: ${exitRequestsHash}` +
+        `\n  Transaction: ${txHash}` +
+        `\n  Block: ${receipt.blockNumber}`,
+    );
+  }
+
+  /**
+   * Exit requests data rebuilt from the ValidatorExitRequest events of the exit bus around the ExitDataProcessing event.
+   * The events are emitted either before or after ExitDataProcessing, so both neighbouring runs are candidates
+   */
+  private getExitRequestsDataFromEvents(
+    logIndex: number,
+    receipt: ethers.providers.TransactionReceipt,
+  ): ExitRequestsData[] {
+    const exitBusLogs = receipt.logs
+      .filter((log) => log.address.toLowerCase() === this.exitBusAddress.toLowerCase())
+      .map((log) => {
+        try {
+          return { logIndex: log.logIndex, event: this.vebIface.parseLog(log) };
+        } catch {
+          return { logIndex: log.logIndex, event: null };
+        }
+      });
+
+    const position = exitBusLogs.findIndex((log) => log.logIndex === logIndex);
+    if (position === -1) {
+      return [];
+    }
+
+    // Runs of events are bounded by the neighbouring ExitDataProcessing events of other deliveries
+    const isDelivery = (i: number) => exitBusLogs[i].event?.name === 'ExitDataProcessing';
+    let start = position;
+    while (start > 0 && !isDelivery(start - 1)) {
+      start--;
+    }
+    let end = position + 1;
+    while (end < exitBusLogs.length && !isDelivery(end)) {
+      end++;
+    }
+
+    return [exitBusLogs.slice(start, position), exitBusLogs.slice(position + 1, end)].map((logs) => {
+      const validators: DecodedValidator[] = logs
+        .filter(({ event }) => event?.name === 'ValidatorExitRequest')
+        .map(({ event }, exitDataIndex) => ({
+          exitDataIndex,
+          moduleId: event!.args.stakingModuleId.toBigInt(),
+          nodeOpId: event!.args.nodeOperatorId.toBigInt(),
+          validatorIndex: event!.args.validatorIndex.toBigInt(),
+          validatorPubkey: event!.args.validatorPubkey,
+        }));
+      return { data: encodeValidatorsData(validators), dataFormat: DATA_FORMAT_LIST };
+    });
+  }
+
+  private decodeCalldata(calldata: string): ExitRequestsData | null {
+    try {
+      const { data } = this.veboContract.interface.decodeFunctionData('submitReportData', calldata);
+      return { data: data.data, dataFormat: data.dataFormat.toNumber() };
+    } catch {
+      // Not a report
+    }
+    try {
+      const { request } = this.vebIface.decodeFunctionData('submitExitRequestsData', calldata);
+      return { data: request.data, dataFormat: request.dataFormat.toNumber() };
+    } catch {
+      return null;
+    }
+  }
+
+  /**
+   * Inputs of all calls to the exit bus made within the transaction
+   * Tries geth-style `debug_traceTransaction` first, then parity-style `trace_transaction`
+   */
+  private async getExitBusCallInputs(txHash: string): Promise<string[]> {
+    const exitBusAddress = this.exitBusAddress.toLowerCase();
+
+    try {
+      const root = await this.execution.provider.send('debug_traceTransaction', [txHash, { tracer: 'callTracer' }]);
+      const inputs: string[] = [];
+      const walk = (call: any): void => {
+        if (call.to?.toLowerCase() === exitBusAddress && call.input && !call.error) {
+          inputs.push(call.input);
+        }
+        (call.calls ?? []).forEach(walk);
+      };
+      walk(root);
+      return inputs;
+    } catch (error) {
+      this.logger.debug(`debug_traceTransaction is not available for ${txHash}: ${error.message}`);
+    }
+
+    try {
+      const traces = await this.execution.provider.send('trace_transaction', [txHash]);
+      return traces
+        .filter((trace: any) => trace.type === 'call' && !trace.error)
+        .filter((trace: any) => trace.action?.to?.toLowerCase() === exitBusAddress)
+        .map((trace: any) => trace.action.input);
+    } catch (error) {
+      this.logger.debug(`trace_transaction is not available for ${txHash}: ${error.message}`);
+    }
+
+    return [];
+  }
+
   private validateBlockRange(fromBlock: number, toBlock: number): void {
     if (fromBlock < 0 || toBlock < 0) {
       throw new Error('Block numbers must be non-negative');
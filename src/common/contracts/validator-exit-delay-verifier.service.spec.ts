@@ -0,0 +1,90 @@
+import { Server, createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+import { ethers } from 'ethers';
+
+import { VerifierContract } from './validator-exit-delay-verifier.service';
+
+// The execution provider is replaced by a plain JSON-RPC provider
+jest.mock('../providers/execution/execution', () => ({ Execution: class {} }));
+
+const BEACON_ROOTS = '0x000F3df6D732807Ef1319fB7B8bB8522d0Beac02';
+const ROOT = '0x' + 'ab'.repeat(32);
+
+/**
+ * Minimal JSON-RPC node answering `eth_call` with the result or the error of the handler
+ */
+function startNode(
+  handler: (params: any[]) => { result?: string; error?: object },
+): Promise<{ server: Server; url: string }> {
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      const { id, method, params } = JSON.parse(body);
+      const response = method === 'eth_call' ? handler(params) : { result: '0x1' };
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ jsonrpc: '2.0', id, ...response }));
+    });
+  });
+  return new Promise((resolve) =>
+    server.listen(0, '127.0.0.1', () => {
+      resolve({ server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` });
+    }),
+  );
+}
+
+const createVerifier = (provider: Pick<ethers.providers.Provider, 'call'>) => {
+  const verifier = new VerifierContract({} as any, { provider } as any, {} as any);
+  Object.assign(verifier, { contract: { BEACON_ROOTS: async () => BEACON_ROOTS } });
+  return verifier;
+};
+
+describe('VerifierContract.getParentBlockRoot', () => {
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    if (server) {
+      await new Promise((resolve) => server!.close(resolve));
+      server = undefined;
+    }
+  });
+
+  it('reads the root stored for the timestamp', async () => {
+    let calldata: string | undefined;
+    const node = await startNode(([tx]) => {
+      calldata = tx.data;
+      return { result: ROOT };
+    });
+    server = node.server;
+
+    const verifier = createVerifier(new ethers.providers.StaticJsonRpcProvider(node.url, 1));
+
+    await expect(verifier.getParentBlockRoot(1_700_000_000)).resolves.toBe(ROOT);
+    expect(calldata).toBe(ethers.utils.hexZeroPad(ethers.utils.hexlify(1_700_000_000), 32));
+  });
+
+  it('returns undefined for a reverted call', async () => {
+    const node = await startNode(() => ({ error: { code: -32000, message: 'execution reverted' } }));
+    server = node.server;
+
+    const verifier = createVerifier(new ethers.providers.StaticJsonRpcProvider(node.url, 1));
+
+    await expect(verifier.getParentBlockRoot(1_700_000_000)).resolves.toBeUndefined();
+  });
+
+  it('returns undefined for a reverted call wrapped by the fallback provider', async () => {
+    const revert = Object.assign(new Error('missing revert data in call exception'), { code: 'CALL_EXCEPTION' });
+    const wrapped = Object.assign(new Error('All attempts to do ETH1 RPC request failed'), { cause: revert });
+    const verifier = createVerifier({ call: () => Promise.reject(wrapped) });
+
+    await expect(verifier.getParentBlockRoot(1_700_000_000)).resolves.toBeUndefined();
+  });
+
+  it('rethrows failures of the node', async () => {
+    const failure = Object.assign(new Error('connection refused'), { code: 'SERVER_ERROR' });
+    const verifier = createVerifier({ call: () => Promise.reject(failure) });
+
+    await expect(verifier.getParentBlockRoot(1_700_000_000)).rejects.toBe(failure);
+  });
+});
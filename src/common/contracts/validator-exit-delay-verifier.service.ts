@@ -3,15 +3,31 @@ import { ethers } from 'ethers';
 
 import { LidoLocatorContract } from './lido-locator.service';
 import { ExitRequestsData, HistoricalHeaderWitness, ProvableBeaconBlockHeader, ValidatorWitness } from './types';
+import { isCallReverted } from './verifier-errors';
 import { ConfigService } from '../config/config.service';
 import contractJson from '../contracts/abi/validator-exit-delay-verifier.json';
 import { Execution } from '../providers/execution/execution';
 
+export interface VerifierProofParameters {
+  // Generalized indices packed as in the verifier: the index in the upper 248 bits, the depth in the lower 8 bits
+  gIFirstValidatorPrev: string;
+  gIFirstValidatorCurr: string;
+  gIFirstHistoricalSummaryPrev: string;
+  gIFirstHistoricalSummaryCurr: string;
+  gIFirstBlockRootInSummaryPrev: string;
+  gIFirstBlockRootInSummaryCurr: string;
+  pivotSlot: number;
+  capellaSlot: number;
+  slotsPerHistoricalRoot: number;
+}
+
 @Injectable()
 export class VerifierContract implements OnModuleInit {
   private contract: ethers.Contract;
   private readonly logger = new Logger(VerifierContract.name);
   private verifierAddress: string;
+  private proofParameters?: VerifierProofParameters;
+  private beaconRootsAddress?: string;
 
   constructor(
     protected readonly config: ConfigService,
@@ -53,6 +69,63 @@ export class VerifierContract implements OnModuleInit {
     }
   }
 
+  public get address(): string {
+    return this.verifierAddress;
+  }
+
+  /**
+   * Get the generalized indices and the slots the verifier checks proofs with
+   * Values are immutable in the contract, so they are read once
+   */
+  public async getProofParameters(): Promise<VerifierProofParameters> {
+    if (!this.proofParameters) {
+      this.proofParameters = {
+        gIFirstValidatorPrev: await this.contract.GI_FIRST_VALIDATOR_PREV(),
+        gIFirstValidatorCurr: await this.contract.GI_FIRST_VALIDATOR_CURR(),
+        gIFirstHistoricalSummaryPrev: await this.contract.GI_FIRST_HISTORICAL_SUMMARY_PREV(),
+        gIFirstHistoricalSummaryCurr: await this.contract.GI_FIRST_HISTORICAL_SUMMARY_CURR(),
+        gIFirstBlockRootInSummaryPrev: await this.contract.GI_FIRST_BLOCK_ROOT_IN_SUMMARY_PREV(),
+        gIFirstBlockRootInSummaryCurr: await this.contract.GI_FIRST_BLOCK_ROOT_IN_SUMMARY_CURR(),
+        pivotSlot: Number(await this.contract.PIVOT_SLOT()),
+        capellaSlot: Number(await this.contract.CAPELLA_SLOT()),
+        slotsPerHistoricalRoot: Number(await this.contract.SLOTS_PER_HISTORICAL_ROOT()),
+      };
+    }
+    return this.proofParameters;
+  }
+
+  /**
+   * Get the parent beacon block root stored by the EIP-4788 contract for the execution block timestamp,
+   * resolved the same way the verifier resolves `rootsTimestamp`
+   * Undefined if the root is not in the ring buffer (not stored yet or rotated out)
+   */
+  public async getParentBlockRoot(timestamp: number): Promise<string | undefined> {
+    if (!this.beaconRootsAddress) {
+      this.beaconRootsAddress = (await this.contract.BEACON_ROOTS()) as string;
+    }
+
+    try {
+      const root = await this.execution.provider.call({
+        to: this.beaconRootsAddress,
+        data: ethers.utils.hexZeroPad(ethers.utils.hexlify(timestamp), 32),
+      });
+      return ethers.utils.hexDataLength(root) === 32 ? root : undefined;
+    } catch (error) {
+      // The contract reverts without data for timestamps missing in the ring buffer
+      if (isCallReverted(error)) {
+        return undefined;
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Size in bytes of the calldata of the verifier method called with the arguments
+   */
+  public getCalldataSize(method: string, args: any[]): number {
+    return ethers.utils.hexDataLength(this.contract.interface.encodeFunctionData(method, args));
+  }
+
   public async getShardCommitteePeriodInSeconds(): Promise<number> {
     try {
       const result = await this.contract.SHARD_COMMITTEE_PERIOD_IN_SECONDS();
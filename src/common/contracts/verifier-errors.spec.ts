@@ -0,0 +1,68 @@
+import { ethers } from 'ethers';
+
+import { RevertScope, decodeRevert } from './verifier-errors';
+
+const encodeError = (signature: string, args: any[] = []) =>
+  new ethers.utils.Interface([`error ${signature}`]).encodeErrorResult(signature.split('(')[0], args);
+
+describe('decodeRevert', () => {
+  it('decodes verifier errors caused by a single validator', () => {
+    const data = encodeError('ExitDataIndexOutOfRange(uint256,uint256)', [7, 5]);
+
+    expect(decodeRevert({ code: 'CALL_EXCEPTION', data })).toEqual({
+      name: 'ExitDataIndexOutOfRange',
+      args: ['7', '5'],
+      scope: RevertScope.validator,
+    });
+  });
+
+  it('decodes verifier errors caused by a single validator at the proved slot', () => {
+    const data = encodeError('ExitIsNotEligibleOnProvableBeaconBlock(uint256,uint256)', [100, 200]);
+
+    expect(decodeRevert({ code: 'CALL_EXCEPTION', data })).toEqual({
+      name: 'ExitIsNotEligibleOnProvableBeaconBlock',
+      args: ['100', '200'],
+      scope: RevertScope.slot,
+    });
+  });
+
+  it('decodes errors of the whole batch', () => {
+    expect(decodeRevert({ code: 'CALL_EXCEPTION', data: encodeError('RootNotFound()') })).toEqual({
+      name: 'RootNotFound',
+      args: [],
+      scope: RevertScope.batch,
+    });
+    expect(decodeRevert({ data: encodeError('UnsupportedSlot(uint64)', [5]) }).scope).toBe(RevertScope.batch);
+  });
+
+  it('decodes errors of the staking modules', () => {
+    const data = encodeError('ValidatorExitDelayNotApplicable()');
+
+    expect(decodeRevert({ data }).scope).toBe(RevertScope.slot);
+    expect(decodeRevert({ data: encodeError('NodeOperatorDoesNotExist()') }).scope).toBe(RevertScope.validator);
+  });
+
+  it('finds the revert data nested in provider errors', () => {
+    const data = encodeError('InvalidBlockHeader()');
+    const body = JSON.stringify({ jsonrpc: '2.0', id: 1, error: { code: 3, message: 'execution reverted', data } });
+
+    expect(decodeRevert({ code: 'SERVER_ERROR', error: { error: { data } } }).name).toBe('InvalidBlockHeader');
+    expect(decodeRevert({ code: 'SERVER_ERROR', error: { body } }).name).toBe('InvalidBlockHeader');
+  });
+
+  it('decodes revert reasons', () => {
+    const data = new ethers.utils.Interface(['function Error(string)']).encodeFunctionData('Error', ['OUT_OF_RANGE']);
+
+    expect(decodeRevert({ data })).toEqual({ name: 'Error', args: ['OUT_OF_RANGE'], scope: RevertScope.batch });
+  });
+
+  it('keeps the selector of unknown errors', () => {
+    expect(decodeRevert({ data: '0x12345678' })).toEqual({ name: '0x12345678', args: [], scope: RevertScope.batch });
+  });
+
+  it('treats failures without a revert as transient', () => {
+    expect(decodeRevert({ code: 'TIMEOUT' }).scope).toBe(RevertScope.transient);
+    expect(decodeRevert(new Error('socket hang up')).scope).toBe(RevertScope.transient);
+    expect(decodeRevert({ code: 'CALL_EXCEPTION', data: '0x' }).scope).toBe(RevertScope.batch);
+  });
+});
@@ -0,0 +1,118 @@
+import { ethers } from 'ethers';
+
+import stakingRouterJson from '../contracts/abi/staking-router.json';
+import vebJson from '../contracts/abi/validator-exit-bus.json';
+import verifierJson from '../contracts/abi/validator-exit-delay-verifier.json';
+
+export enum RevertScope {
+  // Caused by a single validator of the batch, the rest of the batch is valid
+  validator = 'validator',
+  // Caused by a single validator at the proved slot: its exit is not eligible or not late at the slot timestamp yet
+  slot = 'slot',
+  // Caused by the batch as a whole: the beacon block, the historical proof or the exit request
+  batch = 'batch',
+  // Not a revert: the node failed to run the call
+  transient = 'transient',
+}
+
+export interface DecodedRevert {
+  name: string;
+  args: string[];
+  scope: RevertScope;
+}
+
+// Errors of the staking modules and of the SSZ library, the verifier bubbles them up
+const EXTERNAL_ERRORS = [
+  'error InvalidProof()',
+  'error BranchHasMissingItem()',
+  'error BranchHasExtraItem()',
+  'error ValidatorExitDelayNotApplicable()',
+  'error NodeOperatorDoesNotExist()',
+  'error SigningKeysInvalidOffset()',
+];
+
+const VALIDATOR_ERRORS = new Set(['ExitDataIndexOutOfRange', 'NodeOperatorDoesNotExist', 'SigningKeysInvalidOffset']);
+
+const SLOT_ERRORS = new Set(['ExitIsNotEligibleOnProvableBeaconBlock', 'ValidatorExitDelayNotApplicable']);
+
+const ERROR_STRING_SELECTOR = '0x08c379a0'; // Error(string)
+
+const errorsInterface = new ethers.utils.Interface(uniqueErrors([verifierJson, vebJson, stakingRouterJson]));
+
+/**
+ * Decode the revert of a failed call against the verifier, exit bus, staking router and module errors
+ */
+export function decodeRevert(error: any): DecodedRevert {
+  const data = findRevertData(error);
+  if (data === undefined) {
+    return error?.code === 'CALL_EXCEPTION'
+      ? { name: 'Revert', args: [], scope: RevertScope.batch }
+      : { name: error?.code ?? 'Unknown', args: [], scope: RevertScope.transient };
+  }
+
+  if (data.startsWith(ERROR_STRING_SELECTOR)) {
+    const [reason] = ethers.utils.defaultAbiCoder.decode(['string'], ethers.utils.hexDataSlice(data, 4));
+    return { name: 'Error', args: [reason], scope: RevertScope.batch };
+  }
+
+  try {
+    const parsed = errorsInterface.parseError(data);
+    return {
+      name: parsed.name,
+      args: parsed.args.map(String),
+      scope: VALIDATOR_ERRORS.has(parsed.name)
+        ? RevertScope.validator
+        : SLOT_ERRORS.has(parsed.name)
+          ? RevertScope.slot
+          : RevertScope.batch,
+    };
+  } catch {
+    return { name: ethers.utils.hexDataSlice(data, 0, 4), args: [], scope: RevertScope.batch };
+  }
+}
+
+/**
+ * Whether the call reverted, also when the error is wrapped by the fallback provider
+ */
+export function isCallReverted(error: any, depth = 0): boolean {
+  if (error == null || typeof error !== 'object' || depth > 5) {
+    return false;
+  }
+  if (error.code === 'CALL_EXCEPTION' || /execution reverted/i.test(error.message ?? '')) {
+    return true;
+  }
+  return isCallReverted(error.error, depth + 1) || isCallReverted(error.cause, depth + 1);
+}
+
+/**
+ * Revert data nested in the error of the provider, the JSON-RPC response body included
+ */
+function findRevertData(error: any, depth = 0): string | undefined {
+  if (error == null || typeof error !== 'object' || depth > 5) {
+    return undefined;
+  }
+  if (typeof error.data === 'string' && /^0x[0-9a-f]{8}/i.test(error.data)) {
+    return error.data;
+  }
+  if (typeof error.body === 'string') {
+    try {
+      const data = findRevertData(JSON.parse(error.body).error, depth + 1);
+      if (data) {
+        return data;
+      }
+    } catch {
+      // Not a JSON-RPC response
+    }
+  }
+  return findRevertData(error.error, depth + 1) ?? findRevertData(error.data, depth + 1);
+}
+
+function uniqueErrors(abis: any[][]): string[] {
+  const errors = new Map<string, string>();
+  const fragments = abis.flat().filter((fragment) => fragment.type === 'error');
+  for (const fragment of [...fragments, ...EXTERNAL_ERRORS].map((f) => ethers.utils.Fragment.from(f))) {
+    // ABIs of different contracts share errors
+    errors.set(fragment.format(ethers.utils.FormatTypes.sighash), fragment.format(ethers.utils.FormatTypes.full));
+  }
+  return Array.from(errors.values());
+}
@@ -4,6 +4,12 @@ import { Controller, Get } from '@nestjs/common';
 import { HealthCheck, HealthCheckService, MemoryHealthIndicator } from '@nestjs/terminus';
 
 import { HEALTH_URL } from './health.constants';
+import {
+  ConsensusHealthIndicator,
+  DaemonHealthIndicator,
+  ExecutionHealthIndicator,
+  SignerHealthIndicator,
+} from './indicators';
 
 @Controller(HEALTH_URL)
 export class HealthController {
@@ -11,6 +17,10 @@ export class HealthController {
   constructor(
     private health: HealthCheckService,
     private memory: MemoryHealthIndicator,
+    private consensus: ConsensusHealthIndicator,
+    private execution: ExecutionHealthIndicator,
+    private daemon: DaemonHealthIndicator,
+    private signer: SignerHealthIndicator,
   ) {
     this.maxHeapSize = v8.getHeapStatistics().heap_size_limit;
   }
@@ -20,4 +30,29 @@ export class HealthController {
   check() {
     return this.health.check([async () => this.memory.checkHeap('memoryHeap', this.maxHeapSize)]);
   }
+
+  /**
+   * The process is alive: the heap is within limits and the daemon loop is not stuck
+   */
+  @Get('liveness')
+  @HealthCheck()
+  liveness() {
+    return this.health.check([
+      async () => this.memory.checkHeap('memoryHeap', this.maxHeapSize),
+      async () => this.daemon.check('daemonLoop'),
+    ]);
+  }
+
+  /**
+   * The bot can do its work: consensus and execution nodes are usable and the signer can pay for transactions
+   */
+  @Get('readiness')
+  @HealthCheck()
+  readiness() {
+    return this.health.check([
+      async () => this.consensus.check('consensusLayer'),
+      async () => this.execution.check('executionLayer'),
+      async () => this.signer.check('signerBalance'),
+    ]);
+  }
 }
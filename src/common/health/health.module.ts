@@ -2,10 +2,17 @@ import { Module } from '@nestjs/common';
 import { TerminusModule } from '@nestjs/terminus';
 
 import { HealthController } from './health.controller';
+import {
+  ConsensusHealthIndicator,
+  DaemonHealthIndicator,
+  ExecutionHealthIndicator,
+  SignerHealthIndicator,
+} from './indicators';
+import { ProvidersModule } from '../providers/providers.module';
 
 @Module({
-  providers: [],
+  providers: [ConsensusHealthIndicator, DaemonHealthIndicator, ExecutionHealthIndicator, SignerHealthIndicator],
   controllers: [HealthController],
-  imports: [TerminusModule],
+  imports: [TerminusModule, ProvidersModule],
 })
 export class HealthModule {}
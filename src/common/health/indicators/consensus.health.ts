@@ -0,0 +1,56 @@
+import { Injectable } from '@nestjs/common';
+import { HealthCheckError, HealthIndicator, HealthIndicatorResult } from '@nestjs/terminus';
+
+import { ConfigService } from '../../config/config.service';
+import { Consensus } from '../../providers/consensus/consensus';
+
+/**
+ * Checks every CL_API_URLS node: reachable, synced and connected to its execution client
+ * Healthy while at least one node is usable, as requests fall back between the URLs
+ */
+@Injectable()
+export class ConsensusHealthIndicator extends HealthIndicator {
+  constructor(
+    protected readonly config: ConfigService,
+    protected readonly consensus: Consensus,
+  ) {
+    super();
+  }
+
+  public async check(key: string): Promise<HealthIndicatorResult> {
+    const nodes = await Promise.all(this.consensus.apiUrls.map((url) => this.checkNode(url)));
+    const isHealthy = nodes.some((node) => node.status === 'up');
+    const result = this.getStatus(key, isHealthy, { nodes });
+
+    if (isHealthy) {
+      return result;
+    }
+    throw new HealthCheckError('No consensus layer node is available', result);
+  }
+
+  private async checkNode(url: string): Promise<Record<string, any>> {
+    const host = new URL(url).hostname;
+    const signal = AbortSignal.timeout(this.config.get('HEALTH_CHECK_TIMEOUT_MS'));
+
+    try {
+      const [syncing, version] = await Promise.all([
+        this.consensus.getNodeSyncing(url, signal),
+        this.consensus.getNodeVersion(url, signal),
+      ]);
+      const isHealthy = !syncing.is_syncing && !syncing.el_offline;
+
+      return {
+        host,
+        status: isHealthy ? 'up' : 'down',
+        version,
+        headSlot: Number(syncing.head_slot),
+        syncDistance: Number(syncing.sync_distance),
+        isSyncing: syncing.is_syncing,
+        isOptimistic: syncing.is_optimistic ?? false,
+        elOffline: syncing.el_offline ?? false,
+      };
+    } catch (error) {
+      return { host, status: 'down', error: error.message };
+    }
+  }
+}
@@ -0,0 +1,49 @@
+import { Injectable } from '@nestjs/common';
+import { HealthCheckError, HealthIndicator, HealthIndicatorResult } from '@nestjs/terminus';
+
+import { ConfigService } from '../../config/config.service';
+import { PrometheusService } from '../../prometheus';
+
+/**
+ * Checks the daemon loop is not stuck by the time since its latest successful run.
+ * Deliberate waits within a run (gas fee and spending budget retries, transaction mining) record heartbeats,
+ * so a long wait is not mistaken for a stuck loop
+ */
+@Injectable()
+export class DaemonHealthIndicator extends HealthIndicator {
+  // The loop has not completed a run yet right after the start
+  private readonly startedAt = Date.now();
+
+  constructor(
+    protected readonly config: ConfigService,
+    protected readonly prometheus: PrometheusService,
+  ) {
+    super();
+  }
+
+  public async check(key: string): Promise<HealthIndicatorResult> {
+    const latestSuccessRun = await this.getTimestamp(this.prometheus.latestSuccessRun);
+    const latestHeartbeat = await this.getTimestamp(this.prometheus.latestHeartbeat);
+
+    const maxAge = this.config.get('HEALTH_MAX_SUCCESS_RUN_AGE_MS');
+    const age = Date.now() - Math.max(latestSuccessRun, latestHeartbeat, this.startedAt);
+    const isHealthy = age <= maxAge;
+    const result = this.getStatus(key, isHealthy, {
+      latestSuccessRun: latestSuccessRun ? new Date(latestSuccessRun).toISOString() : null,
+      latestHeartbeat: latestHeartbeat ? new Date(latestHeartbeat).toISOString() : null,
+      sinceLatestSuccessRunMs: age,
+      maxAgeMs: maxAge,
+    });
+
+    if (isHealthy) {
+      return result;
+    }
+    throw new HealthCheckError('Daemon loop has not completed a run for too long', result);
+  }
+
+  private async getTimestamp(gauge: PrometheusService['latestSuccessRun']): Promise<number> {
+    const metric = await gauge.get();
+    // The gauge is set to the current time in seconds
+    return (metric.values[0]?.value ?? 0) * 1000;
+  }
+}
@@ -0,0 +1,58 @@
+import { Injectable } from '@nestjs/common';
+import { HealthCheckError, HealthIndicator, HealthIndicatorResult } from '@nestjs/terminus';
+import { ethers } from 'ethers';
+
+import { ConfigService } from '../../config/config.service';
+
+/**
+ * Checks every EL_RPC_URLS node: reachable and not lagging behind the most recent one
+ * Healthy while at least one node is usable, as requests fall back between the URLs
+ */
+@Injectable()
+export class ExecutionHealthIndicator extends HealthIndicator {
+  private readonly providers: Map<string, ethers.providers.StaticJsonRpcProvider>;
+
+  constructor(protected readonly config: ConfigService) {
+    super();
+    this.providers = new Map(
+      (this.config.get('EL_RPC_URLS') as string[]).map((url) => [
+        url,
+        new ethers.providers.StaticJsonRpcProvider(
+          { url, timeout: this.config.get('HEALTH_CHECK_TIMEOUT_MS') },
+          this.config.get('CHAIN_ID'),
+        ),
+      ]),
+    );
+  }
+
+  public async check(key: string): Promise<HealthIndicatorResult> {
+    const blocks = await Promise.all(
+      Array.from(this.providers.entries()).map(async ([url, provider]) => {
+        try {
+          return { url, blockNumber: await provider.getBlockNumber() };
+        } catch (error) {
+          return { url, error: error.message as string };
+        }
+      }),
+    );
+
+    const maxBlockLag = this.config.get('HEALTH_EL_MAX_BLOCK_LAG');
+    const headBlock = Math.max(...blocks.map((b) => b.blockNumber ?? 0));
+    const nodes = blocks.map(({ url, blockNumber, error }) => {
+      const host = new URL(url).hostname;
+      if (blockNumber === undefined) {
+        return { host, status: 'down', error };
+      }
+      const lag = headBlock - blockNumber;
+      return { host, status: lag <= maxBlockLag ? 'up' : 'down', blockNumber, lag };
+    });
+
+    const isHealthy = nodes.some((node) => node.status === 'up');
+    const result = this.getStatus(key, isHealthy, { nodes });
+
+    if (isHealthy) {
+      return result;
+    }
+    throw new HealthCheckError('No execution layer node is available', result);
+  }
+}
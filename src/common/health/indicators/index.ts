@@ -0,0 +1,4 @@
+export * from './consensus.health';
+export * from './daemon.health';
+export * from './execution.health';
+export * from './signer.health';
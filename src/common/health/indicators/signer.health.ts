@@ -0,0 +1,47 @@
+import { Injectable } from '@nestjs/common';
+import { HealthCheckError, HealthIndicator, HealthIndicatorResult } from '@nestjs/terminus';
+import { ethers } from 'ethers';
+
+import { ConfigService } from '../../config/config.service';
+import { Execution } from '../../providers/execution/execution';
+
+/**
+ * Checks the signer can pay for transactions, if HEALTH_MIN_SIGNER_BALANCE_ETH is set
+ */
+@Injectable()
+export class SignerHealthIndicator extends HealthIndicator {
+  constructor(
+    protected readonly config: ConfigService,
+    protected readonly execution: Execution,
+  ) {
+    super();
+  }
+
+  public async check(key: string): Promise<HealthIndicatorResult> {
+    const minBalance = this.config.get('HEALTH_MIN_SIGNER_BALANCE_ETH');
+    const address = await this.execution.signer?.getAddress();
+    if (minBalance === undefined || !address) {
+      return this.getStatus(key, true, { message: 'Signer balance is not checked' });
+    }
+
+    let result: HealthIndicatorResult;
+    let isHealthy: boolean;
+    try {
+      const balance = await this.execution.balanceOf(address);
+      isHealthy = balance.gte(ethers.utils.parseEther(minBalance.toFixed(18)));
+      result = this.getStatus(key, isHealthy, {
+        address,
+        balanceEth: ethers.utils.formatEther(balance),
+        minBalanceEth: minBalance,
+      });
+    } catch (error) {
+      isHealthy = false;
+      result = this.getStatus(key, isHealthy, { address, error: error.message });
+    }
+
+    if (isHealthy) {
+      return result;
+    }
+    throw new HealthCheckError('Signer balance is below the threshold', result);
+  }
+}
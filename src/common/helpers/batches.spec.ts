@@ -0,0 +1,60 @@
+import { BatchLimits, packBatches, splitBatch } from './batches';
+
+const limits = (overrides: Partial<BatchLimits> = {}): BatchLimits => ({
+  maxItems: 100,
+  maxBytes: 1000,
+  baseBytes: 100,
+  maxGas: 1_000_000,
+  baseGas: 100_000,
+  itemGas: 10_000,
+  ...overrides,
+});
+
+const sizes = (batches: number[][]) => batches.map((batch) => batch.length);
+
+describe('packBatches', () => {
+  const items = Array.from({ length: 10 }, (_, i) => i);
+
+  it('limits the number of items', () => {
+    expect(sizes(packBatches(items, () => 10, limits({ maxItems: 4 })))).toEqual([4, 4, 2]);
+  });
+
+  it('limits the calldata size', () => {
+    // 100 base bytes and 4 items of 300 bytes exceed 1000
+    expect(sizes(packBatches(items, () => 300, limits()))).toEqual([3, 3, 3, 1]);
+  });
+
+  it('measures every item', () => {
+    const batches = packBatches(items, (item) => (item < 5 ? 100 : 400), limits());
+
+    expect(batches).toEqual([
+      [0, 1, 2, 3, 4, 5],
+      [6, 7],
+      [8, 9],
+    ]);
+  });
+
+  it('limits the gas', () => {
+    // 100k base gas and 10k per item
+    expect(sizes(packBatches(items, () => 10, limits({ maxGas: 150_000 })))).toEqual([5, 5]);
+  });
+
+  it('keeps an item exceeding the limits alone', () => {
+    const batches = packBatches([1, 2, 3], (item) => (item === 2 ? 5000 : 10), limits());
+
+    expect(batches).toEqual([[1], [2], [3]]);
+  });
+
+  it('returns no batches without items', () => {
+    expect(packBatches([], () => 10, limits())).toEqual([]);
+  });
+});
+
+describe('splitBatch', () => {
+  it('splits the batch into halves', () => {
+    expect(splitBatch([1, 2, 3, 4, 5])).toEqual([
+      [1, 2, 3],
+      [4, 5],
+    ]);
+  });
+});
@@ -0,0 +1,51 @@
+export interface BatchLimits {
+  // Maximum items per batch
+  maxItems: number;
+  // Calldata of the batch: the call without items plus every item
+  maxBytes: number;
+  baseBytes: number;
+  // Gas of the batch: the call without items plus every item
+  maxGas: number;
+  baseGas: number;
+  itemGas: number;
+}
+
+/**
+ * Pack items into consecutive batches fitting all the limits, items keep their order.
+ * An item not fitting the limits even alone gets a batch of its own, it is up to the caller to reject it
+ */
+export function packBatches<T>(items: T[], itemBytes: (item: T) => number, limits: BatchLimits): T[][] {
+  const batches: T[][] = [];
+  let batch: T[] = [];
+  let bytes = limits.baseBytes;
+  let gas = limits.baseGas;
+
+  for (const item of items) {
+    const size = itemBytes(item);
+    const fits =
+      batch.length < limits.maxItems && bytes + size <= limits.maxBytes && gas + limits.itemGas <= limits.maxGas;
+    if (!fits && batch.length > 0) {
+      batches.push(batch);
+      batch = [];
+      bytes = limits.baseBytes;
+      gas = limits.baseGas;
+    }
+
+    batch.push(item);
+    bytes += size;
+    gas += limits.itemGas;
+  }
+
+  if (batch.length > 0) {
+    batches.push(batch);
+  }
+  return batches;
+}
+
+/**
+ * Split the batch into two halves, the first one gets the extra item
+ */
+export function splitBatch<T>(batch: T[]): [T[], T[]] {
+  const middle = Math.ceil(batch.length / 2);
+  return [batch.slice(0, middle), batch.slice(middle)];
+}
@@ -0,0 +1,80 @@
+import { PromiseCache, mapWithConcurrency } from './concurrency';
+
+const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('mapWithConcurrency', () => {
+  it('keeps the order of the items', async () => {
+    const results = await mapWithConcurrency([30, 10, 20], 2, async (delay, index) => {
+      await new Promise((resolve) => setTimeout(resolve, delay));
+      return index;
+    });
+
+    expect(results).toEqual([0, 1, 2]);
+  });
+
+  it('never runs more than the limit at once', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    await mapWithConcurrency([1, 2, 3, 4, 5, 6], 3, async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await tick();
+      running--;
+    });
+
+    expect(maxRunning).toBe(3);
+  });
+
+  it('stops starting items after a failure and throws the first error', async () => {
+    const started: number[] = [];
+
+    const result = mapWithConcurrency([1, 2, 3, 4], 2, async (item) => {
+      started.push(item);
+      await tick();
+      if (item === 1) {
+        throw new Error('failed 1');
+      }
+      return item;
+    });
+
+    await expect(result).rejects.toThrow('failed 1');
+    expect(started).toEqual([1, 2]);
+  });
+
+  it('returns no results for no items', async () => {
+    expect(await mapWithConcurrency([], 4, async () => 1)).toEqual([]);
+  });
+});
+
+describe('PromiseCache', () => {
+  it('shares a single load between concurrent callers', async () => {
+    const cache = new PromiseCache<number, number>();
+    const load = jest.fn(async () => 42);
+
+    const values = await Promise.all([cache.get(1, load), cache.get(1, load)]);
+
+    expect(values).toEqual([42, 42]);
+    expect(load).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries rejected loads', async () => {
+    const cache = new PromiseCache<number, number>();
+
+    await expect(cache.get(1, () => Promise.reject(new Error('failed')))).rejects.toThrow('failed');
+
+    expect(await cache.get(1, async () => 42)).toBe(42);
+  });
+
+  it('evicts the oldest entries above the size limit', async () => {
+    const cache = new PromiseCache<number, number>(2);
+    const load = jest.fn(async () => 42);
+
+    await cache.get(1, load);
+    await cache.get(2, load);
+    await cache.get(3, load);
+    await cache.get(1, load);
+
+    expect(load).toHaveBeenCalledTimes(4);
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Map items with at most `limit` calls in flight, results keep the order of the items.
+ * No new items are started after a failure, the first error is thrown once the started calls are settled
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  fn: (item: T, index: number) => Promise<R>,
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let failure: { error: unknown } | undefined;
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (!failure && next < items.length) {
+      const index = next++;
+      try {
+        results[index] = await fn(items[index], index);
+      } catch (error) {
+        failure ??= { error };
+      }
+    }
+  };
+
+  const workers = Math.max(1, Math.min(limit, items.length));
+  await Promise.all(Array.from({ length: workers }, worker));
+
+  if (failure) {
+    throw failure.error;
+  }
+  return results;
+}
+
+/**
+ * Promises shared by concurrent callers, so the same value is loaded only once.
+ * Rejected loads are dropped to be retried by the next caller, the oldest entries are evicted above `maxSize`
+ */
+export class PromiseCache<K, V> {
+  private readonly entries = new Map<K, Promise<V>>();
+
+  constructor(private readonly maxSize = Infinity) {}
+
+  public get(key: K, load: () => Promise<V>): Promise<V> {
+    const cached = this.entries.get(key);
+    if (cached) {
+      return cached;
+    }
+
+    const promise = load();
+    promise.catch(() => {
+      if (this.entries.get(key) === promise) {
+        this.entries.delete(key);
+      }
+    });
+
+    this.entries.set(key, promise);
+    if (this.entries.size > this.maxSize) {
+      this.entries.delete(this.entries.keys().next().value as K);
+    }
+    return promise;
+  }
+
+  public clear(): void {
+    this.entries.clear();
+  }
+}
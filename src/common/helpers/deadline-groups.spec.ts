@@ -0,0 +1,117 @@
+import { consolidateDeadlineGroups, groupByExitRequest } from './deadline-groups';
+import { DeadlineGroup, DeadlineValidator } from '../prover/types';
+
+const exitRequest = (hash: string) => ({
+  exitRequestsHash: hash,
+  exitRequestsData: { data: '0x', dataFormat: 1 },
+});
+
+const validator = (validatorIndex: number, exitDeadlineEpoch = 100): DeadlineValidator => ({
+  validator: {
+    exitDataIndex: validatorIndex,
+    moduleId: 1n,
+    nodeOpId: 2n,
+    validatorIndex: BigInt(validatorIndex),
+    validatorPubkey: `0x${validatorIndex.toString(16).padStart(96, '0')}`,
+  },
+  activationEpoch: 10,
+  exitDeadlineEpoch,
+});
+
+const indexes = (group: DeadlineGroup) => group.validators.map((v) => Number(v.validator.validatorIndex));
+
+describe('groupByExitRequest', () => {
+  it('keeps a single exit request as is', () => {
+    const groups = [{ exitRequest: exitRequest('0xaa'), validators: [validator(1), validator(2)] }];
+
+    const pairs = groupByExitRequest(groups);
+
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0].exitRequest.exitRequestsHash).toBe('0xaa');
+    expect(indexes(pairs[0])).toEqual([1, 2]);
+  });
+
+  it('splits a slot with several exit requests into separate pairs', () => {
+    const groups = [
+      { exitRequest: exitRequest('0xaa'), validators: [validator(1), validator(2)] },
+      { exitRequest: exitRequest('0xbb'), validators: [validator(3)] },
+      { exitRequest: exitRequest('0xcc'), validators: [validator(4), validator(5)] },
+    ];
+
+    const pairs = groupByExitRequest(groups);
+
+    expect(pairs.map((p) => p.exitRequest.exitRequestsHash)).toEqual(['0xaa', '0xbb', '0xcc']);
+    expect(pairs.map(indexes)).toEqual([[1, 2], [3], [4, 5]]);
+  });
+
+  it('keeps every validator with its own exit request', () => {
+    const groups = [
+      { exitRequest: exitRequest('0xaa'), validators: [validator(1)] },
+      { exitRequest: exitRequest('0xbb'), validators: [validator(2)] },
+    ];
+
+    const pairs = groupByExitRequest(groups);
+
+    for (const [i, pair] of pairs.entries()) {
+      expect(pair.exitRequest).toBe(groups[i].exitRequest);
+      expect(pair.validators).toEqual(groups[i].validators);
+    }
+  });
+
+  it('merges groups of the same exit request and drops duplicated validators', () => {
+    const groups = [
+      { exitRequest: exitRequest('0xaa'), validators: [validator(1), validator(2)] },
+      { exitRequest: exitRequest('0xbb'), validators: [validator(3)] },
+      { exitRequest: exitRequest('0xAA'), validators: [validator(2), validator(4)] },
+    ];
+
+    const pairs = groupByExitRequest(groups);
+
+    expect(pairs.map((p) => p.exitRequest.exitRequestsHash)).toEqual(['0xaa', '0xbb']);
+    expect(pairs.map(indexes)).toEqual([[1, 2, 4], [3]]);
+  });
+
+  it('does not mutate the queued groups', () => {
+    const groups = [
+      { exitRequest: exitRequest('0xaa'), validators: [validator(1)] },
+      { exitRequest: exitRequest('0xaa'), validators: [validator(2)] },
+    ];
+
+    groupByExitRequest(groups);
+
+    expect(indexes(groups[0])).toEqual([1]);
+    expect(indexes(groups[1])).toEqual([2]);
+  });
+
+  it('returns no pairs for an empty slot', () => {
+    expect(groupByExitRequest([])).toEqual([]);
+  });
+});
+
+describe('consolidateDeadlineGroups', () => {
+  it('moves matching validators out of their deadline slots, grouped by exit request', () => {
+    const entries: Array<[number, DeadlineGroup[]]> = [
+      [10, [{ exitRequest: exitRequest('0xaa'), validators: [validator(1), validator(2)] }]],
+      [20, [{ exitRequest: exitRequest('0xaa'), validators: [validator(3)] }]],
+      [30, [{ exitRequest: exitRequest('0xbb'), validators: [validator(4)] }]],
+    ];
+
+    const { groups, deadlineEntries } = consolidateDeadlineGroups(entries, (_, v) => v.validator.validatorIndex !== 2n);
+
+    expect(groups.map((g) => g.exitRequest.exitRequestsHash)).toEqual(['0xaa', '0xbb']);
+    expect(groups.map(indexes)).toEqual([[1, 3], [4]]);
+    expect(deadlineEntries.map(([slot, slotGroups]) => [slot, slotGroups.map(indexes)])).toEqual([[10, [[2]]]]);
+  });
+
+  it('keeps deadline slots not matching the predicate', () => {
+    const entries: Array<[number, DeadlineGroup[]]> = [
+      [10, [{ exitRequest: exitRequest('0xaa'), validators: [validator(1)] }]],
+      [20, [{ exitRequest: exitRequest('0xbb'), validators: [validator(2)] }]],
+    ];
+
+    const { groups, deadlineEntries } = consolidateDeadlineGroups(entries, (slot) => slot < 20);
+
+    expect(groups.map(indexes)).toEqual([[1]]);
+    expect(deadlineEntries).toEqual([entries[1]]);
+  });
+});
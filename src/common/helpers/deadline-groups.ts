@@ -0,0 +1,63 @@
+import { DeadlineGroup, DeadlineValidator } from '../prover/types';
+
+/**
+ * Split validators of a deadline slot into (deadline slot, exit request hash) pairs
+ * Groups of the same exit request are merged, duplicated validators are dropped.
+ * Pairs keep the order the exit requests appear in
+ */
+export function groupByExitRequest(groups: DeadlineGroup[]): DeadlineGroup[] {
+  const pairs = new Map<string, DeadlineGroup>();
+
+  for (const group of groups) {
+    const hash = group.exitRequest.exitRequestsHash.toLowerCase();
+    const pair = pairs.get(hash);
+    if (!pair) {
+      pairs.set(hash, { exitRequest: group.exitRequest, validators: [...group.validators] });
+      continue;
+    }
+
+    const known = new Set(pair.validators.map((v) => v.validator.validatorIndex));
+    for (const validator of group.validators) {
+      if (!known.has(validator.validator.validatorIndex)) {
+        known.add(validator.validator.validatorIndex);
+        pair.validators.push(validator);
+      }
+    }
+  }
+
+  return Array.from(pairs.values());
+}
+
+/**
+ * Move validators of the deadline slots matching the predicate out of their slots
+ * @returns Moved validators grouped by exit request, and the deadline entries left with the rest
+ */
+export function consolidateDeadlineGroups(
+  entries: Array<[number, DeadlineGroup[]]>,
+  isConsolidated: (deadlineSlot: number, validator: DeadlineValidator) => boolean,
+): { groups: DeadlineGroup[]; deadlineEntries: Array<[number, DeadlineGroup[]]> } {
+  const groups: DeadlineGroup[] = [];
+  const deadlineEntries: Array<[number, DeadlineGroup[]]> = [];
+
+  for (const [deadlineSlot, slotGroups] of entries) {
+    const deadlineGroups: DeadlineGroup[] = [];
+    for (const { exitRequest, validators } of slotGroups) {
+      const consolidated: DeadlineValidator[] = [];
+      const rest: DeadlineValidator[] = [];
+      for (const validator of validators) {
+        (isConsolidated(deadlineSlot, validator) ? consolidated : rest).push(validator);
+      }
+      if (consolidated.length > 0) {
+        groups.push({ exitRequest, validators: consolidated });
+      }
+      if (rest.length > 0) {
+        deadlineGroups.push({ exitRequest, validators: rest });
+      }
+    }
+    if (deadlineGroups.length > 0) {
+      deadlineEntries.push([deadlineSlot, deadlineGroups]);
+    }
+  }
+
+  return { groups: groupByExitRequest(groups), deadlineEntries };
+}
@@ -0,0 +1,68 @@
+import { ethers } from 'ethers';
+
+import { ExitRequestsData } from '../contracts/types';
+import { DecodedValidator } from '../prover/types';
+
+const ENTRY_SIZE = 64;
+
+// The only exit requests data format supported by the exit bus
+export const DATA_FORMAT_LIST = 1;
+
+/**
+ * Decode validators from the exit requests data
+ * Each entry is packed as: moduleId (3 bytes) | nodeOpId (5 bytes) | validatorIndex (8 bytes) | pubkey (48 bytes)
+ */
+export function decodeValidatorsData(encodedHex: string): DecodedValidator[] {
+  // Remove '0x' prefix if present
+  if (encodedHex.startsWith('0x')) {
+    encodedHex = encodedHex.slice(2);
+  }
+
+  const data = Buffer.from(encodedHex, 'hex');
+
+  const entries: DecodedValidator[] = [];
+
+  let exitDataIndex = 0;
+  for (let offset = 0; offset < data.length; offset += ENTRY_SIZE) {
+    const entry = data.subarray(offset, offset + ENTRY_SIZE);
+
+    const moduleId = BigInt('0x' + entry.subarray(0, 3).toString('hex'));
+    const nodeOpId = BigInt('0x' + entry.subarray(3, 8).toString('hex'));
+    const validatorIndex = BigInt('0x' + entry.subarray(8, 16).toString('hex'));
+    const validatorPubkey = '0x' + entry.subarray(16, 64).toString('hex');
+
+    entries.push({
+      exitDataIndex,
+      moduleId,
+      nodeOpId,
+      validatorIndex,
+      validatorPubkey,
+    });
+    exitDataIndex++;
+  }
+
+  return entries;
+}
+
+/**
+ * Encode validators into the exit requests data, the reverse of `decodeValidatorsData`
+ */
+export function encodeValidatorsData(validators: DecodedValidator[]): string {
+  return ethers.utils.hexConcat(
+    validators.map((v) =>
+      ethers.utils.solidityPack(
+        ['uint24', 'uint40', 'uint64', 'bytes'],
+        [v.moduleId, v.nodeOpId, v.validatorIndex, v.validatorPubkey],
+      ),
+    ),
+  );
+}
+
+/**
+ * Hash the exit bus stores and emits for the delivered exit requests data
+ */
+export function hashExitRequestsData(exitRequestsData: ExitRequestsData): string {
+  return ethers.utils.keccak256(
+    ethers.utils.defaultAbiCoder.encode(['bytes', 'uint256'], [exitRequestsData.data, exitRequestsData.dataFormat]),
+  );
+}
@@ -8,13 +8,25 @@ export const METRIC_BUILD_INFO = `build_info`;
 
 export const METRIC_OUTGOING_EL_REQUESTS_DURATION_SECONDS = `outgoing_el_requests_duration_seconds`;
 export const METRIC_OUTGOING_EL_REQUESTS_COUNT = `outgoing_el_requests_count`;
+export const METRIC_LOGS_SCAN_SPLITS_COUNT = `logs_scan_splits_count`;
+export const METRIC_LOGS_SCAN_WINDOW_BLOCKS = `logs_scan_window_blocks`;
 export const METRIC_OUTGOING_CL_REQUESTS_DURATION_SECONDS = `outgoing_cl_requests_duration_seconds`;
 export const METRIC_OUTGOING_CL_REQUESTS_COUNT = `outgoing_cl_requests_count`;
+export const METRIC_CL_EVENTS_COUNT = `cl_events_count`;
+export const METRIC_CL_EVENT_STREAM_DISCONNECTS_COUNT = `cl_event_stream_disconnects_count`;
 export const METRIC_TASK_DURATION_SECONDS = `task_duration_seconds`;
 export const METRIC_TASK_RESULT_COUNT = `task_result_count`;
 
 export const METRIC_HIGH_GAS_FEE_INTERRUPTIONS_COUNT = `high_gas_fee_interruptions_count`;
 export const METRIC_TRANSACTION_COUNTER = `transaction_total`;
+export const METRIC_TRANSACTION_REPLACEMENTS_COUNT = `transaction_replacements_count`;
+export const METRIC_IN_FLIGHT_TRANSACTIONS = `in_flight_transactions`;
+export const METRIC_STUCK_CANCELLATIONS = `stuck_cancellations`;
+export const METRIC_CONFIRMED_TRANSACTIONS_COUNT = `confirmed_transactions_count`;
+export const METRIC_PRIVATE_RELAY_REQUESTS_COUNT = `private_relay_requests_count`;
+export const METRIC_GAS_SPENT_ETH = `gas_spent_eth`;
+export const METRIC_GAS_SPENT_WINDOW_ETH = `gas_spent_window_eth`;
+export const METRIC_SPENDING_BUDGET_INTERRUPTIONS_COUNT = `spending_budget_interruptions_count`;
 
 export const METRIC_DATA_ACTUALITY = `data_actuality`;
 export const METRIC_LAST_PROCESSED_SLOT_NUMBER = `last_processed_slot_number`;
@@ -43,8 +55,13 @@ export const METRIC_BLOCK_RANGE_PROCESSING_DURATION_SECONDS = `block_range_proce
 export const METRIC_BLOCK_RANGE_SIZE = `block_range_size`;
 export const METRIC_BATCH_PROCESSING_DURATION_SECONDS = `batch_processing_duration_seconds`;
 export const METRIC_BATCH_SIZE = `batch_size`;
+export const METRIC_BATCH_GAS_MODEL = `batch_gas_model`;
+export const METRIC_BATCH_SPLITS_COUNT = `batch_splits_count`;
+export const METRIC_PROOF_PATH_COUNT = `proof_path_count`;
 export const METRIC_EXIT_REQUESTS_FOUND_COUNT = `exit_requests_found_count`;
 export const METRIC_EXIT_REQUESTS_PROCESSED_COUNT = `exit_requests_processed_count`;
+export const METRIC_EXIT_REQUESTS_DECODED_COUNT = `exit_requests_decoded_count`;
+export const METRIC_UNDECODABLE_EXIT_REQUESTS = `undecodable_exit_requests`;
 
 // Storage and Cache Metrics
 export const METRIC_VALIDATOR_STORAGE_SIZE = `validator_storage_size`;
@@ -52,6 +69,13 @@ export const METRIC_VALIDATOR_STORAGE_DEADLINE_SLOTS = `validator_storage_deadli
 export const METRIC_VALIDATOR_STORAGE_MIN_SLOT = `validator_storage_min_slot`;
 export const METRIC_VALIDATOR_STORAGE_MAX_SLOT = `validator_storage_max_slot`;
 export const METRIC_VALIDATOR_STORAGE_CLEANUP_COUNT = `validator_storage_cleanup_count`;
+export const METRIC_REPORTED_VALIDATORS_COUNT = `reported_validators_count`;
+export const METRIC_QUARANTINED_VALIDATORS_COUNT = `quarantined_validators_count`;
+export const METRIC_VERIFIER_REVERTS_COUNT = `verifier_reverts_count`;
+export const METRIC_SUBMISSION_QUEUE_SIZE = `submission_queue_size`;
+export const METRIC_SUBMISSION_JOBS_COUNT = `submission_jobs_count`;
+export const METRIC_STATE_CACHE_REQUESTS_COUNT = `state_cache_requests_count`;
+export const METRIC_STATE_CACHE_SIZE_BYTES = `state_cache_size_bytes`;
 export const METRIC_MEMORY_USAGE_BYTES = `memory_usage_bytes`;
 
 // Business Logic Metrics
@@ -60,6 +84,7 @@ export const METRIC_EXIT_DEADLINE_MISSED_COUNT = `exit_deadline_missed_count`;
 export const METRIC_EXIT_DEADLINE_FUTURE_COUNT = `exit_deadline_future_count`;
 export const METRIC_BEACON_STATE_FETCH_DURATION_SECONDS = `beacon_state_fetch_duration_seconds`;
 export const METRIC_BEACON_STATE_DESERIALIZATION_DURATION_SECONDS = `beacon_state_deserialization_duration_seconds`;
+export const METRIC_STATE_WORKER_TASK_DURATION_SECONDS = `state_worker_task_duration_seconds`;
 
 // Staking Module Metrics
 export const METRIC_STAKING_MODULE_OPERATIONS_COUNT = `staking_module_operations_count`;
@@ -5,14 +5,19 @@ import { Metrics, getOrCreateMetric } from '@willsoto/nestjs-prometheus';
 import { Metric, Options } from './interfaces';
 import {
   METRICS_PREFIX,
+  METRIC_BATCH_GAS_MODEL,
   METRIC_BATCH_PROCESSING_DURATION_SECONDS,
   METRIC_BATCH_SIZE,
+  METRIC_BATCH_SPLITS_COUNT,
   METRIC_BEACON_HEADER_FETCH_ERRORS_COUNT,
   METRIC_BEACON_STATE_DESERIALIZATION_DURATION_SECONDS,
   METRIC_BEACON_STATE_FETCH_DURATION_SECONDS,
   METRIC_BLOCK_RANGE_PROCESSING_DURATION_SECONDS,
   METRIC_BLOCK_RANGE_SIZE,
   METRIC_BUILD_INFO,
+  METRIC_CL_EVENTS_COUNT,
+  METRIC_CL_EVENT_STREAM_DISCONNECTS_COUNT,
+  METRIC_CONFIRMED_TRANSACTIONS_COUNT,
   METRIC_CONTRACT_CALL_COUNT,
   METRIC_CONTRACT_CALL_DURATION_SECONDS,
   METRIC_CONTRACT_CALL_ERRORS_COUNT,
@@ -23,26 +28,45 @@ import {
   METRIC_EXIT_ALREADY_PROCESSED_COUNT,
   METRIC_EXIT_DEADLINE_FUTURE_COUNT,
   METRIC_EXIT_DEADLINE_MISSED_COUNT,
+  METRIC_EXIT_REQUESTS_DECODED_COUNT,
   METRIC_EXIT_REQUESTS_FOUND_COUNT,
   METRIC_EXIT_REQUESTS_PROCESSED_COUNT,
+  METRIC_GAS_SPENT_ETH,
+  METRIC_GAS_SPENT_WINDOW_ETH,
   METRIC_HIGH_GAS_FEE_INTERRUPTIONS_COUNT,
   METRIC_HISTORICAL_PROOF_GENERATION_COUNT,
+  METRIC_IN_FLIGHT_TRANSACTIONS,
+  METRIC_LOGS_SCAN_SPLITS_COUNT,
+  METRIC_LOGS_SCAN_WINDOW_BLOCKS,
   METRIC_MEMORY_USAGE_BYTES,
   METRIC_NODE_OPERATOR_OPERATIONS_COUNT,
   METRIC_OUTGOING_CL_REQUESTS_COUNT,
   METRIC_OUTGOING_CL_REQUESTS_DURATION_SECONDS,
   METRIC_OUTGOING_EL_REQUESTS_COUNT,
   METRIC_OUTGOING_EL_REQUESTS_DURATION_SECONDS,
+  METRIC_PRIVATE_RELAY_REQUESTS_COUNT,
   METRIC_PROOF_GENERATION_COUNT,
   METRIC_PROOF_GENERATION_DURATION_SECONDS,
+  METRIC_PROOF_PATH_COUNT,
+  METRIC_QUARANTINED_VALIDATORS_COUNT,
+  METRIC_REPORTED_VALIDATORS_COUNT,
   METRIC_ROOTS_PROCESSING_DURATION_SECONDS,
   METRIC_ROOTS_SAME_COUNT,
   METRIC_SLOT_AGE_WARNINGS_COUNT,
+  METRIC_SPENDING_BUDGET_INTERRUPTIONS_COUNT,
   METRIC_STAKING_MODULE_OPERATIONS_COUNT,
+  METRIC_STATE_CACHE_REQUESTS_COUNT,
+  METRIC_STATE_CACHE_SIZE_BYTES,
   METRIC_STATE_DESERIALIZATION_ERRORS_COUNT,
+  METRIC_STATE_WORKER_TASK_DURATION_SECONDS,
+  METRIC_STUCK_CANCELLATIONS,
+  METRIC_SUBMISSION_JOBS_COUNT,
+  METRIC_SUBMISSION_QUEUE_SIZE,
   METRIC_TASK_DURATION_SECONDS,
   METRIC_TASK_RESULT_COUNT,
   METRIC_TRANSACTION_COUNTER,
+  METRIC_TRANSACTION_REPLACEMENTS_COUNT,
+  METRIC_UNDECODABLE_EXIT_REQUESTS,
   METRIC_VALIDATORS_ELIGIBLE_COUNT,
   METRIC_VALIDATORS_PENALTY_APPLICABLE_COUNT,
   METRIC_VALIDATORS_PROCESSED_COUNT,
@@ -54,6 +78,7 @@ import {
   METRIC_VALIDATOR_STORAGE_MAX_SLOT,
   METRIC_VALIDATOR_STORAGE_MIN_SLOT,
   METRIC_VALIDATOR_STORAGE_SIZE,
+  METRIC_VERIFIER_REVERTS_COUNT,
 } from './prometheus.constants';
 
 // Re-export from decorators for backward compatibility
@@ -109,6 +134,7 @@ export class PrometheusService {
       'CL_API_RETRY_DELAY_MS',
       'CL_API_RESPONSE_TIMEOUT_MS',
       'CL_API_MAX_RETRIES',
+      'CL_EVENTS_ENABLED',
       'FORK_NAME',
     ],
   });
@@ -126,6 +152,18 @@ export class PrometheusService {
     labelNames: ['name', 'target', 'status'] as const,
   });
 
+  public logsScanSplitsCount = this.getOrCreateMetric('Counter', {
+    name: METRIC_LOGS_SCAN_SPLITS_COUNT,
+    help: 'Count of eth_getLogs ranges split after being rejected by the provider',
+    labelNames: ['target'] as const,
+  });
+
+  public logsScanWindow = this.getOrCreateMetric('Gauge', {
+    name: METRIC_LOGS_SCAN_WINDOW_BLOCKS,
+    help: 'Current eth_getLogs block window of the provider',
+    labelNames: ['target'] as const,
+  });
+
   public outgoingCLRequestsDuration = this.getOrCreateMetric('Histogram', {
     name: METRIC_OUTGOING_CL_REQUESTS_DURATION_SECONDS,
     help: 'Duration of outgoing consensus layer requests',
@@ -139,6 +177,18 @@ export class PrometheusService {
     labelNames: ['name', 'target', 'status', 'code'] as const,
   });
 
+  public clEventsCount = this.getOrCreateMetric('Counter', {
+    name: METRIC_CL_EVENTS_COUNT,
+    help: 'Count of events received from the consensus layer event stream',
+    labelNames: ['topic', 'target'] as const,
+  });
+
+  public clEventStreamDisconnectsCount = this.getOrCreateMetric('Counter', {
+    name: METRIC_CL_EVENT_STREAM_DISCONNECTS_COUNT,
+    help: 'Count of consensus layer event stream disconnects',
+    labelNames: ['target'] as const,
+  });
+
   public taskDuration = this.getOrCreateMetric('Histogram', {
     name: METRIC_TASK_DURATION_SECONDS,
     help: 'Duration of task execution',
@@ -163,6 +213,51 @@ export class PrometheusService {
     labelNames: ['status'],
   });
 
+  public transactionReplacementsCount = this.getOrCreateMetric('Counter', {
+    name: METRIC_TRANSACTION_REPLACEMENTS_COUNT,
+    help: 'Count of transactions replaced with bumped fees or cancelled',
+    labelNames: ['reason'],
+  });
+
+  public inFlightTransactions = this.getOrCreateMetric('Gauge', {
+    name: METRIC_IN_FLIGHT_TRANSACTIONS,
+    help: 'Transactions sent by the bot and not mined yet',
+  });
+
+  public stuckCancellations = this.getOrCreateMetric('Gauge', {
+    name: METRIC_STUCK_CANCELLATIONS,
+    help: 'Cancellations not mined within TX_CANCELLATION_WAITING_TIMEOUT_MS, blocking new transactions',
+  });
+
+  public confirmedTransactionsCount = this.getOrCreateMetric('Counter', {
+    name: METRIC_CONFIRMED_TRANSACTIONS_COUNT,
+    help: 'Count of confirmed transactions by the submission path they were mined from',
+    labelNames: ['path'],
+  });
+
+  public privateRelayRequestsCount = this.getOrCreateMetric('Counter', {
+    name: METRIC_PRIVATE_RELAY_REQUESTS_COUNT,
+    help: 'Count of transactions sent to private relays',
+    labelNames: ['relay', 'status'],
+  });
+
+  public gasSpentEth = this.getOrCreateMetric('Counter', {
+    name: METRIC_GAS_SPENT_ETH,
+    help: 'ETH spent on gas by mined transactions of the signer',
+  });
+
+  public gasSpentWindowEth = this.getOrCreateMetric('Gauge', {
+    name: METRIC_GAS_SPENT_WINDOW_ETH,
+    help: 'ETH spent on gas within the current daemon cycle or the rolling 24 hours',
+    labelNames: ['window'],
+  });
+
+  public spendingBudgetInterruptionsCount = this.getOrCreateMetric('Counter', {
+    name: METRIC_SPENDING_BUDGET_INTERRUPTIONS_COUNT,
+    help: 'Count of transactions deferred by an exceeded spending budget',
+    labelNames: ['budget'],
+  });
+
   // Proof Generation Metrics
   public proofGenerationDuration = this.getOrCreateMetric('Histogram', {
     name: METRIC_PROOF_GENERATION_DURATION_SECONDS,
@@ -277,6 +372,24 @@ export class PrometheusService {
     labelNames: ['processing_type'],
   });
 
+  public batchGasModel = this.getOrCreateMetric('Gauge', {
+    name: METRIC_BATCH_GAS_MODEL,
+    help: 'Gas model of verifier calls calibrated from receipts: base gas and gas per validator',
+    labelNames: ['method', 'parameter'],
+  });
+
+  public batchSplitsCount = this.getOrCreateMetric('Counter', {
+    name: METRIC_BATCH_SPLITS_COUNT,
+    help: 'Count of validator batches split in halves after being rejected as too large',
+    labelNames: ['method'],
+  });
+
+  public proofPathCount = this.getOrCreateMetric('Counter', {
+    name: METRIC_PROOF_PATH_COUNT,
+    help: 'Count of deadline slots proved by the current or the historical path, by the state of the beacon root',
+    labelNames: ['path', 'reason'],
+  });
+
   public exitRequestsFoundCount = this.getOrCreateMetric('Counter', {
     name: METRIC_EXIT_REQUESTS_FOUND_COUNT,
     help: 'Total count of exit requests found',
@@ -289,6 +402,17 @@ export class PrometheusService {
     labelNames: ['status'],
   });
 
+  public exitRequestsDecodedCount = this.getOrCreateMetric('Counter', {
+    name: METRIC_EXIT_REQUESTS_DECODED_COUNT,
+    help: 'Total count of exit requests data reconstructed, by source',
+    labelNames: ['source'],
+  });
+
+  public undecodableExitRequestsCount = this.getOrCreateMetric('Gauge', {
+    name: METRIC_UNDECODABLE_EXIT_REQUESTS,
+    help: 'Exit requests deliveries whose data could not be reconstructed, their validators are not proved',
+  });
+
   // Storage and Cache Metrics
   public validatorStorageSize = this.getOrCreateMetric('Gauge', {
     name: METRIC_VALIDATOR_STORAGE_SIZE,
@@ -320,6 +444,46 @@ export class PrometheusService {
     labelNames: ['cleanup_type'],
   });
 
+  public reportedValidatorsCount = this.getOrCreateMetric('Gauge', {
+    name: METRIC_REPORTED_VALIDATORS_COUNT,
+    help: 'Number of validators with reported exit delay',
+    labelNames: ['status'],
+  });
+
+  public quarantinedValidatorsCount = this.getOrCreateMetric('Gauge', {
+    name: METRIC_QUARANTINED_VALIDATORS_COUNT,
+    help: 'Number of validators rejected by the verifier and not proved again',
+  });
+
+  public verifierRevertsCount = this.getOrCreateMetric('Counter', {
+    name: METRIC_VERIFIER_REVERTS_COUNT,
+    help: 'Count of verifier call emulations reverted, by the decoded error and its scope',
+    labelNames: ['error', 'scope'],
+  });
+
+  public submissionQueueSize = this.getOrCreateMetric('Gauge', {
+    name: METRIC_SUBMISSION_QUEUE_SIZE,
+    help: 'Number of proofs waiting in the submission queue',
+  });
+
+  public submissionJobsCount = this.getOrCreateMetric('Counter', {
+    name: METRIC_SUBMISSION_JOBS_COUNT,
+    help: 'Count of submission queue jobs by status: queued, submitted, deferred, regenerated, split, dropped, failed',
+    labelNames: ['status'],
+  });
+
+  public stateCacheRequestsCount = this.getOrCreateMetric('Counter', {
+    name: METRIC_STATE_CACHE_REQUESTS_COUNT,
+    help: 'Count of beacon state cache lookups',
+    labelNames: ['result'],
+  });
+
+  public stateCacheSize = this.getOrCreateMetric('Gauge', {
+    name: METRIC_STATE_CACHE_SIZE_BYTES,
+    help: 'Size of beacon states cached on disk',
+    labelNames: [],
+  });
+
   public memoryUsage = this.getOrCreateMetric('Gauge', {
     name: METRIC_MEMORY_USAGE_BYTES,
     help: 'Current memory usage in bytes',
@@ -359,6 +523,13 @@ export class PrometheusService {
     labelNames: ['fork_name'],
   });
 
+  public stateWorkerTaskDuration = this.getOrCreateMetric('Histogram', {
+    name: METRIC_STATE_WORKER_TASK_DURATION_SECONDS,
+    help: 'Duration of state worker tasks, including the time queued',
+    buckets: [0.1, 0.5, 1, 2, 5, 10, 20, 30, 60],
+    labelNames: ['task', 'status'],
+  });
+
   // Staking Module Metrics
   public stakingModuleOperationsCount = this.getOrCreateMetric('Counter', {
     name: METRIC_STAKING_MODULE_OPERATIONS_COUNT,
@@ -441,6 +612,12 @@ export class PrometheusService {
     help: 'Timestamp of the latest successful run',
     labelNames: [],
   });
+
+  public latestHeartbeat = this.getOrCreateMetric('Gauge', {
+    name: 'latest_heartbeat_timestamp',
+    help: 'Timestamp of the latest iteration of a deliberate wait: gas fee and spending budget retries, transaction mining',
+    labelNames: [],
+  });
 }
 
 // Export the refactored decorators
@@ -0,0 +1,35 @@
+/**
+ * Generalized index packed into bytes32 the same way as in the verifier contract (GIndex.sol):
+ * the index itself is stored in the upper 248 bits and the depth of the tree in the lower 8 bits
+ */
+export interface GIndex {
+  index: bigint;
+  pow: number;
+}
+
+export function unpackGIndex(packed: string): GIndex {
+  const value = BigInt(packed);
+  return { index: value >> 8n, pow: Number(value & 0xffn) };
+}
+
+/**
+ * Get the index of the n-th sibling to the right, staying within the same subtree
+ */
+export function shr(gI: GIndex, n: number): GIndex {
+  const width = 1n << BigInt(gI.pow);
+  if ((gI.index % width) + BigInt(n) >= width) {
+    throw new Error(`GIndex ${gI.index} shifted by ${n} is out of range`);
+  }
+  return { index: gI.index + BigInt(n), pow: gI.pow };
+}
+
+/**
+ * Get the index of the `rhs` node in the subtree rooted at the `lhs` node
+ */
+export function concat(lhs: GIndex, rhs: GIndex): GIndex {
+  const rhsMSbIndex = BigInt(rhs.index.toString(2).length - 1);
+  return {
+    index: (lhs.index << rhsMSbIndex) | (rhs.index ^ (1n << rhsMSbIndex)),
+    pow: rhs.pow,
+  };
+}
@@ -0,0 +1,11 @@
+import { Module } from '@nestjs/common';
+
+import { ProofVerifier } from './proof-verifier.service';
+import { ContractsModule } from '../contracts/contracts.module';
+
+@Module({
+  imports: [ContractsModule],
+  providers: [ProofVerifier],
+  exports: [ProofVerifier],
+})
+export class ProofVerifierModule {}
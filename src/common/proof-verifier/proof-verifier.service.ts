@@ -0,0 +1,193 @@
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { Inject, Injectable, LoggerService } from '@nestjs/common';
+import { ethers } from 'ethers';
+
+import { GIndex, concat, shr, unpackGIndex } from './gindex';
+import {
+  BeaconBlockHeader,
+  ExitRequestsData,
+  HistoricalHeaderWitness,
+  ProvableBeaconBlockHeader,
+  ValidatorWitness,
+} from '../contracts/types';
+import { VerifierContract, VerifierProofParameters } from '../contracts/validator-exit-delay-verifier.service';
+import { decodeValidatorsData } from '../helpers/exit-requests';
+import { toHex, verifyProof } from '../helpers/proofs';
+
+export class ProofVerificationError extends Error {}
+
+export interface ProofVerificationInput {
+  beaconBlock: ProvableBeaconBlockHeader;
+  // Set for historical proofs only
+  oldBlock?: HistoricalHeaderWitness;
+  validatorWitnesses: ValidatorWitness[];
+  exitRequests: ExitRequestsData;
+}
+
+/**
+ * Checks proofs offline against the generalized indices of the verifier contract,
+ * so invalid proofs are caught before paying for emulation or sending a transaction.
+ * The header is checked against the beacon root the verifier reads, the rest of the proofs against the header
+ */
+@Injectable()
+export class ProofVerifier {
+  constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly verifier: VerifierContract,
+  ) {}
+
+  /**
+   * Verify all proofs of the verifier call
+   * Throws ProofVerificationError on the first invalid proof
+   */
+  public async verify(input: ProofVerificationInput): Promise<void> {
+    const ssz = await eval(`import('@lodestar/types').then((m) => m.ssz)`);
+    const params = await this.verifier.getProofParameters();
+
+    const { beaconBlock, oldBlock, validatorWitnesses, exitRequests } = input;
+    const headerRoot = this.hashHeader(ssz, beaconBlock.header);
+    await this.verifyBlockRoot(beaconBlock, toHex(headerRoot));
+
+    // Validators are proved against the state of the old block for historical proofs
+    let stateRoot = beaconBlock.header.stateRoot;
+    let stateSlot = Number(beaconBlock.header.slot);
+
+    if (oldBlock) {
+      const gI = this.getHistoricalBlockRootGI(params, Number(beaconBlock.header.slot), Number(oldBlock.header.slot));
+      this.verifyBranch(
+        `Old block ${oldBlock.header.slot} root in historical summaries`,
+        beaconBlock.header.stateRoot,
+        gI,
+        oldBlock.proof,
+        this.hashHeader(ssz, oldBlock.header),
+      );
+
+      stateRoot = oldBlock.header.stateRoot;
+      stateSlot = Number(oldBlock.header.slot);
+    }
+
+    const validators = decodeValidatorsData(exitRequests.data);
+    const gIFirstValidator = unpackGIndex(
+      stateSlot < params.pivotSlot ? params.gIFirstValidatorPrev : params.gIFirstValidatorCurr,
+    );
+
+    for (const witness of validatorWitnesses) {
+      const validator = validators[witness.exitRequestIndex];
+      if (!validator) {
+        throw new ProofVerificationError(`Exit request index ${witness.exitRequestIndex} is out of range`);
+      }
+      if (
+        validator.validatorPubkey !== witness.pubkey.toLowerCase() ||
+        Number(validator.moduleId) !== witness.moduleId ||
+        Number(validator.nodeOpId) !== witness.nodeOpId
+      ) {
+        throw new ProofVerificationError(
+          `Validator witness does not match exit request index ${witness.exitRequestIndex}` +
+            `\n  Public key: ${witness.pubkey}` +
+            `\n  Module ID: ${witness.moduleId}` +
+            `\n  Node Operator: ${witness.nodeOpId}`,
+        );
+      }
+
+      // The verifier hashes the validator as not exited, so exit epoch is always far future
+      const leaf = ssz.phase0.Validator.hashTreeRoot({
+        pubkey: ethers.utils.arrayify(witness.pubkey),
+        withdrawalCredentials: ethers.utils.arrayify(witness.withdrawalCredentials),
+        effectiveBalance: Number(witness.effectiveBalance),
+        slashed: witness.slashed,
+        activationEligibilityEpoch: Number(witness.activationEligibilityEpoch),
+        activationEpoch: Number(witness.activationEpoch),
+        exitEpoch: Infinity,
+        withdrawableEpoch: this.toEpoch(witness.withdrawableEpoch),
+      });
+
+      this.verifyBranch(
+        `Validator ${validator.validatorIndex}`,
+        stateRoot,
+        shr(gIFirstValidator, Number(validator.validatorIndex)),
+        witness.validatorProof,
+        leaf,
+      );
+    }
+
+    this.logger.log(
+      `✅ Proofs verified offline:` +
+        `\n  Header root: ${toHex(headerRoot)}` +
+        `\n  Slot: ${beaconBlock.header.slot}` +
+        (oldBlock ? `\n  Old block slot: ${oldBlock.header.slot}` : '') +
+        `\n  Validators: ${validatorWitnesses.length}`,
+    );
+  }
+
+  /**
+   * The verifier reads the block root from the EIP-4788 contract by `rootsTimestamp`,
+   * the header has to hash to it for the proofs to be tied to the chain
+   */
+  private async verifyBlockRoot(beaconBlock: ProvableBeaconBlockHeader, headerRoot: string): Promise<void> {
+    const blockRoot = await this.verifier.getParentBlockRoot(beaconBlock.rootsTimestamp);
+    if (!blockRoot) {
+      throw new ProofVerificationError(
+        `Beacon root is not found in the EIP-4788 contract:` +
+          `\n  Roots timestamp: ${beaconBlock.rootsTimestamp}` +
+          `\n  Slot: ${beaconBlock.header.slot}`,
+      );
+    }
+    if (blockRoot.toLowerCase() !== headerRoot) {
+      throw new ProofVerificationError(
+        `Header root does not match the beacon root of the EIP-4788 contract:` +
+          `\n  Header root: ${headerRoot}` +
+          `\n  Beacon root: ${blockRoot}` +
+          `\n  Roots timestamp: ${beaconBlock.rootsTimestamp}` +
+          `\n  Slot: ${beaconBlock.header.slot}`,
+      );
+    }
+  }
+
+  /**
+   * Port of the verifier `_getHistoricalBlockRootGI`
+   * The historical summaries gindex depends on the recent slot, the block roots gindex on the target slot
+   */
+  private getHistoricalBlockRootGI(params: VerifierProofParameters, recentSlot: number, targetSlot: number): GIndex {
+    const summaryIndex = Math.floor((targetSlot - params.capellaSlot) / params.slotsPerHistoricalRoot);
+    const rootIndex = targetSlot % params.slotsPerHistoricalRoot;
+
+    const gIFirstSummary = unpackGIndex(
+      recentSlot < params.pivotSlot ? params.gIFirstHistoricalSummaryPrev : params.gIFirstHistoricalSummaryCurr,
+    );
+    const gIFirstBlockRoot = unpackGIndex(
+      targetSlot < params.pivotSlot ? params.gIFirstBlockRootInSummaryPrev : params.gIFirstBlockRootInSummaryCurr,
+    );
+
+    return shr(concat(shr(gIFirstSummary, summaryIndex), gIFirstBlockRoot), rootIndex);
+  }
+
+  private verifyBranch(name: string, root: string, gI: GIndex, proof: string[], leaf: Uint8Array): void {
+    try {
+      verifyProof(
+        ethers.utils.arrayify(root),
+        gI.index,
+        proof.map((p) => ethers.utils.arrayify(p)),
+        leaf,
+      );
+    } catch (error) {
+      throw new ProofVerificationError(
+        `${name} proof is invalid:` + `\n  GIndex: ${gI.index}` + `\n  Root: ${root}` + `\n  Error: ${error.message}`,
+      );
+    }
+  }
+
+  private hashHeader(ssz: any, header: BeaconBlockHeader): Uint8Array {
+    return ssz.phase0.BeaconBlockHeader.hashTreeRoot({
+      slot: Number(header.slot),
+      proposerIndex: Number(header.proposerIndex),
+      parentRoot: ethers.utils.arrayify(header.parentRoot),
+      stateRoot: ethers.utils.arrayify(header.stateRoot),
+      bodyRoot: ethers.utils.arrayify(header.bodyRoot),
+    });
+  }
+
+  private toEpoch(value: number | string): number {
+    // FAR_FUTURE_EPOCH is passed as a string, ssz represents it as Infinity
+    return BigInt(value) >= 2n ** 64n - 1n ? Infinity : Number(value);
+  }
+}
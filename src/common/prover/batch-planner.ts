@@ -0,0 +1,130 @@
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { Inject, Injectable, LoggerService, OnModuleInit } from '@nestjs/common';
+
+import { ProofBundleMethod } from './proof-bundles';
+import { ConfigService } from '../config/config.service';
+import { VerifierContract } from '../contracts/validator-exit-delay-verifier.service';
+import { packBatches } from '../helpers/batches';
+import { PrometheusService } from '../prometheus/prometheus.service';
+import { GAS_ESTIMATION_BUFFER } from '../providers/execution/execution';
+import { StorageService, Store } from '../storage';
+
+/**
+ * Gas of a verifier call: `baseGas + validatorGas * validators`
+ */
+export interface GasModel {
+  baseGas: number;
+  validatorGas: number;
+}
+
+interface GasSample {
+  validators: number;
+  gasUsed: number;
+}
+
+interface GasModelData {
+  // Gas used by mined verifier calls, by method
+  samples: Partial<Record<ProofBundleMethod, GasSample[]>>;
+}
+
+// Matches the gas limit guidelines by batch size, used until receipts are collected
+const DEFAULT_GAS_MODEL: GasModel = { baseGas: 700_000, validatorGas: 35_000 };
+const MAX_GAS_SAMPLES = 50;
+
+/**
+ * Packs validator witnesses into batches fitting MAX_TRANSACTION_SIZE_BYTES, TX_GAS_LIMIT and VALIDATOR_BATCH_SIZE.
+ * Calldata is measured for every witness, gas is predicted by a linear model fitted to the receipts of previous
+ * verifier calls
+ */
+@Injectable()
+export class BatchPlanner implements OnModuleInit {
+  private store: Store<GasModelData>;
+
+  constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly config: ConfigService,
+    protected readonly storage: StorageService,
+    protected readonly verifier: VerifierContract,
+    protected readonly prometheus: PrometheusService,
+    @Inject('VALIDATOR_BATCH_SIZE') private readonly validatorBatchSize: number,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    this.store = await this.storage.open<GasModelData>('gas-model', { samples: {} });
+    for (const method of Object.values(ProofBundleMethod)) {
+      this.updateMetrics(method);
+    }
+  }
+
+  /**
+   * Split witnesses into batches of the verifier method, `callArgs` builds the call arguments of a batch
+   */
+  public plan<T>(method: ProofBundleMethod, witnesses: T[], callArgs: (batch: T[]) => any[]): T[][] {
+    const baseBytes = this.verifier.getCalldataSize(method, callArgs([]));
+    const model = this.getGasModel(method);
+
+    return packBatches(witnesses, (witness) => this.verifier.getCalldataSize(method, callArgs([witness])) - baseBytes, {
+      maxItems: this.validatorBatchSize,
+      maxBytes: this.config.get('MAX_TRANSACTION_SIZE_BYTES'),
+      baseBytes,
+      // Execution rejects transactions whose estimation with the buffer exceeds TX_GAS_LIMIT
+      maxGas: Math.floor(this.config.get('TX_GAS_LIMIT') / GAS_ESTIMATION_BUFFER),
+      baseGas: model.baseGas,
+      itemGas: model.validatorGas,
+    });
+  }
+
+  /**
+   * Add the gas used by a mined verifier call to the model
+   */
+  public async calibrate(method: ProofBundleMethod, validators: number, gasUsed: number): Promise<void> {
+    const samples = [...(this.store.data.samples[method] ?? []), { validators, gasUsed }];
+    this.store.data.samples[method] = samples.slice(-MAX_GAS_SAMPLES);
+    await this.store.write();
+
+    const model = this.getGasModel(method);
+    this.updateMetrics(method);
+    this.logger.log(
+      `Gas model of ${method} calibrated:` +
+        `\n  Validators: ${validators}` +
+        `\n  Gas used: ${gasUsed.toLocaleString()}` +
+        `\n  Base gas: ${model.baseGas.toLocaleString()}` +
+        `\n  Gas per validator: ${model.validatorGas.toLocaleString()}`,
+    );
+  }
+
+  /**
+   * Least squares fit of the samples, or the default model scaled to them if they have a single batch size
+   */
+  public getGasModel(method: ProofBundleMethod): GasModel {
+    const samples = this.store.data.samples[method] ?? [];
+    if (samples.length === 0) {
+      return DEFAULT_GAS_MODEL;
+    }
+
+    const meanValidators = samples.reduce((sum, s) => sum + s.validators, 0) / samples.length;
+    const meanGas = samples.reduce((sum, s) => sum + s.gasUsed, 0) / samples.length;
+    const variance = samples.reduce((sum, s) => sum + (s.validators - meanValidators) ** 2, 0);
+    if (variance > 0) {
+      const covariance = samples.reduce((sum, s) => sum + (s.validators - meanValidators) * (s.gasUsed - meanGas), 0);
+      const validatorGas = covariance / variance;
+      const baseGas = meanGas - validatorGas * meanValidators;
+      if (validatorGas > 0 && baseGas >= 0) {
+        return { baseGas: Math.ceil(baseGas), validatorGas: Math.ceil(validatorGas) };
+      }
+    }
+
+    const predicted = DEFAULT_GAS_MODEL.baseGas + DEFAULT_GAS_MODEL.validatorGas * meanValidators;
+    const scale = meanGas / predicted;
+    return {
+      baseGas: Math.ceil(DEFAULT_GAS_MODEL.baseGas * scale),
+      validatorGas: Math.ceil(DEFAULT_GAS_MODEL.validatorGas * scale),
+    };
+  }
+
+  private updateMetrics(method: ProofBundleMethod): void {
+    const model = this.getGasModel(method);
+    this.prometheus.batchGasModel.set({ method, parameter: 'base' }, model.baseGas);
+    this.prometheus.batchGasModel.set({ method, parameter: 'validator' }, model.validatorGas);
+  }
+}
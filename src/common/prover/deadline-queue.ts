@@ -0,0 +1,171 @@
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { Inject, Injectable, LoggerService } from '@nestjs/common';
+
+import { DeadlineGroup, DeadlineValidator } from './types';
+import { ExitRequestsData } from '../contracts/types';
+import { StorageService, Store } from '../storage';
+
+interface StoredValidator {
+  exitDataIndex: number;
+  moduleId: string;
+  nodeOpId: string;
+  validatorIndex: string;
+  validatorPubkey: string;
+  activationEpoch: number;
+  exitDeadlineEpoch: number;
+}
+
+interface StoredGroup {
+  exitRequestsHash: string;
+  validators: StoredValidator[];
+}
+
+interface DeadlineQueueData {
+  // Set once the initial lookback scan has completed
+  initialized: boolean;
+  // Exit requests data is shared by all groups of the same request, so it is stored once per hash
+  exitRequests: Record<string, ExitRequestsData>;
+  deadlines: Record<string, StoredGroup[]>;
+}
+
+/**
+ * Pending validators grouped by exit deadline slot, backed by persistent storage.
+ * Mutations are applied in memory and written to storage on `save()`
+ */
+@Injectable()
+export class DeadlineQueue {
+  private readonly queue = new Map<number, DeadlineGroup[]>();
+  private store: Store<DeadlineQueueData>;
+
+  constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly storage: StorageService,
+  ) {}
+
+  public async restore(): Promise<void> {
+    this.store = await this.storage.open<DeadlineQueueData>('deadline-queue', {
+      initialized: false,
+      exitRequests: {},
+      deadlines: {},
+    });
+
+    this.queue.clear();
+    let validatorsCount = 0;
+    for (const [slot, storedGroups] of Object.entries(this.store.data.deadlines)) {
+      const groups: DeadlineGroup[] = [];
+      for (const storedGroup of storedGroups) {
+        const exitRequestsData = this.store.data.exitRequests[storedGroup.exitRequestsHash];
+        if (!exitRequestsData) {
+          this.logger.warn(`Exit requests data for hash [${storedGroup.exitRequestsHash}] is missing in storage`);
+          continue;
+        }
+        groups.push({
+          exitRequest: { exitRequestsHash: storedGroup.exitRequestsHash, exitRequestsData },
+          validators: storedGroup.validators.map((v) => this.fromStored(v)),
+        });
+        validatorsCount += storedGroup.validators.length;
+      }
+      if (groups.length > 0) {
+        this.queue.set(Number(slot), groups);
+      }
+    }
+
+    this.logger.log(
+      `Deadline queue restored from storage:` +
+        `\n  Deadline slots: ${this.queue.size}` +
+        `\n  Validators: ${validatorsCount}`,
+    );
+  }
+
+  public get size(): number {
+    return this.queue.size;
+  }
+
+  public get initialized(): boolean {
+    return this.store.data.initialized;
+  }
+
+  public markInitialized(): void {
+    this.store.data.initialized = true;
+  }
+
+  public keys(): number[] {
+    return Array.from(this.queue.keys());
+  }
+
+  public entries(): Array<[number, DeadlineGroup[]]> {
+    return Array.from(this.queue.entries());
+  }
+
+  public set(deadlineSlot: number, groups: DeadlineGroup[]): void {
+    this.queue.set(deadlineSlot, groups);
+  }
+
+  public delete(deadlineSlot: number): void {
+    this.queue.delete(deadlineSlot);
+  }
+
+  /**
+   * Add a group to the deadline slot.
+   * Validators already queued for the same exit request are skipped,
+   * so rescanning a block range never duplicates entries
+   */
+  public add(deadlineSlot: number, group: DeadlineGroup): void {
+    const groups = this.queue.get(deadlineSlot) ?? [];
+    const existing = groups.find((g) => g.exitRequest.exitRequestsHash === group.exitRequest.exitRequestsHash);
+    if (!existing) {
+      groups.push(group);
+    } else {
+      const queued = new Set(existing.validators.map((v) => v.validator.validatorIndex));
+      existing.validators = existing.validators.concat(
+        group.validators.filter((v) => !queued.has(v.validator.validatorIndex)),
+      );
+    }
+    this.queue.set(deadlineSlot, groups);
+  }
+
+  public async save(): Promise<void> {
+    const exitRequests: Record<string, ExitRequestsData> = {};
+    const deadlines: Record<string, StoredGroup[]> = {};
+
+    for (const [slot, groups] of this.queue) {
+      deadlines[slot] = groups.map((group) => {
+        exitRequests[group.exitRequest.exitRequestsHash] = group.exitRequest.exitRequestsData;
+        return {
+          exitRequestsHash: group.exitRequest.exitRequestsHash,
+          validators: group.validators.map((v) => this.toStored(v)),
+        };
+      });
+    }
+
+    this.store.data.exitRequests = exitRequests;
+    this.store.data.deadlines = deadlines;
+    await this.store.write();
+  }
+
+  private toStored({ validator, activationEpoch, exitDeadlineEpoch }: DeadlineValidator): StoredValidator {
+    return {
+      exitDataIndex: validator.exitDataIndex,
+      moduleId: validator.moduleId.toString(),
+      nodeOpId: validator.nodeOpId.toString(),
+      validatorIndex: validator.validatorIndex.toString(),
+      validatorPubkey: validator.validatorPubkey,
+      activationEpoch,
+      exitDeadlineEpoch,
+    };
+  }
+
+  private fromStored(stored: StoredValidator): DeadlineValidator {
+    return {
+      validator: {
+        exitDataIndex: stored.exitDataIndex,
+        moduleId: BigInt(stored.moduleId),
+        nodeOpId: BigInt(stored.nodeOpId),
+        validatorIndex: BigInt(stored.validatorIndex),
+        validatorPubkey: stored.validatorPubkey,
+      },
+      activationEpoch: stored.activationEpoch,
+      exitDeadlineEpoch: stored.exitDeadlineEpoch,
+    };
+  }
+}
@@ -0,0 +1,186 @@
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { Inject, Injectable, LoggerService } from '@nestjs/common';
+import { PopulatedTransaction, ethers } from 'ethers';
+
+import { ConfigService } from '../config/config.service';
+import contractJson from '../contracts/abi/validator-exit-delay-verifier.json';
+import {
+  ExitRequestsData,
+  HistoricalHeaderWitness,
+  ProvableBeaconBlockHeader,
+  ValidatorWitness,
+} from '../contracts/types';
+import { VerifierContract } from '../contracts/validator-exit-delay-verifier.service';
+
+export const PROOF_BUNDLE_VERSION = 1;
+
+export enum ProofBundleMethod {
+  VerifyValidatorExitDelay = 'verifyValidatorExitDelay',
+  VerifyHistoricalValidatorExitDelay = 'verifyHistoricalValidatorExitDelay',
+}
+
+export interface ProofBundleContent {
+  method: ProofBundleMethod;
+  exitRequestsHash: string;
+  // Fork of the beacon state the validator proofs are generated from
+  forkName: string;
+  beaconBlock: ProvableBeaconBlockHeader;
+  // Set for the historical method only
+  oldBlock?: HistoricalHeaderWitness;
+  validatorWitnesses: ValidatorWitness[];
+  exitRequests: ExitRequestsData;
+}
+
+export interface ProofBundle extends ProofBundleContent {
+  version: number;
+  chainId: number;
+  verifier: string;
+  // Slot of the block the validator proofs are generated for
+  slot: number;
+  createdAt: string;
+}
+
+/**
+ * Self-contained JSON bundles with all inputs of the verifier calls.
+ * A bundle can be submitted or audited by a separate party without running the bot
+ */
+@Injectable()
+export class ProofBundles {
+  private readonly iface = new ethers.utils.Interface(contractJson);
+
+  constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly config: ConfigService,
+    protected readonly verifier: VerifierContract,
+  ) {}
+
+  /**
+   * Write the bundle to PROOF_BUNDLES_DIR. Does nothing if the directory is not configured
+   * @returns Path of the written bundle
+   */
+  public async export(content: ProofBundleContent): Promise<string | undefined> {
+    const dir = this.config.get('PROOF_BUNDLES_DIR');
+    if (!dir) {
+      return;
+    }
+
+    const bundle = this.create(content);
+    const path = join(dir, `${this.getId(bundle)}.json`);
+
+    await mkdir(dir, { recursive: true });
+    await writeFile(`${path}.tmp`, JSON.stringify(bundle, null, 2));
+    await rename(`${path}.tmp`, path);
+
+    this.logger.log(
+      `📦 Proof bundle exported:` +
+        `\n  Path: ${path}` +
+        `\n  Method: ${bundle.method}` +
+        `\n  Slot: ${bundle.slot}` +
+        `\n  Validators: ${bundle.validatorWitnesses.length}`,
+    );
+    return path;
+  }
+
+  /**
+   * Bundle of the proof for the current chain and verifier
+   */
+  public create(content: ProofBundleContent): ProofBundle {
+    return {
+      version: PROOF_BUNDLE_VERSION,
+      chainId: this.config.get('CHAIN_ID'),
+      verifier: this.verifier.address,
+      slot: Number(content.oldBlock?.header.slot ?? content.beaconBlock.header.slot),
+      createdAt: new Date().toISOString(),
+      ...content,
+    };
+  }
+
+  /**
+   * The same proof always gets the same id, so repeated exports overwrite each other
+   */
+  public getId(bundle: ProofBundle): string {
+    const dataHash = ethers.utils.keccak256(this.toTransaction(bundle).data!);
+    return `${bundle.slot}-${bundle.exitRequestsHash}-${dataHash.slice(2, 10)}`;
+  }
+
+  /**
+   * Read the bundle and check it can be submitted to the current chain and verifier
+   */
+  public async load(path: string): Promise<ProofBundle> {
+    const bundle: ProofBundle = JSON.parse(await readFile(path, 'utf-8'));
+
+    if (bundle.version !== PROOF_BUNDLE_VERSION) {
+      throw new Error(`Unsupported proof bundle version [${bundle.version}], expected [${PROOF_BUNDLE_VERSION}]`);
+    }
+    if (!Object.values(ProofBundleMethod).includes(bundle.method)) {
+      throw new Error(`Unknown proof bundle method [${bundle.method}]`);
+    }
+    if (bundle.method === ProofBundleMethod.VerifyHistoricalValidatorExitDelay && !bundle.oldBlock) {
+      throw new Error(`Proof bundle for [${bundle.method}] has no old block`);
+    }
+    if (bundle.chainId !== this.config.get('CHAIN_ID')) {
+      throw new Error(
+        `Proof bundle chain id [${bundle.chainId}] does not match CHAIN_ID [${this.config.get('CHAIN_ID')}]`,
+      );
+    }
+    if (this.verifier.address && bundle.verifier.toLowerCase() !== this.verifier.address.toLowerCase()) {
+      throw new Error(
+        `Proof bundle verifier [${bundle.verifier}] does not match the current verifier [${this.verifier.address}]`,
+      );
+    }
+
+    this.logger.log(
+      `📦 Proof bundle loaded:` +
+        `\n  Path: ${path}` +
+        `\n  Method: ${bundle.method}` +
+        `\n  Exit request: ${bundle.exitRequestsHash}` +
+        `\n  Slot: ${bundle.slot} (${bundle.forkName})` +
+        `\n  Validators: ${bundle.validatorWitnesses.length}` +
+        `\n  Created at: ${bundle.createdAt}`,
+    );
+    return bundle;
+  }
+
+  /**
+   * Arguments of the verifier method, in the order of the ABI
+   */
+  public toPayload(bundle: ProofBundleContent): any[] {
+    if (bundle.method === ProofBundleMethod.VerifyHistoricalValidatorExitDelay) {
+      return [bundle.beaconBlock, bundle.oldBlock, bundle.validatorWitnesses, bundle.exitRequests];
+    }
+    return [bundle.beaconBlock, bundle.validatorWitnesses, bundle.exitRequests];
+  }
+
+  /**
+   * Emulate the verifier call of the bundle
+   */
+  public async emulate(bundle: ProofBundleContent): Promise<any> {
+    if (bundle.method === ProofBundleMethod.VerifyHistoricalValidatorExitDelay) {
+      return await this.verifier.verifyHistoricalValidatorExitDelay(
+        bundle.beaconBlock,
+        bundle.oldBlock!,
+        bundle.validatorWitnesses,
+        bundle.exitRequests,
+      );
+    }
+    return await this.verifier.verifyValidatorExitDelay(
+      bundle.beaconBlock,
+      bundle.validatorWitnesses,
+      bundle.exitRequests,
+    );
+  }
+
+  /**
+   * Rebuild the exact transaction the bundle was generated for
+   */
+  public toTransaction(bundle: ProofBundle): PopulatedTransaction {
+    return {
+      to: bundle.verifier,
+      data: this.iface.encodeFunctionData(bundle.method, this.toPayload(bundle)),
+      chainId: bundle.chainId,
+    };
+  }
+}
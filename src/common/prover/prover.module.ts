@@ -1,21 +1,37 @@
 import { Module } from '@nestjs/common';
 
+import { BatchPlanner } from './batch-planner';
+import { DeadlineQueue } from './deadline-queue';
+import { ProofBundles } from './proof-bundles';
 import { ProverService } from './prover.service';
+import { QuarantinedValidators } from './quarantined-validators';
+import { ReportedValidators } from './reported-validators';
+import { SubmissionQueue } from './submission-queue';
+import { Submitter } from './submitter';
 import { ConfigModule } from '../config/config.module';
 import { ConfigService } from '../config/config.service';
 import { ContractsModule } from '../contracts/contracts.module';
+import { ProofVerifierModule } from '../proof-verifier/proof-verifier.module';
 import { ProvidersModule } from '../providers/providers.module';
+import { StateWorkersModule } from '../state-workers';
 
 @Module({
-  imports: [ProvidersModule, ContractsModule, ConfigModule],
+  imports: [ProvidersModule, ContractsModule, ConfigModule, ProofVerifierModule, StateWorkersModule],
   providers: [
     ProverService,
+    DeadlineQueue,
+    ReportedValidators,
+    QuarantinedValidators,
+    SubmissionQueue,
+    Submitter,
+    ProofBundles,
+    BatchPlanner,
     {
       provide: 'VALIDATOR_BATCH_SIZE',
       useFactory: (configService: ConfigService) => configService.get('VALIDATOR_BATCH_SIZE'),
       inject: [ConfigService],
     },
   ],
-  exports: [ProverService],
+  exports: [ProverService, DeadlineQueue, QuarantinedValidators, ProofBundles, Submitter],
 })
 export class ProverModule {}
@@ -2,39 +2,78 @@ import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
 import { Inject, Injectable, LoggerService, OnModuleInit } from '@nestjs/common';
 import { ethers } from 'ethers';
 
+import { BatchPlanner } from './batch-planner';
+import { DeadlineQueue } from './deadline-queue';
+import { ProofBundle, ProofBundleContent, ProofBundleMethod, ProofBundles } from './proof-bundles';
+import { QuarantinedValidators } from './quarantined-validators';
+import { ReportedValidators } from './reported-validators';
+import { SubmissionQueue } from './submission-queue';
+import { DeadlineGroup, DeadlineValidator, DecodedValidator } from './types';
 import { ConfigService } from '../config/config.service';
+import { ProofStrategy, WorkingMode } from '../config/env.validation';
+import { MulticallResult } from '../contracts/multicall.service';
 import { NodeOperatorsRegistryContract } from '../contracts/nor.service';
 import { StakingRouterContract } from '../contracts/staking-router.service';
-import { ValidatorWitness } from '../contracts/types';
+import { ExitRequestsResult, ValidatorWitness } from '../contracts/types';
 import { ExitRequestsContract } from '../contracts/validator-exit-bus.service';
 import { VerifierContract } from '../contracts/validator-exit-delay-verifier.service';
-import { generateHistoricalStateProof, generateValidatorProof, toHex } from '../helpers/proofs';
+import { RevertScope, decodeRevert } from '../contracts/verifier-errors';
+import { splitBatch } from '../helpers/batches';
+import { PromiseCache, mapWithConcurrency } from '../helpers/concurrency';
+import { consolidateDeadlineGroups, groupByExitRequest } from '../helpers/deadline-groups';
+import { decodeValidatorsData } from '../helpers/exit-requests';
 import { getSizeRangeCategory } from '../prometheus/decorators';
 import { PrometheusService } from '../prometheus/prometheus.service';
+import { ProofVerifier } from '../proof-verifier/proof-verifier.service';
 import { RequestError } from '../providers/base/rest-provider';
-import { Consensus } from '../providers/consensus/consensus';
-import { Execution } from '../providers/execution/execution';
+import { Consensus, State } from '../providers/consensus/consensus';
+import { BlockHeaderResponse } from '../providers/consensus/response.interface';
+import {
+  EmulatedCallError,
+  Execution,
+  GasLimitExceededError,
+  TransactionBudgetExceededError,
+  TransactionSizeExceededError,
+} from '../providers/execution/execution';
+import { StateDeserializationError, StateValidator, StateWorkers } from '../state-workers';
+
+// Validator passing the local checks, waiting for the on-chain penalty check
+interface PenaltyCandidate {
+  validator: DecodedValidator;
+  deadlineStateValidator: StateValidator;
+  secondsSinceExitIsEligible: number;
+}
+
+enum ProofPath {
+  // The block root is read from the EIP-4788 contract
+  current = 'current',
+  // The block root is proved against the historical summaries of the finalized state
+  historical = 'historical',
+  // Neither is possible yet: the root is not readable and its historical summary is not finalized
+  deferred = 'deferred',
+}
+
+// EIP-4788 ring buffer length, a beacon root stays readable for this many slots
+const BEACON_ROOTS_HISTORY_LENGTH = 8191;
+// Slots the root has to stay in the ring buffer for the current proof to be emulated, sent and mined
+const BEACON_ROOTS_EXPIRY_MARGIN_SLOTS = 300;
 
 @Injectable()
 export class ProverService implements OnModuleInit {
   private SHARD_COMMITTEE_PERIOD_IN_SECONDS: number;
   private readonly FAR_FUTURE_EPOCH = '18446744073709551615'; // 2^64 - 1
-
-  // Persistent storage for validators grouped by deadline slot across multiple handleBlock calls
-  private validatorsByDeadlineSlotStorage = new Map<
-    number,
-    {
-      exitRequest: any;
-      validators: {
-        validator: ReturnType<typeof this.decodeValidatorsData>[0];
-        activationEpoch: number;
-        exitDeadlineEpoch: number;
-      }[];
-    }[]
-  >();
-
-  // Track validator pubkeys that have had proof transactions successfully submitted
-  private reportedValidatorPubkeys = new Set<string>();
+  // Validators whose penalty check failed in the current cycle, kept in the queue to be checked again
+  private readonly failedPenaltyChecks = new Set<string>();
+  // Validators of batches rejected by the verifier in the current cycle, kept in the queue to be proved again
+  private readonly failedBatches = new Set<string>();
+  // Validators of deadline slots deferred until their historical summary is finalized, kept in the queue
+  private readonly deferredValidators = new Set<string>();
+  // Shared by the deadline slots processed concurrently, cleared after each cycle
+  private readonly availableSlots = new PromiseCache<number, { slot: number; header: BlockHeaderResponse }>();
+  private readonly summaryStates: PromiseCache<number, State>;
+  // Finalized block and state the queued proofs are regenerated against, loaded once per submitter round
+  private readonly refreshBlocks = new PromiseCache<'finalized', BlockHeaderResponse>();
+  private readonly refreshStates = new PromiseCache<number, State>(1);
 
   constructor(
     @Inject(LOGGER_PROVIDER) private readonly loggerService: LoggerService,
@@ -45,8 +84,18 @@ export class ProverService implements OnModuleInit {
     protected readonly execution: Execution,
     protected readonly prometheus: PrometheusService,
     protected readonly config: ConfigService,
-    @Inject('VALIDATOR_BATCH_SIZE') private readonly validatorBatchSize: number,
-  ) {}
+    protected readonly deadlineQueue: DeadlineQueue,
+    protected readonly reportedValidators: ReportedValidators,
+    protected readonly quarantinedValidators: QuarantinedValidators,
+    protected readonly submissionQueue: SubmissionQueue,
+    protected readonly proofBundles: ProofBundles,
+    protected readonly proofVerifier: ProofVerifier,
+    protected readonly stateWorkers: StateWorkers,
+    protected readonly batchPlanner: BatchPlanner,
+  ) {
+    // Summary states are large, keep no more of them than slots processed at once
+    this.summaryStates = new PromiseCache(this.config.get('DEADLINE_SLOTS_CONCURRENCY'));
+  }
 
   async onModuleInit(): Promise<void> {
     try {
@@ -55,8 +104,28 @@ export class ProverService implements OnModuleInit {
         `SHARD_COMMITTEE_PERIOD_IN_SECONDS from contract: ${this.SHARD_COMMITTEE_PERIOD_IN_SECONDS}`,
       );
 
-      // Initialize storage with validator events from configured lookback period
-      await this.initializeStorageWithRecentEvents();
+      // Restore validators pending their exit deadlines from persistent storage
+      await this.deadlineQueue.restore();
+      await this.reportedValidators.restore();
+      await this.quarantinedValidators.restore();
+      await this.submissionQueue.restore();
+
+      // CLI commands work on demand, the lookback scan and the reconciliation are only needed by the daemon
+      if (this.config.get('WORKING_MODE') === WorkingMode.CLI) {
+        return;
+      }
+
+      // Initialize storage with validator events from configured lookback period.
+      // Only needed once: afterwards the queue is kept up to date by the daemon cycles
+      if (!this.deadlineQueue.initialized) {
+        await this.initializeStorageWithRecentEvents();
+      } else {
+        this.updateValidatorStorageMetrics();
+      }
+
+      // Rebuild validators with already reported exit delay from on-chain history
+      const currentBlock = await this.execution.provider.getBlockNumber();
+      await this.reconcileReportedValidators(this.getLookbackStartBlock(currentBlock), currentBlock);
     } catch (error) {
       this.loggerService.error('Failed to initialize ProverService:', error.message);
       throw error;
@@ -72,26 +141,24 @@ export class ProverService implements OnModuleInit {
 
       // Calculate block range for configured lookback period
       const currentBlock = await this.execution.provider.getBlockNumber();
-      const SECONDS_PER_DAY = 24 * 60 * 60;
-      const daysToLookBack = this.config.get('START_LOOKBACK_DAYS');
-      const AVERAGE_BLOCK_TIME = 12; // seconds per block on Ethereum
-
-      const blocksToLookBack = Math.floor((daysToLookBack * SECONDS_PER_DAY) / AVERAGE_BLOCK_TIME);
-      const fromBlock = Math.max(1, currentBlock - blocksToLookBack);
+      const fromBlock = this.getLookbackStartBlock(currentBlock);
 
       this.loggerService.log(
         `Scanning for exit requests in recent blocks:` +
           `\n  Current block: ${currentBlock}` +
           `\n  From block: ${fromBlock}` +
-          `\n  Block range: ${blocksToLookBack} blocks (${daysToLookBack} days)`,
+          `\n  Block range: ${currentBlock - fromBlock} blocks (${this.config.get('START_LOOKBACK_DAYS')} days)`,
       );
 
       // Use the same batch processing but without eligible validator processing
-      await this.accumulateValidatorsFromBlocks(fromBlock, currentBlock);
+      const accumulated = await this.accumulateValidatorsFromBlocks(fromBlock, currentBlock);
+      if (accumulated) {
+        this.deadlineQueue.markInitialized();
+        await this.deadlineQueue.save();
+      }
 
       this.loggerService.log(
-        `Storage initialization completed:` +
-          `\n  Total deadline slots in storage: ${this.validatorsByDeadlineSlotStorage.size}`,
+        `Storage initialization completed:` + `\n  Total deadline slots in storage: ${this.deadlineQueue.size}`,
       );
     } catch (error) {
       this.loggerService.error('Failed to initialize storage with recent events:', error.message);
@@ -100,11 +167,41 @@ export class ProverService implements OnModuleInit {
     }
   }
 
+  /**
+   * Get the first block of the configured lookback period (START_LOOKBACK_DAYS)
+   */
+  private getLookbackStartBlock(currentBlock: number): number {
+    const SECONDS_PER_DAY = 24 * 60 * 60;
+    const AVERAGE_BLOCK_TIME = 12; // seconds per block on Ethereum
+
+    const blocksToLookBack = Math.floor(
+      (this.config.get('START_LOOKBACK_DAYS') * SECONDS_PER_DAY) / AVERAGE_BLOCK_TIME,
+    );
+    return Math.max(1, currentBlock - blocksToLookBack);
+  }
+
+  /**
+   * Sync validators with already reported exit delay from the staking modules events.
+   * Failures are not fatal: reported validators are also rejected by the transaction emulation
+   */
+  private async reconcileReportedValidators(startBlock: number, toBlock: number): Promise<void> {
+    try {
+      await this.reportedValidators.reconcile(startBlock, toBlock);
+    } catch (error) {
+      this.loggerService.warn(
+        `Failed to reconcile reported validators up to block ${toBlock}:` +
+          `\n  Error: ${this.getErrorReference(error)}` +
+          `\n  Will retry in next daemon cycle`,
+      );
+    }
+  }
+
   /**
    * Accumulate validators from blocks without processing eligible ones
    * Similar to handleBlock but only accumulates validators in storage
+   * Returns false if the range was skipped
    */
-  private async accumulateValidatorsFromBlocks(fromBlock: number, toBlock: number): Promise<void> {
+  private async accumulateValidatorsFromBlocks(fromBlock: number, toBlock: number): Promise<boolean> {
     const startTime = Date.now();
 
     this.loggerService.log(`[Init ${fromBlock}-${toBlock}] Starting validator accumulation`);
@@ -121,19 +218,20 @@ export class ProverService implements OnModuleInit {
       this.loggerService.warn(
         `[Init ${fromBlock}-${toBlock}] Skipping initialization due to beacon node data corruption`,
       );
-      return;
+      return false;
     }
 
-    const { finalizedStateView } = beaconState;
+    const { finalizedState } = beaconState;
 
     // Process all batches and accumulate validators in storage (without processing eligible ones)
-    await this.processBatches(batches, finalizedStateView, fromBlock, toBlock);
+    await this.processBatches(batches, finalizedState, fromBlock, toBlock);
 
     this.loggerService.log(
       `[Init ${fromBlock}-${toBlock}] Validator accumulation completed:` +
         `\n  Total processing time: ${Date.now() - startTime}ms` +
-        `\n  Deadline slots in storage: ${this.validatorsByDeadlineSlotStorage.size}`,
+        `\n  Deadline slots in storage: ${this.deadlineQueue.size}`,
     );
+    return true;
   }
 
   /**
@@ -180,12 +278,60 @@ export class ProverService implements OnModuleInit {
     return Math.floor(secondsSinceGenesis / Number(this.consensus.beaconConfig.SECONDS_PER_SLOT));
   }
 
+  /**
+   * Load the beacon state the deadline slot validators are proved against and read the validators from it
+   * The state is shared by all exit requests of the slot, a state already loaded is not fetched again
+   */
+  private async loadDeadlineState(
+    deadlineSlot: number,
+    validatorIndices: number[],
+    fromBlock: number,
+    toBlock: number,
+    loadedState?: State,
+  ): Promise<{ deadlineState: State; stateValidators: Map<number, StateValidator> } | undefined> {
+    let deadlineState = loadedState;
+    if (!deadlineState) {
+      // Track beacon state fetch
+      const stopStateFetch = this.prometheus.beaconStateFetchDuration.startTimer({
+        state_type: 'deadline',
+      });
+
+      deadlineState = await this.consensus.getState(deadlineSlot);
+      stopStateFetch();
+    }
+
+    let stateValidators: StateValidator[];
+    try {
+      stateValidators = await this.stateWorkers.getValidators(deadlineState, validatorIndices);
+    } catch (error) {
+      if (!(error instanceof StateDeserializationError)) {
+        throw error;
+      }
+
+      this.prometheus.stateDeserializationErrorsCount.inc({
+        fork_name: deadlineState.forkName,
+      });
+
+      this.loggerService.error(
+        `[Blocks ${fromBlock}-${toBlock}] Failed to deserialize deadline state view for slot ${deadlineSlot}:` +
+          `\n  Fork: ${deadlineState.forkName}` +
+          `\n  Data size: ${deadlineState.bodyBytes.length} bytes` +
+          `\n  Error: ${error.message}`,
+      );
+      return;
+    }
+
+    return {
+      deadlineState,
+      stateValidators: new Map(validatorIndices.map((index, i) => [index, stateValidators[i]])),
+    };
+  }
+
   private async processValidatorGroup(
-    validatorGroup: {
-      validator: ReturnType<typeof this.decodeValidatorsData>[0];
-      activationEpoch: number;
-      exitDeadlineEpoch: number;
-    }[],
+    validatorGroup: DeadlineValidator[],
+    exitRequestsHash: string,
+    deadlineState: State,
+    stateValidators: Map<number, StateValidator>,
     deadlineSlot: number,
     proofSlotTimestamp: number,
     deliveredTimestamp: number,
@@ -209,92 +355,83 @@ export class ProverService implements OnModuleInit {
     this.loggerService.log(
       `[Blocks ${fromBlock}-${toBlock}] Processing deadline slot group:` +
         `\n  Slot: ${deadlineSlot}` +
+        `\n  Exit request: ${exitRequestsHash}` +
         `\n  Validators in group: ${validatorGroup.length}`,
     );
 
     // Track eligible validators
     this.prometheus.validatorsEligibleCount.set({ module_id: 'all' }, groupSize);
 
-    const ssz = await eval(`import('@lodestar/types').then((m) => m.ssz)`);
-
-    // Track beacon state fetch
-    const stopStateFetch = this.prometheus.beaconStateFetchDuration.startTimer({
-      state_type: 'deadline',
-    });
-
-    const deadlineState = await this.consensus.getState(deadlineSlot);
-    stopStateFetch();
-
-    // Track state deserialization
-    const stopDeserialization = this.prometheus.beaconStateDeserializationDuration.startTimer({
-      fork_name: deadlineState.forkName,
-    });
-
-    let deadlineStateView;
-    try {
-      deadlineStateView = ssz[deadlineState.forkName].BeaconState.deserializeToView(deadlineState.bodyBytes);
-    } catch (error) {
-      this.prometheus.stateDeserializationErrorsCount.inc({
-        fork_name: deadlineState.forkName,
-      });
-
-      this.loggerService.error(
-        `[Blocks ${fromBlock}-${toBlock}] Failed to deserialize deadline state view for slot ${deadlineSlot}:` +
-          `\n  Fork: ${deadlineState.forkName}` +
-          `\n  Data size: ${deadlineState.bodyBytes.length} bytes` +
-          `\n  Error: ${error instanceof Error ? error.message : String(error)}`,
-      );
-      return {
-        validatorWitnesses: [],
-        processedValidators: 0,
-        skippedValidators: validatorGroup.length,
-      };
-    } finally {
-      stopDeserialization();
-    }
-
-    if (!deadlineStateView) {
-      this.prometheus.stateDeserializationErrorsCount.inc({
-        fork_name: deadlineState.forkName,
-      });
-
-      this.loggerService.error(
-        `[Blocks ${fromBlock}-${toBlock}] Failed to deserialize deadline state view for slot ${deadlineSlot}`,
-      );
-      return {
-        validatorWitnesses: [],
-        processedValidators: 0,
-        skippedValidators: validatorGroup.length,
-      };
-    }
-
     const validatorWitnesses: ValidatorWitness[] = [];
     let processedValidators = 0;
     let skippedValidators = 0;
 
+    // Penalty checks of the validators passing the local checks are batched into multicalls
+    const candidates: PenaltyCandidate[] = [];
     for (const { validator, activationEpoch, exitDeadlineEpoch } of validatorGroup) {
-      const witness = await this.processValidator(
+      const candidate = this.checkValidator(
         validator,
+        exitRequestsHash,
+        deadlineSlot,
         activationEpoch,
         exitDeadlineEpoch,
-        deadlineStateView,
+        stateValidators.get(Number(validator.validatorIndex))!,
         proofSlotTimestamp,
         deliveredTimestamp,
         fromBlock,
         toBlock,
       );
 
-      if (witness) {
-        validatorWitnesses.push(witness);
+      if (candidate) {
+        candidates.push(candidate);
+      } else {
+        skippedValidators++;
+      }
+    }
+
+    const penaltyResults = await this.checkPenaltiesApplicable(candidates, proofSlotTimestamp);
+
+    const provedCandidates: PenaltyCandidate[] = [];
+    for (const [i, candidate] of candidates.entries()) {
+      if (await this.processPenaltyCheck(candidate, penaltyResults[i], fromBlock, toBlock)) {
+        provedCandidates.push(candidate);
+      } else {
+        skippedValidators++;
+      }
+    }
+
+    if (provedCandidates.length > 0) {
+      // Track proof generation
+      const stopProofGeneration = this.prometheus.proofGenerationDuration.startTimer({
+        proof_type: 'validator',
+        slot_type: 'current',
+      });
+
+      const proofs = await this.stateWorkers.getValidatorProofs(
+        deadlineState,
+        provedCandidates.map(({ validator }) => Number(validator.validatorIndex)),
+      );
+      stopProofGeneration();
+
+      for (const [i, candidate] of provedCandidates.entries()) {
+        this.prometheus.proofGenerationCount.inc({
+          proof_type: 'validator',
+          slot_type: 'current',
+          status: 'success',
+        });
+
+        validatorWitnesses.push(this.buildValidatorWitness(candidate, proofs[i]));
         processedValidators++;
 
         // Track processed validator
         this.prometheus.validatorsProcessedCount.inc({
-          module_id: validator.moduleId.toString(),
+          module_id: candidate.validator.moduleId.toString(),
           processing_type: 'proof_generation',
         });
-      } else {
-        skippedValidators++;
+
+        this.loggerService.log(
+          `[Blocks ${fromBlock}-${toBlock}] Added validator ${candidate.validator.validatorIndex} to witnesses`,
+        );
       }
     }
 
@@ -304,22 +441,29 @@ export class ProverService implements OnModuleInit {
     this.loggerService.log(
       `[Blocks ${fromBlock}-${toBlock}] Deadline slot group processing completed:` +
         `\n  Slot: ${deadlineSlot}` +
+        `\n  Exit request: ${exitRequestsHash}` +
         `\n  Processing time: ${processingDuration}ms`,
     );
 
     return { validatorWitnesses, processedValidators, skippedValidators };
   }
 
-  private async processValidator(
-    validator: ReturnType<typeof this.decodeValidatorsData>[0],
+  /**
+   * Local checks of the validator against the deadline state and the reported validators
+   * @returns The validator if its exit delay penalty has to be checked on-chain
+   */
+  private checkValidator(
+    validator: DecodedValidator,
+    exitRequestsHash: string,
+    proofSlot: number,
     activationEpoch: number,
     exitDeadlineEpoch: number,
-    stateView: any,
+    deadlineStateValidator: StateValidator,
     proofSlotTimestamp: number,
     deliveredTimestamp: number,
     fromBlock: number,
     toBlock: number,
-  ): Promise<ValidatorWitness | null> {
+  ): PenaltyCandidate | null {
     const validatorStartTime = Date.now();
     const validatorIndex = Number(validator.validatorIndex);
     const moduleId = validator.moduleId.toString();
@@ -330,8 +474,6 @@ export class ProverService implements OnModuleInit {
       processing_type: 'eligibility_check',
     });
 
-    const deadlineStateValidator = stateView.validators.getReadonly(validatorIndex);
-
     // Check if validator already exited
     if (deadlineStateValidator.exitEpoch < exitDeadlineEpoch) {
       this.prometheus.exitAlreadyProcessedCount.inc({
@@ -382,17 +524,130 @@ export class ProverService implements OnModuleInit {
         `\n  Processing time: ${Date.now() - validatorStartTime}ms`,
     );
 
-    // Check if this validator was already reported
-    const wasReported = this.reportedValidatorPubkeys.has(validator.validatorPubkey);
+    // Check if this validator exit delay was already reported on-chain
+    if (this.reportedValidators.isConfirmed(validator.validatorPubkey)) {
+      this.prometheus.validatorsSkippedCount.inc({
+        module_id: moduleId,
+        reason: 'already_reported',
+      });
 
-    const isPenaltyApplicable = await this.getContractForModule(
-      Number(validator.moduleId),
-    ).isValidatorExitDelayPenaltyApplicable(
-      Number(validator.nodeOpId),
-      proofSlotTimestamp,
-      validator.validatorPubkey,
-      secondsSinceExitIsEligible,
-    );
+      this.loggerService.log(
+        `[Blocks ${fromBlock}-${toBlock}] Validator already reported:` +
+          `\n  Index: ${validatorIndex}` +
+          `\n  Public key: ${validator.validatorPubkey}`,
+      );
+
+      stopValidatorTimer();
+      return null;
+    }
+
+    // Check if this validator was rejected by the verifier before
+    const quarantined = this.quarantinedValidators.get(validator.validatorPubkey, exitRequestsHash, proofSlot);
+    if (quarantined) {
+      this.prometheus.validatorsSkippedCount.inc({
+        module_id: moduleId,
+        reason: 'quarantined',
+      });
+
+      this.loggerService.log(
+        `[Blocks ${fromBlock}-${toBlock}] Validator quarantined:` +
+          `\n  Index: ${validatorIndex}` +
+          `\n  Public key: ${validator.validatorPubkey}` +
+          `\n  Reason: ${quarantined.reason}`,
+      );
+
+      stopValidatorTimer();
+      return null;
+    }
+
+    // Check if the proof of this validator is waiting in the submission queue
+    if (this.submissionQueue.has(validator.validatorPubkey)) {
+      this.prometheus.validatorsSkippedCount.inc({
+        module_id: moduleId,
+        reason: 'queued',
+      });
+
+      this.loggerService.log(
+        `[Blocks ${fromBlock}-${toBlock}] Validator proof queued for submission:` +
+          `\n  Index: ${validatorIndex}` +
+          `\n  Public key: ${validator.validatorPubkey}`,
+      );
+
+      stopValidatorTimer();
+      return null;
+    }
+
+    stopValidatorTimer();
+    return { validator, deadlineStateValidator, secondsSinceExitIsEligible };
+  }
+
+  /**
+   * Check exit delay penalties of the validators, batched per staking module
+   * @returns Results in the order of the validators
+   */
+  private async checkPenaltiesApplicable(
+    candidates: PenaltyCandidate[],
+    proofSlotTimestamp: number,
+  ): Promise<MulticallResult<boolean>[]> {
+    const results: MulticallResult<boolean>[] = new Array(candidates.length);
+
+    const indexesByModule = new Map<number, number[]>();
+    candidates.forEach(({ validator }, i) => {
+      const moduleId = Number(validator.moduleId);
+      const indexes = indexesByModule.get(moduleId) ?? [];
+      indexes.push(i);
+      indexesByModule.set(moduleId, indexes);
+    });
+
+    for (const [moduleId, indexes] of indexesByModule) {
+      const moduleResults = await this.getContractForModule(moduleId).isValidatorExitDelayPenaltyApplicableBatch(
+        indexes.map((i) => ({
+          nodeOperatorId: Number(candidates[i].validator.nodeOpId),
+          proofSlotTimestamp,
+          publicKey: candidates[i].validator.validatorPubkey,
+          eligibleToExitInSec: candidates[i].secondsSinceExitIsEligible,
+        })),
+      );
+      indexes.forEach((index, i) => (results[index] = moduleResults[i]));
+    }
+
+    return results;
+  }
+
+  /**
+   * Handle the penalty check result of the validator
+   * @returns Whether the validator has to be proved
+   */
+  private async processPenaltyCheck(
+    candidate: PenaltyCandidate,
+    penaltyResult: MulticallResult<boolean>,
+    fromBlock: number,
+    toBlock: number,
+  ): Promise<boolean> {
+    const { validator } = candidate;
+    const validatorIndex = Number(validator.validatorIndex);
+    const moduleId = validator.moduleId.toString();
+
+    // A failed check skips only this validator, it is checked again in the next cycle
+    if (!penaltyResult.success) {
+      this.failedPenaltyChecks.add(validator.validatorPubkey);
+      this.prometheus.validatorsSkippedCount.inc({
+        module_id: moduleId,
+        reason: 'penalty_check_failed',
+      });
+
+      this.loggerService.warn(
+        `[Blocks ${fromBlock}-${toBlock}] Validator penalty check failed:` +
+          `\n  Index: ${validatorIndex}` +
+          `\n  Public key: ${validator.validatorPubkey}` +
+          `\n  Error: ${penaltyResult.error.message}`,
+      );
+      return false;
+    }
+
+    // Check if this validator was reported by us, but the report is not observed on-chain yet
+    const wasReported = this.reportedValidators.isPending(validator.validatorPubkey);
+    const isPenaltyApplicable = penaltyResult.value;
 
     // Track penalty application result
     this.prometheus.validatorsPenaltyApplicableCount.inc({
@@ -409,7 +664,7 @@ export class ProverService implements OnModuleInit {
       // If penalty is not applicable AND validator was previously reported,
       // we can remove it from our tracking set and it will be cleaned from storage
       if (wasReported) {
-        this.reportedValidatorPubkeys.delete(validator.validatorPubkey);
+        await this.reportedValidators.forget(validator.validatorPubkey);
         this.loggerService.log(
           `[Blocks ${fromBlock}-${toBlock}] Validator penalty no longer applicable (was reported):` +
             `\n  Index: ${validatorIndex}` +
@@ -426,59 +681,44 @@ export class ProverService implements OnModuleInit {
         );
       }
 
-      stopValidatorTimer();
-      return null;
+      return false;
     }
 
-    // Track proof generation
-    const stopProofGeneration = this.prometheus.proofGenerationDuration.startTimer({
-      proof_type: 'validator',
-      slot_type: 'current',
-    });
-
-    const proof = generateValidatorProof(stateView, validatorIndex);
-    stopProofGeneration();
+    return true;
+  }
 
-    this.prometheus.proofGenerationCount.inc({
-      proof_type: 'validator',
-      slot_type: 'current',
-      status: 'success',
-    });
+  private buildValidatorWitness(candidate: PenaltyCandidate, validatorProof: string[]): ValidatorWitness {
+    const { validator, deadlineStateValidator } = candidate;
 
-    let withdrawableEpoch = deadlineStateValidator.withdrawableEpoch;
+    let withdrawableEpoch: number | string = deadlineStateValidator.withdrawableEpoch;
     if (withdrawableEpoch == Infinity) {
       withdrawableEpoch = this.FAR_FUTURE_EPOCH;
     }
 
-    const witness: ValidatorWitness = {
+    return {
       exitRequestIndex: validator.exitDataIndex,
-      withdrawalCredentials: toHex(deadlineStateValidator.withdrawalCredentials),
-      effectiveBalance: Number(deadlineStateValidator.effectiveBalance),
-      slashed: Boolean(deadlineStateValidator.slashed),
-      activationEligibilityEpoch: Number(deadlineStateValidator.activationEligibilityEpoch),
-      activationEpoch: Number(deadlineStateValidator.activationEpoch),
+      withdrawalCredentials: deadlineStateValidator.withdrawalCredentials,
+      effectiveBalance: deadlineStateValidator.effectiveBalance,
+      slashed: deadlineStateValidator.slashed,
+      activationEligibilityEpoch: deadlineStateValidator.activationEligibilityEpoch,
+      activationEpoch: deadlineStateValidator.activationEpoch,
       withdrawableEpoch: withdrawableEpoch,
-      validatorProof: proof.witnesses.map(toHex),
+      validatorProof,
       moduleId: Number(validator.moduleId),
       nodeOpId: Number(validator.nodeOpId),
       pubkey: validator.validatorPubkey,
     };
-
-    stopValidatorTimer();
-
-    this.loggerService.log(`[Blocks ${fromBlock}-${toBlock}] Added validator ${validatorIndex} to witnesses`);
-    return witness;
   }
 
   /**
    * Update validator storage metrics
    */
   private updateValidatorStorageMetrics(): void {
-    const storageSize = this.validatorsByDeadlineSlotStorage.size;
+    const storageSize = this.deadlineQueue.size;
     this.prometheus.validatorStorageDeadlineSlots.set(storageSize);
 
     if (storageSize > 0) {
-      const slots = Array.from(this.validatorsByDeadlineSlotStorage.keys());
+      const slots = this.deadlineQueue.keys();
       const minSlot = slots.reduce((min, slot) => (slot < min ? slot : min), slots[0]);
       const maxSlot = slots.reduce((max, slot) => (slot > max ? slot : max), slots[0]);
       this.prometheus.validatorStorageMinSlot.set(minSlot);
@@ -494,25 +734,11 @@ export class ProverService implements OnModuleInit {
    * Add validators from an exit request to the persistent storage
    * @param validatorsByDeadlineSlot Validators grouped by deadline slot from a single exit request
    */
-  private addToValidatorStorage(
-    validatorsByDeadlineSlot: Map<
-      number,
-      {
-        exitRequest: any;
-        validators: {
-          validator: ReturnType<typeof this.decodeValidatorsData>[0];
-          activationEpoch: number;
-          exitDeadlineEpoch: number;
-        }[];
-      }
-    >,
-  ): void {
+  private async addToValidatorStorage(validatorsByDeadlineSlot: Map<number, DeadlineGroup>): Promise<void> {
     for (const [deadlineSlot, groupData] of validatorsByDeadlineSlot) {
-      if (!this.validatorsByDeadlineSlotStorage.has(deadlineSlot)) {
-        this.validatorsByDeadlineSlotStorage.set(deadlineSlot, []);
-      }
-      this.validatorsByDeadlineSlotStorage.get(deadlineSlot)!.push(groupData);
+      this.deadlineQueue.add(deadlineSlot, groupData);
     }
+    await this.deadlineQueue.save();
 
     // Update metrics after adding
     this.updateValidatorStorageMetrics();
@@ -522,13 +748,13 @@ export class ProverService implements OnModuleInit {
    * Creates batches for block processing
    * @param fromBlock Starting block number
    * @param toBlock Ending block number
-   * @param batchSize Size of each batch (default: 10000)
+   * @param batchSize Size of each batch (default: EL_LOGS_MAX_BLOCK_RANGE, logs of a batch are fetched in smaller ranges if needed)
    * @returns Array of batch objects with from/to block numbers
    */
   private createBatches(
     fromBlock: number,
     toBlock: number,
-    batchSize: number = 10000,
+    batchSize: number = this.config.get('EL_LOGS_MAX_BLOCK_RANGE'),
   ): Array<{ from: number; to: number }> {
     const blockRange = toBlock - fromBlock;
     const batches: Array<{ from: number; to: number }> = [];
@@ -558,9 +784,8 @@ export class ProverService implements OnModuleInit {
     fromBlock: number,
     toBlock: number,
   ): Promise<{
-    finalizedStateView: any;
+    finalizedState: State;
     provableFinalizedBlockHeader: any;
-    ssz: any;
   } | null> {
     this.loggerService.log(`[Blocks ${fromBlock}-${toBlock}] Fetching finalized beacon state`);
     const state = await this.consensus.getState('finalized');
@@ -577,12 +802,13 @@ export class ProverService implements OnModuleInit {
       },
       rootsTimestamp: this.calcRootsTimestamp(finalizedSlot),
     };
-    const ssz = await eval(`import('@lodestar/types').then((m) => m.ssz)`);
 
-    let finalizedStateView;
     try {
-      finalizedStateView = ssz[state.forkName].BeaconState.deserializeToView(state.bodyBytes);
+      await this.stateWorkers.load(state);
     } catch (error) {
+      if (!(error instanceof StateDeserializationError)) {
+        throw error;
+      }
       this.prometheus.stateDeserializationErrorsCount.inc({
         fork_name: state.forkName,
       });
@@ -590,7 +816,7 @@ export class ProverService implements OnModuleInit {
         `[Blocks ${fromBlock}-${toBlock}] Failed to deserialize finalized state (beacon node data corruption):` +
           `\n  Fork: ${state.forkName}` +
           `\n  Data size: ${state.bodyBytes.length} bytes` +
-          `\n  Error: ${error instanceof Error ? error.message : String(error)}` +
+          `\n  Error: ${error.message}` +
           `\n  Skipping this cycle - will retry when beacon node data is healthy`,
       );
       return null;
@@ -598,15 +824,15 @@ export class ProverService implements OnModuleInit {
 
     this.loggerService.log(`[Blocks ${fromBlock}-${toBlock}] Using beacon state with fork ${state.forkName}`);
 
-    return { finalizedStateView, provableFinalizedBlockHeader, ssz };
+    return { finalizedState: state, provableFinalizedBlockHeader };
   }
 
   /**
    * Process a single exit request and add validators to storage
    */
   private async processExitRequest(
-    exitRequest: any,
-    finalizedStateView: any,
+    exitRequest: ExitRequestsResult,
+    finalizedState: State,
     fromBlock: number,
     toBlock: number,
   ): Promise<void> {
@@ -617,7 +843,7 @@ export class ProverService implements OnModuleInit {
         `\n  Data Format: ${exitRequest.exitRequestsData.dataFormat}`,
     );
 
-    const validators = this.decodeValidatorsData(exitRequest.exitRequestsData.data);
+    const validators = decodeValidatorsData(exitRequest.exitRequestsData.data);
     const deliveredTimestamp = await this.exitRequests.getExitRequestDeliveryTimestamp(exitRequest.exitRequestsHash);
 
     this.loggerService.log(
@@ -631,7 +857,7 @@ export class ProverService implements OnModuleInit {
     const validatorsByDeadlineSlot = await this.groupValidatorsByDeadlineSlot(
       validators,
       deliveredTimestamp,
-      finalizedStateView,
+      finalizedState,
       exitRequest,
       fromBlock,
       toBlock,
@@ -644,7 +870,7 @@ export class ProverService implements OnModuleInit {
     );
 
     // Add validators to persistent storage
-    this.addToValidatorStorage(validatorsByDeadlineSlot);
+    await this.addToValidatorStorage(validatorsByDeadlineSlot);
 
     this.loggerService.log(
       `[Blocks ${fromBlock}-${toBlock}] Exit request accumulated:` +
@@ -655,14 +881,18 @@ export class ProverService implements OnModuleInit {
   }
 
   /**
-   * Process all batches of exit requests
+   * Process all batches of exit requests, after the deliveries skipped as undecodable in earlier ranges
    */
   private async processBatches(
     batches: Array<{ from: number; to: number }>,
-    finalizedStateView: any,
+    finalizedState: State,
     fromBlock: number,
     toBlock: number,
   ): Promise<void> {
+    for (const exitRequest of await this.exitRequests.retryUndecodable()) {
+      await this.processExitRequest(exitRequest, finalizedState, fromBlock, toBlock);
+    }
+
     for (let i = 0; i < batches.length; i++) {
       const batch = batches[i];
       const batchStartTime = Date.now();
@@ -687,7 +917,7 @@ export class ProverService implements OnModuleInit {
 
       // Process each exit request in this batch
       for (const exitRequest of exitRequestsResult) {
-        await this.processExitRequest(exitRequest, finalizedStateView, fromBlock, toBlock);
+        await this.processExitRequest(exitRequest, finalizedState, fromBlock, toBlock);
       }
 
       this.loggerService.log(
@@ -698,36 +928,133 @@ export class ProverService implements OnModuleInit {
   }
 
   /**
-   * Process a single deadline slot with all its validators
+   * Prove validators of the deadline slots by the configured strategy:
+   * - per deadline: validators are proved at the first slot after their deadline, one state per deadline slot
+   * - consolidated: validators are proved at the finalized slot against the finalized state, except the ones which
+   *   initiated their exit after the deadline, those are proved at their deadline slots
    */
-  private async processDeadlineSlot(
-    deadlineSlot: number,
-    groupDataArray: any[],
-    finalizedStateView: any,
+  private async processDeadlineEntries(
+    entries: Array<[number, DeadlineGroup[]]>,
+    finalizedState: State,
     provableFinalizedBlockHeader: any,
-    ssz: any,
     fromBlock: number,
     toBlock: number,
-  ): Promise<{ processedValidators: number; skippedValidators: number }> {
-    // Combine all validators for this deadline slot from all exit requests
-    let allValidators: {
-      validator: ReturnType<typeof this.decodeValidatorsData>[0];
-      activationEpoch: number;
-      exitDeadlineEpoch: number;
-    }[] = [];
-    let exitRequest: any = null;
-
-    for (const groupData of groupDataArray) {
-      allValidators = allValidators.concat(groupData.validators);
-      if (!exitRequest) {
-        exitRequest = groupData.exitRequest; // Use the first exit request for the group
+  ): Promise<Array<{ processedValidators: number; skippedValidators: number }>> {
+    const results: Array<{ processedValidators: number; skippedValidators: number }> = [];
+    let deadlineEntries = entries;
+
+    if (this.config.get('PROOF_STRATEGY') === ProofStrategy.Consolidated) {
+      const finalizedSlot = Number(provableFinalizedBlockHeader.header.slot);
+      const consolidation = await this.consolidateDeadlineEntries(
+        entries,
+        finalizedState,
+        finalizedSlot,
+        fromBlock,
+        toBlock,
+      );
+      deadlineEntries = consolidation.deadlineEntries;
+
+      if (consolidation.groups.length > 0) {
+        results.push(
+          await this.processDeadlineSlot(
+            finalizedSlot,
+            consolidation.groups,
+            finalizedState,
+            provableFinalizedBlockHeader,
+            fromBlock,
+            toBlock,
+            finalizedState,
+          ),
+        );
       }
     }
 
-    // Get delivery timestamp from the first exit request
-    const deliveredTimestamp = await this.exitRequests.getExitRequestDeliveryTimestamp(exitRequest.exitRequestsHash);
+    // Deadline slots are independent: proofs are generated concurrently, transactions are sent one by one by `Execution`
+    const deadlineResults = await mapWithConcurrency(
+      deadlineEntries,
+      this.config.get('DEADLINE_SLOTS_CONCURRENCY'),
+      ([deadlineSlot, groupDataArray]) => {
+        const deadlineSlotPenalizable = deadlineSlot + 1;
+        return this.processDeadlineSlot(
+          deadlineSlotPenalizable,
+          groupDataArray,
+          finalizedState,
+          provableFinalizedBlockHeader,
+          fromBlock,
+          toBlock,
+        );
+      },
+    );
+
+    return [...results, ...deadlineResults];
+  }
+
+  /**
+   * Select validators of the deadline slots provable at the finalized slot
+   * A validator still not exited at its deadline is late at any later slot until it initiates the exit,
+   * so validators without an exit epoch in the finalized state are consolidated. Validators which exited in time
+   * are consolidated too, they are skipped as already exited at any slot
+   * @returns Consolidated groups, per exit request, and the deadline entries left to be proved at their slots
+   */
+  private async consolidateDeadlineEntries(
+    entries: Array<[number, DeadlineGroup[]]>,
+    finalizedState: State,
+    finalizedSlot: number,
+    fromBlock: number,
+    toBlock: number,
+  ): Promise<{ groups: DeadlineGroup[]; deadlineEntries: Array<[number, DeadlineGroup[]]> }> {
+    // Validators are provable at the finalized slot only after their deadline slot
+    const candidates = entries.filter(([deadlineSlot]) => deadlineSlot < finalizedSlot);
+    const validatorIndices = candidates.flatMap(([, groups]) =>
+      groups.flatMap(({ validators }) => validators.map((v) => Number(v.validator.validatorIndex))),
+    );
+    if (validatorIndices.length === 0) {
+      return { groups: [], deadlineEntries: entries };
+    }
 
-    const isOldSlot = await this.isSlotOld(deadlineSlot);
+    const finalized = await this.loadDeadlineState(finalizedSlot, validatorIndices, fromBlock, toBlock, finalizedState);
+    if (!finalized) {
+      return { groups: [], deadlineEntries: entries };
+    }
+
+    const isConsolidated = ({ validator, exitDeadlineEpoch }: DeadlineValidator): boolean => {
+      const { exitEpoch } = finalized.stateValidators.get(Number(validator.validatorIndex))!;
+      return exitEpoch === Infinity || exitEpoch < exitDeadlineEpoch;
+    };
+
+    const { groups, deadlineEntries } = consolidateDeadlineGroups(
+      entries,
+      (deadlineSlot, validator) => deadlineSlot < finalizedSlot && isConsolidated(validator),
+    );
+
+    const consolidatedValidators = groups.reduce((sum, group) => sum + group.validators.length, 0);
+    this.loggerService.log(
+      `[Blocks ${fromBlock}-${toBlock}] Validators consolidated at the finalized slot:` +
+        `\n  Finalized slot: ${finalizedSlot}` +
+        `\n  Consolidated validators: ${consolidatedValidators}` +
+        `\n  Deadline slots consolidated: ${entries.length - deadlineEntries.length}` +
+        `\n  Deadline slots proved separately: ${deadlineEntries.length}`,
+    );
+
+    return { groups, deadlineEntries };
+  }
+
+  /**
+   * Process a single deadline slot with all its validators
+   * Validators are processed per (deadline slot, exit request hash) pair: each exit request has its own
+   * delivery timestamp, so eligibility, witnesses and submitted batches are never mixed between requests
+   */
+  private async processDeadlineSlot(
+    deadlineSlot: number,
+    groupDataArray: DeadlineGroup[],
+    finalizedState: State,
+    provableFinalizedBlockHeader: any,
+    fromBlock: number,
+    toBlock: number,
+    loadedState?: State,
+  ): Promise<{ processedValidators: number; skippedValidators: number }> {
+    const pairs = groupByExitRequest(groupDataArray);
+    const totalValidators = pairs.reduce((sum, pair) => sum + pair.validators.length, 0);
 
     const { slot: actualSlot, header: deadlineBlockHeader } = await this.findNextAvailableSlot(deadlineSlot);
 
@@ -743,35 +1070,92 @@ export class ProverService implements OnModuleInit {
       },
       rootsTimestamp: this.calcRootsTimestamp(actualSlot),
     };
-
-    // Process all combined validators for this deadline slot
-    const { validatorWitnesses, processedValidators, skippedValidators } = await this.processValidatorGroup(
-      allValidators,
+    const proofPath = await this.selectProofPath(
       actualSlot,
-      proofSlotTimestamp,
-      deliveredTimestamp,
-      fromBlock,
-      toBlock,
+      provableDeadlineBlockHeader.rootsTimestamp,
+      provableFinalizedBlockHeader.header.slot,
     );
+    if (proofPath === ProofPath.deferred) {
+      pairs.forEach(({ validators }) =>
+        validators.forEach((v) => this.deferredValidators.add(v.validator.validatorPubkey)),
+      );
+      this.loggerService.warn(
+        `[Blocks ${fromBlock}-${toBlock}] Deadline slot ${deadlineSlot} deferred until its historical summary is finalized:` +
+          `\n  Validators: ${totalValidators}`,
+      );
+      return { processedValidators: 0, skippedValidators: totalValidators };
+    }
 
-    if (validatorWitnesses.length === 0) {
-      return { processedValidators: 0, skippedValidators: 0 };
+    // The deadline state is loaded once and shared by all exit requests of the slot
+    const validatorIndices = pairs.flatMap(({ validators }) =>
+      validators.map((v) => Number(v.validator.validatorIndex)),
+    );
+    const deadlineState = await this.loadDeadlineState(actualSlot, validatorIndices, fromBlock, toBlock, loadedState);
+    if (!deadlineState) {
+      return { processedValidators: 0, skippedValidators: totalValidators };
     }
 
-    if (isOldSlot) {
-      await this.processHistoricalSlot(
-        deadlineSlot,
-        validatorWitnesses,
-        exitRequest,
-        finalizedStateView,
-        provableFinalizedBlockHeader,
-        ssz,
+    if (pairs.length > 1) {
+      this.loggerService.log(
+        `[Blocks ${fromBlock}-${toBlock}] Deadline slot ${deadlineSlot} has validators of ${pairs.length} exit requests`,
       );
-    } else {
-      await this.processCurrentSlot(validatorWitnesses, exitRequest, provableDeadlineBlockHeader, fromBlock, toBlock);
     }
 
-    return { processedValidators, skippedValidators };
+    let totalProcessedValidators = 0;
+    let totalSkippedValidators = 0;
+
+    for (const { exitRequest, validators } of pairs) {
+      const deliveredTimestamp = await this.exitRequests.getExitRequestDeliveryTimestamp(exitRequest.exitRequestsHash);
+
+      const { validatorWitnesses, processedValidators, skippedValidators } = await this.processValidatorGroup(
+        validators,
+        exitRequest.exitRequestsHash,
+        deadlineState.deadlineState,
+        deadlineState.stateValidators,
+        actualSlot,
+        proofSlotTimestamp,
+        deliveredTimestamp,
+        fromBlock,
+        toBlock,
+      );
+
+      totalProcessedValidators += processedValidators;
+      totalSkippedValidators += skippedValidators;
+
+      if (validatorWitnesses.length === 0) {
+        continue;
+      }
+
+      if (proofPath === ProofPath.historical) {
+        await this.processHistoricalSlot(
+          deadlineSlot,
+          validatorWitnesses,
+          exitRequest,
+          finalizedState,
+          provableFinalizedBlockHeader,
+          deadlineState.deadlineState.forkName,
+        );
+      } else {
+        await this.processCurrentSlot(
+          validatorWitnesses,
+          exitRequest,
+          provableDeadlineBlockHeader,
+          deadlineState.deadlineState.forkName,
+          fromBlock,
+          toBlock,
+        );
+      }
+    }
+
+    return { processedValidators: totalProcessedValidators, skippedValidators: totalSkippedValidators };
+  }
+
+  /**
+   * Load the state of the historical summary slot
+   * Shared by all historical slots of the same summary
+   */
+  private loadSummaryState(summarySlot: number): Promise<State> {
+    return this.summaryStates.get(summarySlot, () => this.consensus.getState(summarySlot));
   }
 
   /**
@@ -781,17 +1165,69 @@ export class ProverService implements OnModuleInit {
     deadlineSlot: number,
     validatorWitnesses: any[],
     exitRequest: any,
-    finalizedStateView: any,
+    finalizedState: State,
     provableFinalizedBlockHeader: any,
-    ssz: any,
+    forkName: string,
   ): Promise<void> {
-    // Split into batches to avoid oversized transactions
-    const batches = this.createValidatorBatches(validatorWitnesses);
+    // The deadline block and its proof in the historical summaries are shared by all batches
+    const { slot: actualSlot, header: deadlineBlockHeader } = await this.findNextAvailableSlot(deadlineSlot);
+
+    const summaryIndex = this.calcSummaryIndex(actualSlot);
+    const rootIndexInSummary = this.calcRootIndexInSummary(actualSlot);
+    const summarySlot = this.calcSlotOfSummary(summaryIndex);
+    const summaryState = await this.loadSummaryState(summarySlot);
+
+    // Generate proof that this block's root exists in the historical summaries
+    let proof: string[];
+    try {
+      proof = await this.stateWorkers.getHistoricalProof(
+        finalizedState,
+        summaryState,
+        summaryIndex,
+        rootIndexInSummary,
+      );
+    } catch (error) {
+      if (!(error instanceof StateDeserializationError)) {
+        throw error;
+      }
+      this.prometheus.stateDeserializationErrorsCount.inc({
+        fork_name: summaryState.forkName,
+      });
+      this.loggerService.error(
+        `❌ Historical slot ${deadlineSlot} skipped - Failed to deserialize summary state for slot ${summarySlot}:` +
+          `\n  Fork: ${summaryState.forkName}` +
+          `\n  Data size: ${summaryState.bodyBytes.length} bytes` +
+          `\n  Validators: ${validatorWitnesses.length}` +
+          `\n  Error: ${error.message}` +
+          `\n  This is beacon node data corruption - skipping this slot`,
+      );
+      return;
+    }
+
+    const oldBlock = {
+      header: {
+        slot: actualSlot,
+        proposerIndex: Number(deadlineBlockHeader.header.message.proposer_index),
+        parentRoot: deadlineBlockHeader.header.message.parent_root,
+        stateRoot: deadlineBlockHeader.header.message.state_root,
+        bodyRoot: deadlineBlockHeader.header.message.body_root,
+      },
+      proof,
+    };
+
+    // Split into batches fitting the transaction size and gas limits
+    const method = ProofBundleMethod.VerifyHistoricalValidatorExitDelay;
+    const batches = this.batchPlanner.plan(method, validatorWitnesses, (batch) => [
+      provableFinalizedBlockHeader,
+      oldBlock,
+      batch,
+      exitRequest.exitRequestsData,
+    ]);
 
     this.loggerService.log(
       `Processing historical slot ${deadlineSlot} in ${batches.length} batches:` +
+        `\n  Actual available slot: ${actualSlot}` +
         `\n  Total validators: ${validatorWitnesses.length}` +
-        `\n  Batch size: ${this.validatorBatchSize}` +
         `\n  Batches: ${batches.map((batch, i) => `${i + 1}(${batch.length})`).join(', ')}`,
     );
 
@@ -799,8 +1235,6 @@ export class ProverService implements OnModuleInit {
       const batch = batches[i];
       const batchStartTime = Date.now();
 
-      const { slot: actualSlot, header: deadlineBlockHeader } = await this.findNextAvailableSlot(deadlineSlot);
-
       this.loggerService.log(
         `Processing historical batch ${i + 1}/${batches.length}:` +
           `\n  Requested deadline slot: ${deadlineSlot}` +
@@ -808,86 +1242,71 @@ export class ProverService implements OnModuleInit {
           `\n  Validators in batch: ${batch.length}`,
       );
 
-      const summaryIndex = this.calcSummaryIndex(actualSlot);
-      const rootIndexInSummary = this.calcRootIndexInSummary(actualSlot);
-      const summarySlot = this.calcSlotOfSummary(summaryIndex);
-      const summaryState = await this.consensus.getState(summarySlot);
-
-      let summaryStateView;
-      try {
-        summaryStateView = ssz[summaryState.forkName].BeaconState.deserializeToView(summaryState.bodyBytes);
-      } catch (error) {
-        this.prometheus.stateDeserializationErrorsCount.inc({
-          fork_name: summaryState.forkName,
-        });
-        this.loggerService.error(
-          `❌ Historical batch ${i + 1}/${batches.length} skipped - Failed to deserialize summary state for slot ${summarySlot}:` +
-            `\n  Fork: ${summaryState.forkName}` +
-            `\n  Data size: ${summaryState.bodyBytes.length} bytes` +
-            `\n  Error: ${error instanceof Error ? error.message : String(error)}` +
-            `\n  This is beacon node data corruption - skipping this batch`,
-        );
-        // Skip this batch but continue with others
-        continue;
-      }
-
-      // Generate proof that this block's root exists in the historical summaries
-      const proof = generateHistoricalStateProof(
-        finalizedStateView,
-        summaryStateView,
-        summaryIndex,
-        rootIndexInSummary,
-      );
-
-      const oldBlock = {
-        header: {
-          slot: actualSlot,
-          proposerIndex: Number(deadlineBlockHeader.header.message.proposer_index),
-          parentRoot: deadlineBlockHeader.header.message.parent_root,
-          stateRoot: deadlineBlockHeader.header.message.state_root,
-          bodyRoot: deadlineBlockHeader.header.message.body_root,
-        },
-        proof: proof.witnesses.map((w) => ethers.utils.hexlify(w)),
-      };
-
       try {
-        // Use execution service for transaction handling
-        await this.execution.execute(
-          // Emulation callback
-          async (beaconBlock, oldBlock, validatorWitnesses, exitRequestsData) => {
-            return await this.verifier.verifyHistoricalValidatorExitDelay(
-              beaconBlock,
-              oldBlock,
-              validatorWitnesses,
-              exitRequestsData,
-            );
-          },
-          // Population callback
-          async (beaconBlock, oldBlock, validatorWitnesses, exitRequestsData) => {
-            return await this.verifier.populateVerifyHistoricalValidatorExitDelay(
-              beaconBlock,
-              oldBlock,
-              validatorWitnesses,
-              exitRequestsData,
-            );
-          },
-          // Payload
-          [provableFinalizedBlockHeader, oldBlock, batch, exitRequest.exitRequestsData],
-        );
+        const proofBundle = {
+          method,
+          exitRequestsHash: exitRequest.exitRequestsHash,
+          forkName,
+          beaconBlock: provableFinalizedBlockHeader,
+          oldBlock,
+          validatorWitnesses: batch,
+          exitRequests: exitRequest.exitRequestsData,
+        };
+
+        // Check the proofs before paying for emulation
+        await this.proofVerifier.verify(proofBundle);
+
+        // Export the proof for submission or audit by a separate party
+        await this.proofBundles.export(proofBundle);
+
+        if (this.submissionQueue.enabled) {
+          // Sent by the submitter when gas fees are acceptable, validators are marked as reported then
+          await this.queueBatch(proofBundle);
+        } else {
+          // Use execution service for transaction handling
+          const receipt = await this.execution.execute(
+            // Emulation callback
+            async (beaconBlock, oldBlock, validatorWitnesses, exitRequestsData) => {
+              return await this.verifier.verifyHistoricalValidatorExitDelay(
+                beaconBlock,
+                oldBlock,
+                validatorWitnesses,
+                exitRequestsData,
+              );
+            },
+            // Population callback
+            async (beaconBlock, oldBlock, validatorWitnesses, exitRequestsData) => {
+              return await this.verifier.populateVerifyHistoricalValidatorExitDelay(
+                beaconBlock,
+                oldBlock,
+                validatorWitnesses,
+                exitRequestsData,
+              );
+            },
+            // Payload
+            [provableFinalizedBlockHeader, oldBlock, batch, exitRequest.exitRequestsData],
+          );
+          if (receipt) {
+            await this.batchPlanner.calibrate(method, batch.length, receipt.gasUsed.toNumber());
+          }
 
-        // Transaction successful - add all validator pubkeys to reported set
-        for (const witness of batch) {
-          this.reportedValidatorPubkeys.add(witness.pubkey);
+          // Transaction successful - add all validator pubkeys to reported set
+          await this.reportedValidators.markPending(batch.map((witness) => witness.pubkey));
         }
 
         this.loggerService.log(
           `✅ Historical batch ${i + 1}/${batches.length} completed:` +
             `\n  Slot: ${deadlineSlot}` +
             `\n  Validators: ${batch.length}` +
-            `\n  Reported validators tracked: ${this.reportedValidatorPubkeys.size}` +
+            `\n  Reported validators tracked: ${this.reportedValidators.size}` +
             `\n  Processing time: ${Date.now() - batchStartTime}ms`,
         );
       } catch (error) {
+        if (await this.handleRejectedBatch(batches, i, error, method, exitRequest.exitRequestsHash, actualSlot)) {
+          i--; // Continue with the batch taking its place
+          continue;
+        }
+
         // Don't log full error details here - execution service has already logged them
         // Just log a brief reference for this batch context
         this.loggerService.error(
@@ -908,17 +1327,22 @@ export class ProverService implements OnModuleInit {
     validatorWitnesses: any[],
     exitRequest: any,
     provableDeadlineBlockHeader: any,
+    forkName: string,
     fromBlock: number,
     toBlock: number,
   ): Promise<void> {
-    // Split into batches to avoid oversized transactions
-    const batches = this.createValidatorBatches(validatorWitnesses);
+    // Split into batches fitting the transaction size and gas limits
+    const method = ProofBundleMethod.VerifyValidatorExitDelay;
+    const batches = this.batchPlanner.plan(method, validatorWitnesses, (batch) => [
+      provableDeadlineBlockHeader,
+      batch,
+      exitRequest.exitRequestsData,
+    ]);
 
     this.loggerService.log(
       `[Blocks ${fromBlock}-${toBlock}] Processing current slot in ${batches.length} batches:` +
         `\n  Total validators: ${validatorWitnesses.length}` +
         `\n  Block slot: ${provableDeadlineBlockHeader.header.slot}` +
-        `\n  Batch size: ${this.validatorBatchSize}` +
         `\n  Batches: ${batches.map((batch, i) => `${i + 1}(${batch.length})`).join(', ')}`,
     );
 
@@ -935,37 +1359,72 @@ export class ProverService implements OnModuleInit {
       try {
         const verificationStartTime = Date.now();
 
-        // Use execution service for transaction handling
-        await this.execution.execute(
-          // Emulation callback
-          async (beaconBlock, validatorWitnesses, exitRequestsData) => {
-            return await this.verifier.verifyValidatorExitDelay(beaconBlock, validatorWitnesses, exitRequestsData);
-          },
-          // Population callback
-          async (beaconBlock, validatorWitnesses, exitRequestsData) => {
-            return await this.verifier.populateVerifyValidatorExitDelay(
-              beaconBlock,
-              validatorWitnesses,
-              exitRequestsData,
-            );
-          },
-          // Payload
-          [provableDeadlineBlockHeader, batch, exitRequest.exitRequestsData],
-        );
+        const proofBundle = {
+          method,
+          exitRequestsHash: exitRequest.exitRequestsHash,
+          forkName,
+          beaconBlock: provableDeadlineBlockHeader,
+          validatorWitnesses: batch,
+          exitRequests: exitRequest.exitRequestsData,
+        };
+
+        // Check the proofs before paying for emulation
+        await this.proofVerifier.verify(proofBundle);
+
+        // Export the proof for submission or audit by a separate party
+        await this.proofBundles.export(proofBundle);
 
-        // Transaction successful - add all validator pubkeys to reported set
-        for (const witness of batch) {
-          this.reportedValidatorPubkeys.add(witness.pubkey);
+        if (this.submissionQueue.enabled) {
+          // Sent by the submitter when gas fees are acceptable, validators are marked as reported then
+          await this.queueBatch(proofBundle);
+        } else {
+          // Use execution service for transaction handling
+          const receipt = await this.execution.execute(
+            // Emulation callback
+            async (beaconBlock, validatorWitnesses, exitRequestsData) => {
+              return await this.verifier.verifyValidatorExitDelay(beaconBlock, validatorWitnesses, exitRequestsData);
+            },
+            // Population callback
+            async (beaconBlock, validatorWitnesses, exitRequestsData) => {
+              return await this.verifier.populateVerifyValidatorExitDelay(
+                beaconBlock,
+                validatorWitnesses,
+                exitRequestsData,
+              );
+            },
+            // Payload
+            [provableDeadlineBlockHeader, batch, exitRequest.exitRequestsData],
+          );
+          if (receipt) {
+            await this.batchPlanner.calibrate(method, batch.length, receipt.gasUsed.toNumber());
+          }
+
+          // Transaction successful - add all validator pubkeys to reported set
+          await this.reportedValidators.markPending(batch.map((witness) => witness.pubkey));
         }
 
         this.loggerService.log(
           `[Blocks ${fromBlock}-${toBlock}] ✅ Batch ${i + 1}/${batches.length} completed:` +
             `\n  Validators: ${batch.length}` +
-            `\n  Reported validators tracked: ${this.reportedValidatorPubkeys.size}` +
+            `\n  Reported validators tracked: ${this.reportedValidators.size}` +
             `\n  Verification time: ${Date.now() - verificationStartTime}ms` +
             `\n  Total batch time: ${Date.now() - batchStartTime}ms`,
         );
       } catch (error) {
+        if (
+          await this.handleRejectedBatch(
+            batches,
+            i,
+            error,
+            method,
+            exitRequest.exitRequestsHash,
+            Number(provableDeadlineBlockHeader.header.slot),
+          )
+        ) {
+          i--; // Continue with the batch taking its place
+          continue;
+        }
+
         // Don't log full error details here - execution service has already logged them
         // Just log a brief reference for this batch context
         this.loggerService.error(
@@ -983,22 +1442,19 @@ export class ProverService implements OnModuleInit {
    * Process all eligible validators from storage
    */
   private async processEligibleValidators(
-    finalizedStateView: any,
+    finalizedState: State,
     provableFinalizedBlockHeader: any,
-    ssz: any,
     fromBlock: number,
     toBlock: number,
   ): Promise<void> {
     // Filter storage entries where deadline slot <= current slot
     const currentSlot = Number(provableFinalizedBlockHeader.header.slot);
-    const eligibleEntries = Array.from(this.validatorsByDeadlineSlotStorage.entries()).filter(
-      ([deadlineSlot]) => deadlineSlot <= currentSlot,
-    );
+    const eligibleEntries = this.deadlineQueue.entries().filter(([deadlineSlot]) => deadlineSlot <= currentSlot);
 
     this.loggerService.log(
       `[Blocks ${fromBlock}-${toBlock}] Processing accumulated validators from storage:` +
         `\n  Current slot: ${currentSlot}` +
-        `\n  Total deadline slots in storage: ${this.validatorsByDeadlineSlotStorage.size}` +
+        `\n  Total deadline slots in storage: ${this.deadlineQueue.size}` +
         `\n  Eligible deadline slots (passed): ${eligibleEntries.length}`,
     );
 
@@ -1009,25 +1465,27 @@ export class ProverService implements OnModuleInit {
       return;
     }
 
-    let totalProcessedValidators = 0;
-    let totalSkippedValidators = 0;
+    this.failedPenaltyChecks.clear();
+    this.failedBatches.clear();
+    this.deferredValidators.clear();
 
-    for (const [deadlineSlot, groupDataArray] of eligibleEntries) {
-      const deadlineSlotPenalizable = deadlineSlot + 1;
-      const { processedValidators, skippedValidators } = await this.processDeadlineSlot(
-        deadlineSlotPenalizable,
-        groupDataArray,
-        finalizedStateView,
+    let results: Array<{ processedValidators: number; skippedValidators: number }>;
+    try {
+      results = await this.processDeadlineEntries(
+        eligibleEntries,
+        finalizedState,
         provableFinalizedBlockHeader,
-        ssz,
         fromBlock,
         toBlock,
       );
-
-      totalProcessedValidators += processedValidators;
-      totalSkippedValidators += skippedValidators;
+    } finally {
+      this.availableSlots.clear();
+      this.summaryStates.clear();
     }
 
+    const totalProcessedValidators = results.reduce((sum, result) => sum + result.processedValidators, 0);
+    const totalSkippedValidators = results.reduce((sum, result) => sum + result.skippedValidators, 0);
+
     this.loggerService.log(
       `[Blocks ${fromBlock}-${toBlock}] All eligible validators processed:` +
         `\n  Total processed: ${totalProcessedValidators}` +
@@ -1041,10 +1499,10 @@ export class ProverService implements OnModuleInit {
 
   /**
    * Clean up processed entries from storage
-   * Removes validators that are no longer in the reported set (penalty no longer applicable)
+   * Removes validators that are no longer pending in the reported set (report confirmed on-chain or penalty no longer applicable)
    */
   private async cleanupProcessedEntries(
-    eligibleEntries: Array<[number, any[]]>,
+    eligibleEntries: Array<[number, DeadlineGroup[]]>,
     fromBlock: number,
     toBlock: number,
   ): Promise<void> {
@@ -1054,11 +1512,7 @@ export class ProverService implements OnModuleInit {
 
     for (const [deadlineSlot, groupDataArray] of eligibleEntries) {
       // Collect all validators for this deadline slot
-      let allValidators: {
-        validator: ReturnType<typeof this.decodeValidatorsData>[0];
-        activationEpoch: number;
-        exitDeadlineEpoch: number;
-      }[] = [];
+      let allValidators: DeadlineValidator[] = [];
 
       for (const groupData of groupDataArray) {
         // Use concat instead of spread to avoid stack overflow with large arrays
@@ -1072,10 +1526,19 @@ export class ProverService implements OnModuleInit {
         totalValidatorsChecked++;
         const { validator } = validatorData;
 
-        // If validator is NOT in reported set, it means:
+        // If validator is NOT pending in reported set, it means:
         // - Either it was never reported (shouldn't be in eligible entries, but keep it)
+        // - Or its report is already observed on-chain
         // - Or it WAS reported but penalty is no longer applicable (was removed from set)
-        const isStillTracked = this.reportedValidatorPubkeys.has(validator.validatorPubkey);
+        // - Unless its penalty check or its batch failed and has to be repeated, its slot is deferred,
+        //   it is quarantined at a slot until the expiry, or its proof is queued
+        const isStillTracked =
+          this.reportedValidators.isPending(validator.validatorPubkey) ||
+          this.failedPenaltyChecks.has(validator.validatorPubkey) ||
+          this.failedBatches.has(validator.validatorPubkey) ||
+          this.deferredValidators.has(validator.validatorPubkey) ||
+          this.quarantinedValidators.isRetried(validator.validatorPubkey) ||
+          this.submissionQueue.has(validator.validatorPubkey);
 
         if (!isStillTracked) {
           // Not in reported set - can be removed from storage
@@ -1101,7 +1564,7 @@ export class ProverService implements OnModuleInit {
       // Update storage: remove slot if all validators are reported, otherwise update with remaining validators
       if (remainingValidators.length === 0) {
         // All validators reported, remove the entire deadline slot
-        this.validatorsByDeadlineSlotStorage.delete(deadlineSlot);
+        this.deadlineQueue.delete(deadlineSlot);
         totalSlotsRemoved++;
         this.loggerService.log(
           `[Blocks ${fromBlock}-${toBlock}] All validators reported for deadline slot ${deadlineSlot}, removing slot from storage`,
@@ -1111,7 +1574,7 @@ export class ProverService implements OnModuleInit {
         const updatedGroupDataArray = groupDataArray
           .map((groupData) => {
             const remainingForThisGroup = remainingValidators.filter((v) =>
-              groupData.validators.some((gv: any) => gv.validator.validatorIndex === v.validator.validatorIndex),
+              groupData.validators.some((gv) => gv.validator.validatorIndex === v.validator.validatorIndex),
             );
 
             return {
@@ -1122,19 +1585,28 @@ export class ProverService implements OnModuleInit {
           .filter((groupData) => groupData.validators.length > 0);
 
         if (updatedGroupDataArray.length > 0) {
-          this.validatorsByDeadlineSlotStorage.set(deadlineSlot, updatedGroupDataArray);
+          this.deadlineQueue.set(deadlineSlot, updatedGroupDataArray);
           this.loggerService.log(
             `[Blocks ${fromBlock}-${toBlock}] Deadline slot ${deadlineSlot} updated:` +
               `\n  Validators remaining: ${remainingValidators.length}` +
               `\n  Validators removed: ${allValidators.length - remainingValidators.length}`,
           );
         } else {
-          this.validatorsByDeadlineSlotStorage.delete(deadlineSlot);
+          this.deadlineQueue.delete(deadlineSlot);
           totalSlotsRemoved++;
         }
       }
     }
 
+    await this.deadlineQueue.save();
+    await this.quarantinedValidators.prune(
+      new Set(
+        this.deadlineQueue
+          .entries()
+          .flatMap(([, groups]) => groups.map((group) => group.exitRequest.exitRequestsHash.toLowerCase())),
+      ),
+    );
+
     // Update metrics after cleanup
     this.updateValidatorStorageMetrics();
 
@@ -1144,8 +1616,136 @@ export class ProverService implements OnModuleInit {
         `\n  Validators removed: ${totalValidatorsRemoved}` +
         `\n  Validators remaining: ${totalValidatorsChecked - totalValidatorsRemoved}` +
         `\n  Deadline slots removed: ${totalSlotsRemoved}` +
-        `\n  Deadline slots in storage: ${this.validatorsByDeadlineSlotStorage.size}` +
-        `\n  Reported validators tracked: ${this.reportedValidatorPubkeys.size}`,
+        `\n  Deadline slots in storage: ${this.deadlineQueue.size}` +
+        `\n  Reported validators tracked: ${this.reportedValidators.size}`,
+    );
+  }
+
+  /**
+   * Prove overdue validators of a single exit request against the finalized state
+   * Validators are not added to the deadline queue
+   */
+  public async proveExitRequest(exitRequest: ExitRequestsResult, block: number): Promise<void> {
+    const startTime = Date.now();
+    const beaconState = await this.initializeBeaconState(block, block);
+    if (!beaconState) {
+      throw new Error('Failed to deserialize finalized beacon state');
+    }
+
+    const { finalizedState, provableFinalizedBlockHeader } = beaconState;
+    const validators = decodeValidatorsData(exitRequest.exitRequestsData.data);
+    const deliveredTimestamp = await this.exitRequests.getExitRequestDeliveryTimestamp(exitRequest.exitRequestsHash);
+    const validatorsByDeadlineSlot = await this.groupValidatorsByDeadlineSlot(
+      validators,
+      deliveredTimestamp,
+      finalizedState,
+      exitRequest,
+      block,
+      block,
+    );
+
+    const currentSlot = Number(provableFinalizedBlockHeader.header.slot);
+    const entries: Array<[number, DeadlineGroup[]]> = [];
+    for (const [deadlineSlot, groupData] of validatorsByDeadlineSlot) {
+      if (deadlineSlot > currentSlot) {
+        this.loggerService.log(
+          `Deadline slot ${deadlineSlot} is in the future, skipping ${groupData.validators.length} validators`,
+        );
+        continue;
+      }
+      entries.push([deadlineSlot, [groupData]]);
+    }
+
+    const results = await this.processDeadlineEntries(
+      entries,
+      finalizedState,
+      provableFinalizedBlockHeader,
+      block,
+      block,
+    );
+    const totalProcessedValidators = results.reduce((sum, result) => sum + result.processedValidators, 0);
+    const totalSkippedValidators = results.reduce((sum, result) => sum + result.skippedValidators, 0);
+
+    this.loggerService.log(
+      `Exit request processing completed:` +
+        `\n  Hash: ${exitRequest.exitRequestsHash}` +
+        `\n  Validators: ${validators.length}` +
+        `\n  Total processed: ${totalProcessedValidators}` +
+        `\n  Total skipped: ${totalSkippedValidators}` +
+        `\n  Total processing time: ${Date.now() - startTime}ms`,
+    );
+  }
+
+  /**
+   * Prove a single validator of the exit request, given by index or public key
+   * The proof slot defaults to the first slot after the validator exit deadline
+   */
+  public async proveValidator(
+    exitRequest: ExitRequestsResult,
+    validatorId: string,
+    block: number,
+    proofSlot?: number,
+  ): Promise<void> {
+    const startTime = Date.now();
+    const beaconState = await this.initializeBeaconState(block, block);
+    if (!beaconState) {
+      throw new Error('Failed to deserialize finalized beacon state');
+    }
+
+    const { finalizedState, provableFinalizedBlockHeader } = beaconState;
+    const validator = decodeValidatorsData(exitRequest.exitRequestsData.data).find((v) =>
+      ethers.utils.isHexString(validatorId, 48)
+        ? v.validatorPubkey === validatorId.toLowerCase()
+        : v.validatorIndex === BigInt(validatorId),
+    );
+    if (!validator) {
+      throw new Error(`Validator ${validatorId} is not found in exit request ${exitRequest.exitRequestsHash}`);
+    }
+
+    const deliveredTimestamp = await this.exitRequests.getExitRequestDeliveryTimestamp(exitRequest.exitRequestsHash);
+    const validatorsByDeadlineSlot = await this.groupValidatorsByDeadlineSlot(
+      [validator],
+      deliveredTimestamp,
+      finalizedState,
+      exitRequest,
+      block,
+      block,
+    );
+    const [[deadlineSlot, groupData]] = Array.from(validatorsByDeadlineSlot);
+
+    const currentSlot = Number(provableFinalizedBlockHeader.header.slot);
+    const slot = proofSlot ?? deadlineSlot + 1;
+    if (slot <= deadlineSlot) {
+      throw new Error(`Proof slot ${slot} must be after the exit deadline slot ${deadlineSlot}`);
+    }
+    if (slot > currentSlot) {
+      throw new Error(`Proof slot ${slot} is not finalized yet, finalized slot is ${currentSlot}`);
+    }
+
+    this.loggerService.log(
+      `Proving validator:` +
+        `\n  Index: ${validator.validatorIndex}` +
+        `\n  Public key: ${validator.validatorPubkey}` +
+        `\n  Exit request: ${exitRequest.exitRequestsHash}` +
+        `\n  Exit deadline slot: ${deadlineSlot}` +
+        `\n  Proof slot: ${slot}` +
+        `\n  Finalized slot: ${currentSlot}`,
+    );
+
+    const { processedValidators } = await this.processDeadlineSlot(
+      slot,
+      [groupData],
+      finalizedState,
+      provableFinalizedBlockHeader,
+      block,
+      block,
+    );
+
+    this.loggerService.log(
+      `Validator processing completed:` +
+        `\n  Index: ${validator.validatorIndex}` +
+        `\n  Proved: ${processedValidators > 0 ? 'yes' : 'no (skipped)'}` +
+        `\n  Total processing time: ${Date.now() - startTime}ms`,
     );
   }
 
@@ -1171,12 +1771,15 @@ export class ProverService implements OnModuleInit {
         return; // Return gracefully without throwing - don't trigger error_recovery alert
       }
 
-      const { finalizedStateView, provableFinalizedBlockHeader, ssz } = beaconState;
+      const { finalizedState, provableFinalizedBlockHeader } = beaconState;
       // Process all batches and accumulate validators in storage
-      await this.processBatches(batches, finalizedStateView, fromBlock, toBlock);
+      await this.processBatches(batches, finalizedState, fromBlock, toBlock);
+
+      // Sync reported validators up to the processed block, before proving eligible validators
+      await this.reconcileReportedValidators(fromBlock, toBlock);
 
       // Process eligible validators from storage
-      await this.processEligibleValidators(finalizedStateView, provableFinalizedBlockHeader, ssz, fromBlock, toBlock);
+      await this.processEligibleValidators(finalizedState, provableFinalizedBlockHeader, fromBlock, toBlock);
 
       this.loggerService.log(
         `[Blocks ${fromBlock}-${toBlock}] Block processing completed:` +
@@ -1193,48 +1796,53 @@ export class ProverService implements OnModuleInit {
     }
   }
 
+  /**
+   * Exit deadline thresholds of the node operators of the validators, batched per staking module
+   * @returns Map of module ID to the map of node operator ID to the threshold
+   */
+  private async getExitDeadlineThresholds(
+    validators: DecodedValidator[],
+    block: number,
+  ): Promise<Map<number, Map<number, number>>> {
+    const operatorsByModule = new Map<number, number[]>();
+    for (const { moduleId, nodeOpId } of validators) {
+      const nodeOpIds = operatorsByModule.get(Number(moduleId)) ?? [];
+      nodeOpIds.push(Number(nodeOpId));
+      operatorsByModule.set(Number(moduleId), nodeOpIds);
+    }
+
+    const thresholds = new Map<number, Map<number, number>>();
+    for (const [moduleId, nodeOpIds] of operatorsByModule) {
+      thresholds.set(moduleId, await this.getContractForModule(moduleId).exitDeadlineThresholds(nodeOpIds, block));
+    }
+    return thresholds;
+  }
+
   private async groupValidatorsByDeadlineSlot(
-    validators: ReturnType<typeof this.decodeValidatorsData>,
+    validators: DecodedValidator[],
     deliveredTimestamp: number,
-    stateView: any,
-    exitRequest: any,
+    finalizedState: State,
+    exitRequest: ExitRequestsResult,
     fromBlock: number,
     toBlock: number,
-  ): Promise<
-    Map<
-      number,
-      {
-        exitRequest: any;
-        validators: {
-          validator: ReturnType<typeof this.decodeValidatorsData>[0];
-          activationEpoch: number;
-          exitDeadlineEpoch: number;
-        }[];
-      }
-    >
-  > {
-    const validatorsByDeadlineSlot = new Map<
-      number,
-      {
-        exitRequest: any;
-        validators: {
-          validator: ReturnType<typeof this.decodeValidatorsData>[0];
-          activationEpoch: number;
-          exitDeadlineEpoch: number;
-        }[];
-      }
-    >();
+  ): Promise<Map<number, DeadlineGroup>> {
+    const validatorsByDeadlineSlot = new Map<number, DeadlineGroup>();
+    const exitDeadlineThresholds = await this.getExitDeadlineThresholds(validators, toBlock);
+    const stateValidators = await this.stateWorkers.getValidators(
+      finalizedState,
+      validators.map((validator) => Number(validator.validatorIndex)),
+    );
 
-    for (const validator of validators) {
+    for (const [i, validator] of validators.entries()) {
       const validatorIndex = Number(validator.validatorIndex);
-      const stateValidator = stateView.validators.getReadonly(validatorIndex);
+      const stateValidator = stateValidators[i];
       const activationEpoch = stateValidator.activationEpoch;
       const eligibleExitRequestTimestamp = this.getEligibleExitRequestTimestamp(deliveredTimestamp, activationEpoch);
       const withdrawableEpoch = stateValidator.withdrawableEpoch;
 
-      const exitDeadlineThreshold = await this.getContractForModule(Number(validator.moduleId)).exitDeadlineThreshold(
-        Number(validator.nodeOpId),
-      );
+      const exitDeadlineThreshold = exitDeadlineThresholds
+        .get(Number(validator.moduleId))!
+        .get(Number(validator.nodeOpId))!;
       const exitDeadline = eligibleExitRequestTimestamp + exitDeadlineThreshold;
       // this is the slot where validator must exit
       const exitDeadlineSlot = this.calculateSlotFromExitDeadline(exitDeadline);
@@ -1270,51 +1878,6 @@ export class ProverService implements OnModuleInit {
     return validatorsByDeadlineSlot;
   }
 
-  private decodeValidatorsData(encodedHex: string): {
-    exitDataIndex: number;
-    moduleId: bigint;
-    nodeOpId: bigint;
-    validatorIndex: bigint;
-    validatorPubkey: string;
-  }[] {
-    // Remove '0x' prefix if present
-    if (encodedHex.startsWith('0x')) {
-      encodedHex = encodedHex.slice(2);
-    }
-
-    const data = Buffer.from(encodedHex, 'hex');
-
-    const ENTRY_SIZE = 64;
-    const entries: {
-      exitDataIndex: number;
-      moduleId: bigint;
-      nodeOpId: bigint;
-      validatorIndex: bigint;
-      validatorPubkey: string;
-    }[] = [];
-
-    let exitDataIndex = 0;
-    for (let offset = 0; offset < data.length; offset += ENTRY_SIZE) {
-      const entry = data.subarray(offset, offset + ENTRY_SIZE);
-
-      const moduleId = BigInt('0x' + entry.subarray(0, 3).toString('hex'));
-      const nodeOpId = BigInt('0x' + entry.subarray(3, 8).toString('hex'));
-      const validatorIndex = BigInt('0x' + entry.subarray(8, 16).toString('hex'));
-      const validatorPubkey = '0x' + entry.subarray(16, 64).toString('hex');
-
-      entries.push({
-        exitDataIndex,
-        moduleId,
-        nodeOpId,
-        validatorIndex,
-        validatorPubkey,
-      });
-      exitDataIndex++;
-    }
-
-    return entries;
-  }
-
   private calcSummaryIndex(slot: number): number {
     const capellaForkSlot = this.consensus.epochToSlot(Number(this.consensus.beaconConfig.CAPELLA_FORK_EPOCH));
     const slotsPerHistoricalRoot = Number(this.consensus.beaconConfig.SLOTS_PER_HISTORICAL_ROOT);
@@ -1343,15 +1906,23 @@ export class ProverService implements OnModuleInit {
   /**
    * Find the next available (non-skipped) slot at or after the given slot
    * Beacon chain can have skipped slots where no block was proposed
+   * Lookups are shared by the deadline slots processed within a cycle
    *
    * @param startSlot The slot to start searching from
    * @param maxAttempts Maximum number of slots to try (default: 32, one epoch)
    * @returns The next available slot number and its header
    */
-  private async findNextAvailableSlot(
+  private findNextAvailableSlot(
     startSlot: number,
     maxAttempts: number = 32,
-  ): Promise<{ slot: number; header: any }> {
+  ): Promise<{ slot: number; header: BlockHeaderResponse }> {
+    return this.availableSlots.get(startSlot, () => this.searchNextAvailableSlot(startSlot, maxAttempts));
+  }
+
+  private async searchNextAvailableSlot(
+    startSlot: number,
+    maxAttempts: number,
+  ): Promise<{ slot: number; header: BlockHeaderResponse }> {
     let currentSlot = startSlot;
     let lastError: Error | undefined;
 
@@ -1383,49 +1954,286 @@ export class ProverService implements OnModuleInit {
   }
 
   /**
-   * Determines if a slot is considered "old" based on its distance from the current slot
-   * A slot is considered old if it's at least SLOTS_PER_HISTORICAL_ROOT slots behind the current slot
+   * Select the proof path of the slot by the EIP-4788 contract, the way the verifier reads the block root:
+   * the current path while the root is in the ring buffer, the historical path once the root rotated out
+   * The historical path is taken ahead of the rotation if the slot is already in the historical summaries.
+   * A root rotated out before its historical summary is finalized defers the slot to a later cycle
    */
-  private async isSlotOld(slot: number): Promise<boolean> {
-    try {
-      const currentHeader = await this.consensus.getBeaconHeader('head');
-      if (!currentHeader) {
-        throw new Error('Failed to get current beacon header');
-      }
+  private async selectProofPath(slot: number, rootsTimestamp: number, finalizedSlot: number): Promise<ProofPath> {
+    const { path, reason, root, slotsLeft, summarySlot, isSummarized } = await this.resolveProofPath(
+      slot,
+      rootsTimestamp,
+      finalizedSlot,
+    );
+    this.prometheus.proofPathCount.inc({ path, reason });
 
-      const currentSlot = Number(currentHeader.header.message.slot);
-      const distance = currentSlot - slot;
+    this.loggerService.log(
+      `Proof path of slot ${slot}: ${path}` +
+        `\n  Roots timestamp: ${rootsTimestamp}` +
+        `\n  Beacon root: ${root ?? 'not found'}` +
+        `\n  Slots left in the beacon roots buffer: ${Math.max(slotsLeft, 0)}` +
+        `\n  Summary slot: ${summarySlot}${isSummarized ? '' : ' (not finalized yet)'}`,
+    );
 
-      const slotsPerHistoricalRoot = Number(this.consensus.beaconConfig.SLOTS_PER_HISTORICAL_ROOT);
+    return path;
+  }
 
-      this.loggerService.debug?.(
-        `Checking if slot ${slot} is old:` +
-          `\n  Current slot: ${currentSlot}` +
-          `\n  Distance: ${distance}` +
-          `\n  Threshold: ${slotsPerHistoricalRoot}` +
-          `\n  Is old: ${distance >= slotsPerHistoricalRoot}`,
-      );
+  /**
+   * Proof path of the slot, with the state of its beacon root and historical summary it is selected by
+   */
+  private async resolveProofPath(
+    slot: number,
+    rootsTimestamp: number,
+    finalizedSlot: number,
+  ): Promise<{
+    path: ProofPath;
+    reason: string;
+    root?: string;
+    slotsLeft: number;
+    summarySlot: number;
+    isSummarized: boolean;
+  }> {
+    const root = await this.verifier.getParentBlockRoot(rootsTimestamp);
+    const summarySlot = this.calcSlotOfSummary(this.calcSummaryIndex(slot));
+    const isSummarized = summarySlot <= finalizedSlot;
+
+    const secondsPerSlot = Number(this.consensus.beaconConfig.SECONDS_PER_SLOT);
+    const expiresAt = rootsTimestamp + BEACON_ROOTS_HISTORY_LENGTH * secondsPerSlot;
+    const slotsLeft = Math.floor((expiresAt - Math.floor(Date.now() / 1000)) / secondsPerSlot);
+
+    let path: ProofPath;
+    let reason: string;
+    if (!root && !isSummarized) {
+      path = ProofPath.deferred;
+      reason = 'summary_not_finalized';
+    } else if (!root) {
+      path = ProofPath.historical;
+      reason = 'root_not_found';
+    } else if (slotsLeft < BEACON_ROOTS_EXPIRY_MARGIN_SLOTS && isSummarized) {
+      path = ProofPath.historical;
+      reason = 'root_expiring';
+    } else {
+      path = ProofPath.current;
+      reason = 'root_found';
+    }
 
-      return distance >= slotsPerHistoricalRoot;
-    } catch (error) {
-      this.loggerService.error(`Failed to determine if slot ${slot} is old: ${this.getErrorReference(error)}`);
-      throw error;
+    return { path, reason, root, slotsLeft, summarySlot, isSummarized };
+  }
+
+  /**
+   * Queue the proof of the batch for the submitter
+   * The transaction is emulated and estimated first, so rejected batches are handled while proving
+   */
+  private async queueBatch(proofBundle: ProofBundleContent): Promise<void> {
+    const bundle = this.proofBundles.create(proofBundle);
+    await this.execution.simulate(
+      async () => this.proofBundles.emulate(bundle),
+      async () => this.proofBundles.toTransaction(bundle),
+      this.proofBundles.toPayload(bundle),
+    );
+
+    const job = await this.submissionQueue.add(bundle);
+    this.prometheus.submissionJobsCount.inc({ status: 'queued' });
+    this.loggerService.log(
+      `📥 Proof queued for submission:` +
+        `\n  Job: ${job.id}` +
+        `\n  Method: ${bundle.method}` +
+        `\n  Validators: ${bundle.validatorWitnesses.length}` +
+        `\n  Jobs in queue: ${this.submissionQueue.size}`,
+    );
+  }
+
+  /**
+   * Proof bundle to send for the queued one, checked the way the proof path of a slot is selected:
+   * kept while its beacon root stays in the EIP-4788 window, regenerated against the finalized block
+   * once the root rotated out or is about to. Undefined while the proved block is not in the finalized
+   * historical summaries yet. The finalized block is shared by the proofs refreshed until `clearRefreshCache`
+   */
+  public async refreshProofBundle(bundle: ProofBundle): Promise<ProofBundle | undefined> {
+    const finalizedBlockHeader = await this.refreshBlocks.get('finalized', () =>
+      this.consensus.getBeaconHeader('finalized'),
+    );
+    const finalizedSlot = Number(finalizedBlockHeader.header.message.slot);
+
+    const { path, reason } = await this.resolveProofPath(bundle.slot, bundle.beaconBlock.rootsTimestamp, finalizedSlot);
+    if (path === ProofPath.current) {
+      return bundle;
     }
+    if (path === ProofPath.deferred) {
+      return undefined;
+    }
+
+    this.loggerService.warn(
+      `Beacon root of the queued proof ${reason === 'root_expiring' ? 'is about to leave' : 'left'} the EIP-4788 window:` +
+        `\n  Slot: ${bundle.slot}` +
+        `\n  Roots timestamp: ${bundle.beaconBlock.rootsTimestamp}`,
+    );
+    return await this.regenerateProofBundle(bundle, finalizedBlockHeader);
+  }
+
+  /**
+   * Release the finalized block and state shared by the refreshed proofs, called after each submitter round
+   */
+  public clearRefreshCache(): void {
+    this.refreshBlocks.clear();
+    this.refreshStates.clear();
   }
 
   /**
-   * Split validator witnesses into smaller batches to avoid oversized transactions
+   * Prove the block of the bundle against the finalized block through the historical summaries,
+   * the validator proofs against the block stay valid.
+   * The finalized state is shared by the proofs regenerated in the round, summary states with the daemon cycle
    */
-  private createValidatorBatches<T>(validators: T[]): T[][] {
-    const batchSize = this.validatorBatchSize;
-    const batches: T[][] = [];
+  private async regenerateProofBundle(
+    bundle: ProofBundle,
+    finalizedBlockHeader: BlockHeaderResponse,
+  ): Promise<ProofBundle> {
+    const block = bundle.oldBlock?.header ?? bundle.beaconBlock.header;
+    const slot = Number(block.slot);
+
+    const finalizedSlot = Number(finalizedBlockHeader.header.message.slot);
+    const summaryIndex = this.calcSummaryIndex(slot);
+    const summarySlot = this.calcSlotOfSummary(summaryIndex);
+
+    const finalizedState = await this.refreshStates.get(finalizedSlot, () => this.consensus.getState(finalizedSlot));
+    const summaryState = await this.loadSummaryState(summarySlot);
+    const proof = await this.stateWorkers.getHistoricalProof(
+      finalizedState,
+      summaryState,
+      summaryIndex,
+      this.calcRootIndexInSummary(slot),
+    );
 
-    for (let i = 0; i < validators.length; i += batchSize) {
-      const batch = validators.slice(i, i + batchSize);
-      batches.push(batch);
+    const content: ProofBundleContent = {
+      method: ProofBundleMethod.VerifyHistoricalValidatorExitDelay,
+      exitRequestsHash: bundle.exitRequestsHash,
+      forkName: bundle.forkName,
+      beaconBlock: {
+        header: {
+          slot: finalizedSlot,
+          proposerIndex: Number(finalizedBlockHeader.header.message.proposer_index),
+          parentRoot: finalizedBlockHeader.header.message.parent_root,
+          stateRoot: finalizedBlockHeader.header.message.state_root,
+          bodyRoot: finalizedBlockHeader.header.message.body_root,
+        },
+        rootsTimestamp: this.calcRootsTimestamp(finalizedSlot),
+      },
+      oldBlock: { header: block, proof },
+      validatorWitnesses: bundle.validatorWitnesses,
+      exitRequests: bundle.exitRequests,
+    };
+    await this.proofVerifier.verify(content);
+    await this.proofBundles.export(content);
+
+    this.loggerService.log(
+      `🔁 Proof regenerated against the finalized block:` +
+        `\n  Slot: ${slot}` +
+        `\n  Finalized slot: ${finalizedSlot}` +
+        `\n  Validators: ${bundle.validatorWitnesses.length}`,
+    );
+    return this.proofBundles.create(content);
+  }
+
+  /**
+   * Handle the batch rejected by the transaction limits or by the verifier emulation:
+   * - too large for a transaction, or failed by a single validator: the batch is split in halves (bisected)
+   * - too expensive for TX_BUDGET_PER_TX_ETH: the batch is bisected, a single validator waits for the next cycle
+   * - failed by a single validator and not splittable: the validator is quarantined for the exit request,
+   *   at the slot only if the error depends on it. CLI runs skip the validator without quarantining it
+   * - failed as a whole: the batch is skipped, its validators stay in the queue for the next cycle
+   * The batch is replaced by its halves or removed, false if the error has to fail the cycle.
+   * Queued proofs rejected when sent by the submitter are handled the same way
+   */
+  public async handleRejectedBatch(
+    batches: ValidatorWitness[][],
+    index: number,
+    error: unknown,
+    method: ProofBundleMethod,
+    exitRequestsHash: string,
+    slot: number,
+  ): Promise<boolean> {
+    const batch = batches[index];
+    if (error instanceof GasLimitExceededError || error instanceof TransactionSizeExceededError) {
+      return batch.length > 1 && this.splitRejectedBatch(batches, index, method, 'too large for a transaction');
+    }
+    if (error instanceof TransactionBudgetExceededError) {
+      if (batch.length > 1) {
+        return this.splitRejectedBatch(batches, index, method, 'over the per transaction spending budget');
+      }
+      this.failedBatches.add(batch[0].pubkey);
+      batches.splice(index, 1);
+      this.loggerService.warn(
+        `Validator skipped, its transaction exceeds TX_BUDGET_PER_TX_ETH at the current fees:` +
+          `\n  Public key: ${batch[0].pubkey}` +
+          `\n  Slot: ${slot}` +
+          `\n  Validator is proved again in the next cycle`,
+      );
+      return true;
+    }
+    if (!(error instanceof EmulatedCallError)) {
+      return false;
     }
 
-    return batches;
+    const revert = decodeRevert(error.callError);
+    this.prometheus.verifierRevertsCount.inc({ error: revert.name, scope: revert.scope });
+
+    if (revert.scope === RevertScope.validator || revert.scope === RevertScope.slot) {
+      if (batch.length > 1) {
+        return this.splitRejectedBatch(batches, index, method, `rejected by the verifier with ${revert.name}`);
+      }
+
+      batches.splice(index, 1);
+      // CLI runs share the storage with the daemon and may prove at any slot, the validator is only skipped
+      if (this.config.get('WORKING_MODE') === WorkingMode.CLI) {
+        this.loggerService.warn(
+          `Validator skipped, the verifier rejected it:` +
+            `\n  Public key: ${batch[0].pubkey}` +
+            `\n  Slot: ${slot}` +
+            `\n  Reason: ${revert.name}(${revert.args.join(', ')})`,
+        );
+        return true;
+      }
+
+      const quarantined = await this.quarantinedValidators.add(batch[0], exitRequestsHash, slot, revert);
+      this.loggerService.warn(
+        `Validator quarantined, the verifier rejected it:` +
+          `\n  Public key: ${quarantined.pubkey}` +
+          `\n  Module: ${quarantined.moduleId}` +
+          `\n  Node operator: ${quarantined.nodeOpId}` +
+          `\n  Exit request: ${quarantined.exitRequestsHash}` +
+          `\n  Slot: ${slot}` +
+          `\n  Reason: ${quarantined.reason}` +
+          `\n  Until: ${quarantined.expiresAt !== undefined ? new Date(quarantined.expiresAt).toISOString() : 'removed from the store'}`,
+      );
+      return true;
+    }
+
+    if (revert.scope === RevertScope.batch) {
+      batch.forEach((witness) => this.failedBatches.add(witness.pubkey));
+      batches.splice(index, 1);
+      this.loggerService.error(
+        `Batch ${index + 1} skipped, the verifier rejected it:` +
+          `\n  Validators: ${batch.length}` +
+          `\n  Slot: ${slot}` +
+          `\n  Reason: ${revert.name}(${revert.args.join(', ')})` +
+          `\n  Validators are proved again in the next cycle`,
+      );
+      return true;
+    }
+
+    return false;
+  }
+
+  private splitRejectedBatch<T>(batches: T[][], index: number, method: ProofBundleMethod, reason: string): boolean {
+    const batch = batches[index];
+    const halves = splitBatch(batch);
+    batches.splice(index, 1, ...halves);
+    this.prometheus.batchSplitsCount.inc({ method });
+    this.loggerService.warn(
+      `Batch ${index + 1} of ${batch.length} validators is ${reason}, ` +
+        `split into ${halves[0].length} and ${halves[1].length}`,
+    );
+    return true;
   }
 
   /**
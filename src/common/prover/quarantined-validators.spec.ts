@@ -0,0 +1,83 @@
+import { QuarantinedValidators } from './quarantined-validators';
+import { ValidatorWitness } from '../contracts/types';
+import { RevertScope } from '../contracts/verifier-errors';
+
+const FIRST_REQUEST = '0x' + 'aa'.repeat(32);
+const SECOND_REQUEST = '0x' + 'bb'.repeat(32);
+
+const pubkey = (index: number) => `0x${index.toString(16).padStart(96, '0')}`;
+
+const witness = (index: number) => ({ pubkey: pubkey(index), moduleId: 1, nodeOpId: 2 }) as unknown as ValidatorWitness;
+
+const validatorRevert = { name: 'ExitDataIndexOutOfRange', args: [], scope: RevertScope.validator };
+const slotRevert = { name: 'ValidatorExitDelayNotApplicable', args: [], scope: RevertScope.slot };
+
+async function createQuarantine() {
+  const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  const store = { data: undefined as any, write: jest.fn() };
+  const storage = {
+    open: jest.fn(async (_name: string, data: any) => {
+      store.data = data;
+      return store;
+    }),
+  };
+  const prometheus = { quarantinedValidatorsCount: { set: jest.fn() } };
+
+  const quarantine = new QuarantinedValidators(logger, storage as any, prometheus as any);
+  await quarantine.restore();
+  return { quarantine, store };
+}
+
+describe('QuarantinedValidators', () => {
+  it('releases the validator for the exit request', async () => {
+    const { quarantine, store } = await createQuarantine();
+    await quarantine.add(witness(1), FIRST_REQUEST, 100, validatorRevert);
+    await quarantine.add(witness(1), SECOND_REQUEST, 100, validatorRevert);
+
+    const released = await quarantine.release(pubkey(1), FIRST_REQUEST);
+
+    expect(released).toEqual([expect.objectContaining({ exitRequestsHash: FIRST_REQUEST })]);
+    expect(quarantine.get(pubkey(1), FIRST_REQUEST, 100)).toBeUndefined();
+    expect(quarantine.get(pubkey(1), SECOND_REQUEST, 100)).toBeDefined();
+    expect(store.data.validators).toHaveLength(1);
+  });
+
+  it('releases the validator for all exit requests', async () => {
+    const { quarantine } = await createQuarantine();
+    await quarantine.add(witness(1), FIRST_REQUEST, 100, validatorRevert);
+    await quarantine.add(witness(1), SECOND_REQUEST, 100, validatorRevert);
+    await quarantine.add(witness(2), FIRST_REQUEST, 100, validatorRevert);
+
+    await expect(quarantine.release(pubkey(1))).resolves.toHaveLength(2);
+    await expect(quarantine.release(pubkey(1))).resolves.toEqual([]);
+    expect(quarantine.size).toBe(1);
+  });
+
+  it('prunes the quarantines of exit requests left the deadline queue', async () => {
+    const { quarantine, store } = await createQuarantine();
+    await quarantine.add(witness(1), FIRST_REQUEST, 100, validatorRevert);
+    await quarantine.add(witness(2), SECOND_REQUEST, 100, validatorRevert);
+    store.write.mockClear();
+
+    await quarantine.prune(new Set([SECOND_REQUEST]));
+
+    expect(quarantine.get(pubkey(1), FIRST_REQUEST, 100)).toBeUndefined();
+    expect(quarantine.get(pubkey(2), SECOND_REQUEST, 100)).toBeDefined();
+    expect(store.write).toHaveBeenCalledTimes(1);
+  });
+
+  it('prunes expired slot quarantines', async () => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+    try {
+      const { quarantine } = await createQuarantine();
+      await quarantine.add(witness(1), FIRST_REQUEST, 100, slotRevert);
+
+      jest.advanceTimersByTime(24 * 60 * 60 * 1000);
+      await quarantine.prune(new Set([FIRST_REQUEST]));
+
+      expect(quarantine.size).toBe(0);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
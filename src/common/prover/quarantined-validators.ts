@@ -0,0 +1,160 @@
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { Inject, Injectable, LoggerService } from '@nestjs/common';
+
+import { ValidatorWitness } from '../contracts/types';
+import { DecodedRevert, RevertScope } from '../contracts/verifier-errors';
+import { PrometheusService } from '../prometheus/prometheus.service';
+import { StorageService, Store } from '../storage';
+
+// Validators rejected at the proved slot are proved at the same slot again after a day
+const SLOT_QUARANTINE_DURATION_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Validator rejected by the verifier on its own, it is not proved again for the exit request
+ */
+export interface QuarantinedValidator {
+  pubkey: string;
+  moduleId: number;
+  nodeOpId: number;
+  exitRequestsHash: string;
+  // Slot of the beacon block the validator was proved against
+  slot: number;
+  // Decoded verifier error, e.g. `ExitIsNotEligibleOnProvableBeaconBlock(100, 200)`
+  reason: string;
+  quarantinedAt: number;
+  // Set for errors of the proved slot: the validator is skipped at that slot only, until the expiry
+  expiresAt?: number;
+}
+
+interface QuarantinedValidatorsData {
+  validators: QuarantinedValidator[];
+}
+
+/**
+ * Validators whose proofs were rejected by the verifier with an error of the validator itself,
+ * backed by persistent storage. Validators are quarantined per exit request until released with the
+ * `release-validator` command, or until the exit request leaves the deadline queue
+ */
+@Injectable()
+export class QuarantinedValidators {
+  private readonly validators = new Map<string, QuarantinedValidator>();
+  private store: Store<QuarantinedValidatorsData>;
+
+  constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly storage: StorageService,
+    protected readonly prometheus: PrometheusService,
+  ) {}
+
+  public async restore(): Promise<void> {
+    this.store = await this.storage.open<QuarantinedValidatorsData>('quarantined-validators', { validators: [] });
+
+    this.validators.clear();
+    this.store.data.validators
+      .filter((validator) => !this.isExpired(validator))
+      .forEach((validator) => this.validators.set(this.key(validator.pubkey, validator.exitRequestsHash), validator));
+    await this.save();
+
+    if (this.validators.size > 0) {
+      this.logger.warn(`Quarantined validators restored from storage: ${this.validators.size}`);
+    }
+  }
+
+  public get size(): number {
+    return this.validators.size;
+  }
+
+  /**
+   * Quarantine of the validator proved for the exit request at the slot
+   */
+  public get(pubkey: string, exitRequestsHash: string, slot: number): QuarantinedValidator | undefined {
+    const validator = this.validators.get(this.key(pubkey, exitRequestsHash));
+    if (!validator || (validator.expiresAt !== undefined && (validator.slot !== slot || this.isExpired(validator)))) {
+      return undefined;
+    }
+    return validator;
+  }
+
+  /**
+   * Whether the validator is quarantined at a slot until the expiry, it is proved again after it
+   */
+  public isRetried(pubkey: string): boolean {
+    const key = pubkey.toLowerCase();
+    return Array.from(this.validators.values()).some(
+      (validator) => validator.pubkey === key && validator.expiresAt !== undefined && !this.isExpired(validator),
+    );
+  }
+
+  public async add(
+    witness: ValidatorWitness,
+    exitRequestsHash: string,
+    slot: number,
+    revert: DecodedRevert,
+  ): Promise<QuarantinedValidator> {
+    const quarantinedAt = Date.now();
+    const validator: QuarantinedValidator = {
+      pubkey: witness.pubkey.toLowerCase(),
+      moduleId: Number(witness.moduleId),
+      nodeOpId: Number(witness.nodeOpId),
+      exitRequestsHash: exitRequestsHash.toLowerCase(),
+      slot,
+      reason: `${revert.name}(${revert.args.join(', ')})`,
+      quarantinedAt,
+      expiresAt: revert.scope === RevertScope.slot ? quarantinedAt + SLOT_QUARANTINE_DURATION_MS : undefined,
+    };
+    this.validators.set(this.key(validator.pubkey, validator.exitRequestsHash), validator);
+    await this.save();
+    return validator;
+  }
+
+  /**
+   * Release the validator from the quarantine of the exit request, or of all exit requests if not set
+   * @returns Released quarantines
+   */
+  public async release(pubkey: string, exitRequestsHash?: string): Promise<QuarantinedValidator[]> {
+    const released = Array.from(this.validators.values()).filter(
+      (validator) =>
+        validator.pubkey === pubkey.toLowerCase() &&
+        (exitRequestsHash === undefined || validator.exitRequestsHash === exitRequestsHash.toLowerCase()),
+    );
+    if (released.length > 0) {
+      released.forEach((validator) => this.validators.delete(this.key(validator.pubkey, validator.exitRequestsHash)));
+      await this.save();
+    }
+    return released;
+  }
+
+  /**
+   * Drop the quarantines of exit requests no longer in the deadline queue, they are not proved anymore
+   */
+  public async prune(queuedExitRequests: Set<string>): Promise<void> {
+    const pruned = Array.from(this.validators.values()).filter(
+      (validator) => this.isExpired(validator) || !queuedExitRequests.has(validator.exitRequestsHash),
+    );
+    if (pruned.length === 0) {
+      return;
+    }
+
+    pruned.forEach((validator) => this.validators.delete(this.key(validator.pubkey, validator.exitRequestsHash)));
+    await this.save();
+    this.logger.log(`Quarantined validators pruned: ${pruned.length}, remaining: ${this.validators.size}`);
+  }
+
+  private key(pubkey: string, exitRequestsHash: string): string {
+    return `${pubkey.toLowerCase()}:${exitRequestsHash.toLowerCase()}`;
+  }
+
+  private isExpired(validator: QuarantinedValidator): boolean {
+    return validator.expiresAt !== undefined && validator.expiresAt <= Date.now();
+  }
+
+  private async save(): Promise<void> {
+    this.store.data.validators = Array.from(this.validators.values());
+    await this.store.write();
+    this.updateMetrics();
+  }
+
+  private updateMetrics(): void {
+    this.prometheus.quarantinedValidatorsCount.set(this.validators.size);
+  }
+}
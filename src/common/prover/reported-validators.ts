@@ -0,0 +1,143 @@
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { Inject, Injectable, LoggerService } from '@nestjs/common';
+
+import { StakingRouterContract } from '../contracts/staking-router.service';
+import { PrometheusService } from '../prometheus/prometheus.service';
+import { StorageService, Store } from '../storage';
+
+interface ReportedValidatorsData {
+  // Last block scanned for exit delay reports emitted by staking modules
+  lastScannedBlock: number | null;
+  // Validators whose exit delay report was observed on-chain
+  confirmed: string[];
+  // Validators reported by this bot, whose report was not observed on-chain yet
+  pending: string[];
+}
+
+/**
+ * Validators with already reported exit delay, backed by persistent storage.
+ * Reconciled from the exit delay events of the staking modules, so the set survives restarts
+ * and includes reports submitted by anyone else
+ */
+@Injectable()
+export class ReportedValidators {
+  // Blocks scanned before the progress is persisted, eth_getLogs windows are adapted by LogScanner
+  private static readonly CHECKPOINT_RANGE_SIZE = 10000;
+
+  private readonly confirmed = new Set<string>();
+  private readonly pending = new Set<string>();
+  private store: Store<ReportedValidatorsData>;
+
+  constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly storage: StorageService,
+    protected readonly stakingRouter: StakingRouterContract,
+    protected readonly prometheus: PrometheusService,
+  ) {}
+
+  public async restore(): Promise<void> {
+    this.store = await this.storage.open<ReportedValidatorsData>('reported-validators', {
+      lastScannedBlock: null,
+      confirmed: [],
+      pending: [],
+    });
+
+    this.confirmed.clear();
+    this.pending.clear();
+    this.store.data.confirmed.forEach((pubkey) => this.confirmed.add(pubkey));
+    this.store.data.pending.forEach((pubkey) => this.pending.add(pubkey));
+    this.updateMetrics();
+
+    this.logger.log(
+      `Reported validators restored from storage:` +
+        `\n  Confirmed: ${this.confirmed.size}` +
+        `\n  Pending: ${this.pending.size}` +
+        `\n  Last scanned block: ${this.store.data.lastScannedBlock ?? 'none'}`,
+    );
+  }
+
+  /**
+   * Scan staking modules for exit delay reports up to `toBlock`.
+   * Continues from the last scanned block, `startBlock` is used only on the first run
+   */
+  public async reconcile(startBlock: number, toBlock: number): Promise<void> {
+    const lastScannedBlock = this.store.data.lastScannedBlock;
+    const fromBlock = lastScannedBlock !== null ? lastScannedBlock + 1 : startBlock;
+    if (fromBlock > toBlock) {
+      return;
+    }
+
+    const startTime = Date.now();
+    const modules = Array.from(this.stakingRouter.getStakingModuleContracts().values());
+    let found = 0;
+
+    for (let from = fromBlock; from <= toBlock; from += ReportedValidators.CHECKPOINT_RANGE_SIZE) {
+      const to = Math.min(from + ReportedValidators.CHECKPOINT_RANGE_SIZE - 1, toBlock);
+      for (const module of modules) {
+        const pubkeys = await module.getExitDelayReportedPubkeys(from, to);
+        for (const pubkey of pubkeys) {
+          this.confirmed.add(pubkey);
+          this.pending.delete(pubkey);
+        }
+        found += pubkeys.length;
+      }
+      // Persist progress after each range, so an interrupted scan is not started over
+      this.store.data.lastScannedBlock = to;
+      await this.save();
+    }
+
+    this.logger.log(
+      `Reported validators reconciled:` +
+        `\n  Blocks: ${fromBlock}-${toBlock}` +
+        `\n  Staking modules: ${modules.length}` +
+        `\n  Reports found: ${found}` +
+        `\n  Confirmed: ${this.confirmed.size}` +
+        `\n  Pending: ${this.pending.size}` +
+        `\n  Duration: ${Date.now() - startTime}ms`,
+    );
+  }
+
+  public get size(): number {
+    return this.confirmed.size + this.pending.size;
+  }
+
+  /**
+   * Whether the validator exit delay report was observed on-chain
+   */
+  public isConfirmed(pubkey: string): boolean {
+    return this.confirmed.has(pubkey.toLowerCase());
+  }
+
+  /**
+   * Whether the validator was reported by this bot, but the report was not observed on-chain yet
+   */
+  public isPending(pubkey: string): boolean {
+    return this.pending.has(pubkey.toLowerCase());
+  }
+
+  public async markPending(pubkeys: string[]): Promise<void> {
+    for (const pubkey of pubkeys) {
+      if (!this.isConfirmed(pubkey)) {
+        this.pending.add(pubkey.toLowerCase());
+      }
+    }
+    await this.save();
+  }
+
+  public async forget(pubkey: string): Promise<void> {
+    this.pending.delete(pubkey.toLowerCase());
+    await this.save();
+  }
+
+  private async save(): Promise<void> {
+    this.store.data.confirmed = Array.from(this.confirmed);
+    this.store.data.pending = Array.from(this.pending);
+    await this.store.write();
+    this.updateMetrics();
+  }
+
+  private updateMetrics(): void {
+    this.prometheus.reportedValidatorsCount.set({ status: 'confirmed' }, this.confirmed.size);
+    this.prometheus.reportedValidatorsCount.set({ status: 'pending' }, this.pending.size);
+  }
+}
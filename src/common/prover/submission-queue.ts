@@ -0,0 +1,116 @@
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { Inject, Injectable, LoggerService } from '@nestjs/common';
+
+import { ProofBundle, ProofBundles } from './proof-bundles';
+import { ConfigService } from '../config/config.service';
+import { WorkingMode } from '../config/env.validation';
+import { PrometheusService } from '../prometheus/prometheus.service';
+import { StorageService, Store } from '../storage';
+
+/**
+ * Proof ready to be sent, waiting for acceptable gas fees
+ */
+export interface SubmissionJob {
+  // Id of the bundle the job was queued with, kept when the proof is regenerated
+  id: string;
+  bundle: ProofBundle;
+  queuedAt: number;
+  // Proof regenerations against a newer finalized block, after the beacon root left the EIP-4788 window
+  regenerations: number;
+  // Failed attempts in a row, the job is not sent again before `retryAt`
+  failures: number;
+  retryAt?: number;
+}
+
+interface SubmissionQueueData {
+  jobs: SubmissionJob[];
+}
+
+/**
+ * Proofs generated by the prover and waiting to be sent by the submitter, backed by persistent storage.
+ * Jobs are sent in the order they were queued
+ */
+@Injectable()
+export class SubmissionQueue {
+  // Validators of the queued jobs
+  private readonly pubkeys = new Set<string>();
+  private store: Store<SubmissionQueueData>;
+
+  constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly config: ConfigService,
+    protected readonly storage: StorageService,
+    protected readonly proofBundles: ProofBundles,
+    protected readonly prometheus: PrometheusService,
+  ) {}
+
+  public async restore(): Promise<void> {
+    this.store = await this.storage.open<SubmissionQueueData>('submission-queue', { jobs: [] });
+    this.update();
+
+    if (this.size > 0) {
+      this.logger.log(`Submission queue restored from storage: ${this.size} jobs, ${this.pubkeys.size} validators`);
+    }
+  }
+
+  /**
+   * Proofs are queued in the daemon mode only, the CLI sends them right away
+   */
+  public get enabled(): boolean {
+    return this.config.get('SUBMISSION_QUEUE_ENABLED') && this.config.get('WORKING_MODE') === WorkingMode.Daemon;
+  }
+
+  public get size(): number {
+    return this.store.data.jobs.length;
+  }
+
+  public get jobs(): SubmissionJob[] {
+    return [...this.store.data.jobs];
+  }
+
+  public has(pubkey: string): boolean {
+    return this.pubkeys.has(pubkey.toLowerCase());
+  }
+
+  public async add(bundle: ProofBundle): Promise<SubmissionJob> {
+    const job: SubmissionJob = {
+      id: this.proofBundles.getId(bundle),
+      bundle,
+      queuedAt: Date.now(),
+      regenerations: 0,
+      failures: 0,
+    };
+    this.store.data.jobs.push(job);
+    await this.save();
+    return job;
+  }
+
+  /**
+   * Replace the job by the jobs of the bundles, in its place in the queue
+   */
+  public async replace(id: string, jobs: SubmissionJob[]): Promise<void> {
+    const index = this.store.data.jobs.findIndex((job) => job.id === id);
+    if (index === -1) {
+      return;
+    }
+    this.store.data.jobs.splice(index, 1, ...jobs);
+    await this.save();
+  }
+
+  public async remove(id: string): Promise<void> {
+    await this.replace(id, []);
+  }
+
+  private async save(): Promise<void> {
+    await this.store.write();
+    this.update();
+  }
+
+  private update(): void {
+    this.pubkeys.clear();
+    for (const { bundle } of this.store.data.jobs) {
+      bundle.validatorWitnesses.forEach((witness) => this.pubkeys.add(witness.pubkey.toLowerCase()));
+    }
+    this.prometheus.submissionQueueSize.set(this.size);
+  }
+}
@@ -0,0 +1,207 @@
+import { ProofBundle } from './proof-bundles';
+import { SubmissionQueue } from './submission-queue';
+import { Submitter } from './submitter';
+import { WorkingMode } from '../config/env.validation';
+import { HighGasFeeError } from '../providers/execution/execution';
+
+// The prover and the execution provider load the consensus and network stacks, only their interfaces are used here
+jest.mock('./prover.service', () => ({ ProverService: class {} }));
+jest.mock('../providers/execution/execution', () => ({
+  Execution: class {},
+  HighGasFeeError: class extends Error {},
+  SpendingBudgetError: class extends Error {},
+}));
+
+const SUBMISSION_INTERVAL_MS = 60_000;
+
+const createBundle = (slot: number, validators: number[]): ProofBundle =>
+  ({
+    method: 'verifyValidatorExitDelay',
+    slot,
+    exitRequestsHash: '0x' + 'aa'.repeat(32),
+    beaconBlock: { header: { slot }, rootsTimestamp: 1_700_000_000 + slot * 12 },
+    validatorWitnesses: validators.map((index) => ({ pubkey: `0x${index.toString(16).padStart(96, '0')}` })),
+  }) as unknown as ProofBundle;
+
+const getId = (bundle: ProofBundle) =>
+  `${bundle.slot}:${bundle.validatorWitnesses.map((witness) => witness.pubkey.slice(-2)).join(',')}`;
+
+async function createSubmitter() {
+  const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  const config = {
+    get: jest.fn(
+      (key: string) =>
+        ({
+          SUBMISSION_INTERVAL_MS,
+          SUBMISSION_QUEUE_ENABLED: true,
+          WORKING_MODE: WorkingMode.Daemon,
+        })[key],
+    ),
+  };
+  const storage = { open: jest.fn(async (_name: string, data: any) => ({ data, write: jest.fn() })) };
+  const proofBundles = {
+    getId: jest.fn(getId),
+    emulate: jest.fn(),
+    toTransaction: jest.fn(),
+    toPayload: jest.fn((bundle: ProofBundle) => [bundle]),
+  };
+  const prover = {
+    refreshProofBundle: jest.fn(async (bundle: ProofBundle): Promise<ProofBundle | undefined> => bundle),
+    handleRejectedBatch: jest.fn<Promise<boolean>, any[]>(async () => false),
+    clearRefreshCache: jest.fn(),
+  };
+  const execution = { submit: jest.fn<Promise<any>, any[]>(async () => undefined) };
+  const reportedValidators = { markPending: jest.fn() };
+  const batchPlanner = { calibrate: jest.fn() };
+  const prometheus = { submissionJobsCount: { inc: jest.fn() }, submissionQueueSize: { set: jest.fn() } };
+
+  const queue = new SubmissionQueue(logger, config as any, storage as any, proofBundles as any, prometheus as any);
+  await queue.restore();
+  const submitter = new Submitter(
+    logger,
+    config as any,
+    queue,
+    proofBundles as any,
+    prover as any,
+    execution as any,
+    reportedValidators as any,
+    batchPlanner as any,
+    prometheus as any,
+  );
+  // Payload the execution provider was called with, for each sent transaction
+  const sent = () => execution.submit.mock.calls.map(([, , payload]) => payload[0] as ProofBundle);
+
+  return { submitter, queue, prover, execution, prometheus, sent };
+}
+
+describe('Submitter.drain', () => {
+  it('sends the queued jobs in order and removes them from the queue', async () => {
+    const { submitter, queue, prover, sent } = await createSubmitter();
+    const first = await queue.add(createBundle(100, [1, 2]));
+    const second = await queue.add(createBundle(101, [3]));
+
+    await submitter.drain();
+
+    expect(sent()).toEqual([first.bundle, second.bundle]);
+    expect(queue.size).toBe(0);
+    expect(prover.clearRefreshCache).toHaveBeenCalledTimes(1);
+  });
+
+  it('sends the regenerated proof and keeps the job id', async () => {
+    const { submitter, queue, prover, execution, prometheus, sent } = await createSubmitter();
+    const job = await queue.add(createBundle(100, [1, 2]));
+    const regenerated = createBundle(200, [1, 2]);
+    prover.refreshProofBundle.mockResolvedValueOnce(regenerated);
+    let queued: unknown;
+    execution.submit.mockImplementationOnce(async () => {
+      queued = queue.jobs[0];
+      return undefined;
+    });
+
+    await submitter.drain();
+
+    expect(sent()).toEqual([regenerated]);
+    expect(queued).toMatchObject({ id: job.id, bundle: regenerated, regenerations: 1 });
+    expect(prometheus.submissionJobsCount.inc).toHaveBeenCalledWith({ status: 'regenerated' });
+    expect(queue.size).toBe(0);
+  });
+
+  it('keeps the job while its proof waits for the historical summary', async () => {
+    const { submitter, queue, prover, execution } = await createSubmitter();
+    const job = await queue.add(createBundle(100, [1, 2]));
+    prover.refreshProofBundle.mockResolvedValueOnce(undefined);
+
+    await submitter.drain();
+
+    expect(execution.submit).not.toHaveBeenCalled();
+    expect(queue.jobs).toEqual([job]);
+  });
+
+  it('replaces a rejected job by the validators kept by the prover', async () => {
+    const { submitter, queue, prover, execution, prometheus } = await createSubmitter();
+    const job = await queue.add(createBundle(100, [1, 2, 3]));
+    const error = new Error('execution reverted');
+    execution.submit.mockRejectedValueOnce(error);
+    prover.handleRejectedBatch.mockImplementationOnce(async (batches: unknown[][]) => {
+      batches.splice(0, 1, [job.bundle.validatorWitnesses[0]], [job.bundle.validatorWitnesses[2]]);
+      return true;
+    });
+
+    await submitter.drain();
+
+    expect(prover.handleRejectedBatch).toHaveBeenCalledWith(
+      [expect.any(Array), expect.any(Array)],
+      0,
+      error,
+      job.bundle.method,
+      job.bundle.exitRequestsHash,
+      job.bundle.slot,
+    );
+    expect(queue.jobs.map(({ id, failures }) => ({ id, failures }))).toEqual([
+      { id: '100:01', failures: 0 },
+      { id: '100:03', failures: 0 },
+    ]);
+    expect(prometheus.submissionJobsCount.inc).toHaveBeenCalledWith({ status: 'split' });
+  });
+
+  it('drops a job rejected as a whole', async () => {
+    const { submitter, queue, prover, execution, prometheus } = await createSubmitter();
+    await queue.add(createBundle(100, [1, 2]));
+    execution.submit.mockRejectedValueOnce(new Error('execution reverted'));
+    prover.handleRejectedBatch.mockImplementationOnce(async (batches: unknown[][]) => {
+      batches.splice(0, 1);
+      return true;
+    });
+
+    await submitter.drain();
+
+    expect(queue.size).toBe(0);
+    expect(queue.has(`0x${'1'.padStart(96, '0')}`)).toBe(false);
+    expect(prometheus.submissionJobsCount.inc).toHaveBeenCalledWith({ status: 'dropped' });
+  });
+
+  it('retries a failed job with a backoff and sends the jobs behind it', async () => {
+    const { submitter, queue, execution, sent } = await createSubmitter();
+    const failed = await queue.add(createBundle(100, [1]));
+    const next = await queue.add(createBundle(101, [2]));
+    execution.submit.mockRejectedValueOnce(new Error('nonce too low'));
+
+    await submitter.drain();
+
+    expect(sent()).toEqual([failed.bundle, next.bundle]);
+    expect(queue.jobs).toEqual([expect.objectContaining({ id: failed.id, failures: 1, retryAt: expect.any(Number) })]);
+    const [{ retryAt }] = queue.jobs;
+    expect(retryAt! - Date.now()).toBeGreaterThan(SUBMISSION_INTERVAL_MS - 1_000);
+    expect(retryAt! - Date.now()).toBeLessThanOrEqual(SUBMISSION_INTERVAL_MS);
+
+    // The job is skipped until its retry time
+    await submitter.drain();
+    expect(execution.submit).toHaveBeenCalledTimes(2);
+  });
+
+  it('doubles the retry delay on each failure in a row', async () => {
+    const { submitter, queue, execution } = await createSubmitter();
+    const job = await queue.add(createBundle(100, [1]));
+    await queue.replace(job.id, [{ ...job, failures: 2, retryAt: Date.now() - 1 }]);
+    execution.submit.mockRejectedValueOnce(new Error('nonce too low'));
+
+    await submitter.drain();
+
+    const [{ failures, retryAt }] = queue.jobs;
+    expect(failures).toBe(3);
+    expect(retryAt! - Date.now()).toBeGreaterThan(4 * SUBMISSION_INTERVAL_MS - 1_000);
+  });
+
+  it('stops the round once the gas fee defers a job', async () => {
+    const { submitter, queue, prover, execution, prometheus } = await createSubmitter();
+    const jobs = [await queue.add(createBundle(100, [1])), await queue.add(createBundle(101, [2]))];
+    execution.submit.mockRejectedValueOnce(new HighGasFeeError('Gas fee is too high'));
+
+    await submitter.drain();
+
+    expect(execution.submit).toHaveBeenCalledTimes(1);
+    expect(queue.jobs).toEqual(jobs);
+    expect(prover.clearRefreshCache).toHaveBeenCalledTimes(1);
+    expect(prometheus.submissionJobsCount.inc).toHaveBeenCalledWith({ status: 'deferred' });
+  });
+});
@@ -0,0 +1,192 @@
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { Inject, Injectable, LoggerService, OnModuleDestroy } from '@nestjs/common';
+
+import { BatchPlanner } from './batch-planner';
+import { ProofBundles } from './proof-bundles';
+import { ProverService } from './prover.service';
+import { ReportedValidators } from './reported-validators';
+import { SubmissionJob, SubmissionQueue } from './submission-queue';
+import { ConfigService } from '../config/config.service';
+import { serializeError } from '../logger/safe-error-format';
+import { PrometheusService } from '../prometheus/prometheus.service';
+import { Execution, HighGasFeeError, SpendingBudgetError } from '../providers/execution/execution';
+
+/**
+ * Drains the submission queue every SUBMISSION_INTERVAL_MS, independently of the daemon cycles.
+ * Jobs are sent one by one while gas fees and spending budgets allow, the rest wait for the next round.
+ * A failed job is retried with a backoff and does not hold the jobs behind it
+ */
+@Injectable()
+export class Submitter implements OnModuleDestroy {
+  private static readonly MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+  private running = false;
+  private stopped = false;
+  private timer?: NodeJS.Timeout;
+
+  constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly config: ConfigService,
+    protected readonly queue: SubmissionQueue,
+    protected readonly proofBundles: ProofBundles,
+    protected readonly prover: ProverService,
+    protected readonly execution: Execution,
+    protected readonly reportedValidators: ReportedValidators,
+    protected readonly batchPlanner: BatchPlanner,
+    protected readonly prometheus: PrometheusService,
+  ) {}
+
+  onModuleDestroy() {
+    this.running = false;
+    this.stopped = true;
+    clearTimeout(this.timer);
+  }
+
+  public start(): void {
+    if (!this.queue.enabled || this.running) {
+      return;
+    }
+    this.running = true;
+    this.logger.log(
+      `Submitter started, draining the submission queue every ${this.config.get('SUBMISSION_INTERVAL_MS')}ms`,
+    );
+    void this.loop();
+  }
+
+  private async loop(): Promise<void> {
+    while (this.running) {
+      try {
+        await this.drain();
+      } catch (error) {
+        this.logger.error('Error in submitter loop', serializeError(error));
+      }
+      await new Promise<void>((resolve) => {
+        this.timer = setTimeout(resolve, this.config.get('SUBMISSION_INTERVAL_MS'));
+      });
+    }
+  }
+
+  /**
+   * Send queued jobs in order, stop once gas fees or spending budgets defer a job.
+   * Jobs failed before are skipped until their retry time. The finalized state loaded to regenerate
+   * proofs is shared by the jobs of the round and released after it
+   */
+  public async drain(): Promise<void> {
+    try {
+      for (const queued of this.queue.jobs) {
+        if (queued.retryAt !== undefined && queued.retryAt > Date.now()) {
+          continue;
+        }
+        if (this.stopped || !(await this.submit(queued))) {
+          return;
+        }
+      }
+    } finally {
+      this.prover.clearRefreshCache();
+    }
+  }
+
+  /**
+   * @returns Whether the next job can be sent
+   */
+  private async submit(queued: SubmissionJob): Promise<boolean> {
+    let job = queued;
+    try {
+      const refreshed = await this.refresh(job);
+      if (!refreshed) {
+        return true;
+      }
+      job = refreshed;
+      const bundle = job.bundle;
+
+      const receipt = await this.execution.submit(
+        async () => this.proofBundles.emulate(bundle),
+        async () => this.proofBundles.toTransaction(bundle),
+        this.proofBundles.toPayload(bundle),
+      );
+      if (receipt) {
+        await this.batchPlanner.calibrate(bundle.method, bundle.validatorWitnesses.length, receipt.gasUsed.toNumber());
+      }
+
+      // Validators are marked as reported before they leave the queue, so they are kept in the deadline queue
+      await this.reportedValidators.markPending(bundle.validatorWitnesses.map((witness) => witness.pubkey));
+      await this.queue.remove(job.id);
+      this.prometheus.submissionJobsCount.inc({ status: 'submitted' });
+
+      this.logger.log(
+        `✅ Queued proof submitted:` +
+          `\n  Job: ${job.id}` +
+          `\n  Method: ${bundle.method}` +
+          `\n  Validators: ${bundle.validatorWitnesses.length}` +
+          `\n  Waited: ${Math.round((Date.now() - job.queuedAt) / 1000)}s` +
+          `\n  Jobs in queue: ${this.queue.size}`,
+      );
+      return true;
+    } catch (error) {
+      return await this.handleSubmissionError(job, error);
+    }
+  }
+
+  /**
+   * Regenerate the proof if its beacon root has left the EIP-4788 window, or is about to, while the job was waiting
+   * @returns Undefined while the proof can't be regenerated yet, the job waits for the next round
+   */
+  private async refresh(job: SubmissionJob): Promise<SubmissionJob | undefined> {
+    const bundle = await this.prover.refreshProofBundle(job.bundle);
+    if (!bundle) {
+      this.logger.log(`Queued proof ${job.id} waits until its historical summary is finalized`);
+      return undefined;
+    }
+    if (bundle === job.bundle) {
+      return job;
+    }
+
+    const regenerated = { ...job, bundle, regenerations: job.regenerations + 1 };
+    await this.queue.replace(job.id, [regenerated]);
+    this.prometheus.submissionJobsCount.inc({ status: 'regenerated' });
+    return regenerated;
+  }
+
+  private async handleSubmissionError(job: SubmissionJob, error: unknown): Promise<boolean> {
+    // Gas fee and budgets are checked again in the next round
+    if (error instanceof HighGasFeeError || error instanceof SpendingBudgetError) {
+      this.prometheus.submissionJobsCount.inc({ status: 'deferred' });
+      this.logger.warn(`Submission deferred, ${this.queue.size} jobs wait for the next round`);
+      return false;
+    }
+
+    const bundle = job.bundle;
+    // Handled as in the daemon cycle: too large jobs are split, rejected validators are isolated and quarantined,
+    // jobs rejected as a whole (e.g. reported by someone else) are dropped and proved again in the next cycle
+    const batches = [bundle.validatorWitnesses];
+    if (await this.prover.handleRejectedBatch(batches, 0, error, bundle.method, bundle.exitRequestsHash, bundle.slot)) {
+      const jobs = batches.map((validatorWitnesses) => {
+        const part = { ...bundle, validatorWitnesses };
+        return { ...job, id: this.proofBundles.getId(part), bundle: part, failures: 0, retryAt: undefined };
+      });
+      await this.queue.replace(job.id, jobs);
+      this.prometheus.submissionJobsCount.inc({ status: jobs.length > 0 ? 'split' : 'dropped' });
+      this.logger.warn(
+        `Queued proof ${job.id} rejected, ` +
+          (jobs.length > 0 ? `replaced by ${jobs.length} jobs` : 'dropped from the queue'),
+      );
+      return true;
+    }
+
+    const failures = job.failures + 1;
+    const retryDelay = Math.min(
+      this.config.get('SUBMISSION_INTERVAL_MS') * 2 ** (failures - 1),
+      Submitter.MAX_RETRY_DELAY_MS,
+    );
+    await this.queue.replace(job.id, [{ ...job, failures, retryAt: Date.now() + retryDelay }]);
+    this.prometheus.submissionJobsCount.inc({ status: 'failed' });
+    this.logger.error(
+      `Queued proof submission failed, retrying later:` +
+        `\n  Job: ${job.id}` +
+        `\n  Failures in a row: ${failures}` +
+        `\n  Retry in: ${Math.round(retryDelay / 1000)}s` +
+        `\n  Error: ${error instanceof Error ? error.message : String(error)}`,
+    );
+    return true;
+  }
+}
@@ -1,5 +1,7 @@
 import { BigNumber } from 'ethers';
 
+import { ExitRequestsResult } from '../contracts/types';
+
 export interface KeyInfo {
   operatorId: number;
   keyIndex: number;
@@ -56,3 +58,22 @@ export type WithdrawalWitness = {
   withdrawalProof: string[]; // bytes32[]
   validatorProof: string[]; // bytes32[]
 };
+
+export interface DecodedValidator {
+  exitDataIndex: number;
+  moduleId: bigint;
+  nodeOpId: bigint;
+  validatorIndex: bigint;
+  validatorPubkey: string;
+}
+
+export interface DeadlineValidator {
+  validator: DecodedValidator;
+  activationEpoch: number;
+  exitDeadlineEpoch: number;
+}
+
+export interface DeadlineGroup {
+  exitRequest: ExitRequestsResult;
+  validators: DeadlineValidator[];
+}
@@ -2,14 +2,24 @@ import type { ValueOfFields } from '@chainsafe/ssz/lib/view/container';
 import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
 import type { ssz as sszType } from '@lodestar/types';
 import { Inject, Injectable, LoggerService, OnModuleInit, Optional } from '@nestjs/common';
+import { request } from 'undici';
 import { IncomingHttpHeaders } from 'undici/types/header';
 import BodyReadable from 'undici/types/readable';
 
-import { BeaconConfig, BlockHeaderResponse, BlockId, GenesisResponse, StateId } from './response.interface';
+import {
+  BeaconConfig,
+  BlockHeaderResponse,
+  BlockId,
+  FinalizedCheckpointEvent,
+  GenesisResponse,
+  NodeSyncingResponse,
+  StateId,
+} from './response.interface';
+import { StateCache } from './state-cache';
 import { ConfigService } from '../../config/config.service';
 import { PrometheusService, TrackCLRequest } from '../../prometheus';
-import { BaseRestProvider } from '../base/rest-provider';
-import { RequestOptions } from '../base/utils/func';
+import { BaseRestProvider, RequestError } from '../base/rest-provider';
+import { RequestOptions, sleep, urljoin } from '../base/utils/func';
 
 let ssz: typeof sszType;
 
@@ -36,13 +46,18 @@ export class Consensus extends BaseRestProvider implements OnModuleInit {
   private readonly endpoints = {
     config: 'eth/v1/config/spec',
     version: 'eth/v1/node/version',
+    syncing: 'eth/v1/node/syncing',
     genesis: 'eth/v1/beacon/genesis',
     blockInfo: (blockId: BlockId): string => `eth/v2/beacon/blocks/${blockId}`,
     beaconHeader: (blockId: BlockId): string => `eth/v1/beacon/headers/${blockId}`,
     state: (stateId: StateId): string => `eth/v2/debug/beacon/states/${stateId}`,
     validators: (stateId: StateId): string => `eth/v1/beacon/states/${stateId}/validators`,
+    events: (topics: string[]): string => `eth/v1/events?topics=${topics.join(',')}`,
   };
 
+  // Upper bound of the delay between event stream reconnects
+  private static readonly EVENT_STREAM_MAX_BACKOFF_MS = 60000;
+
   public genesisTimestamp: number;
   public beaconConfig: BeaconConfig;
 
@@ -50,6 +65,7 @@ export class Consensus extends BaseRestProvider implements OnModuleInit {
     @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
     @Optional() protected readonly prometheus: PrometheusService,
     protected readonly config: ConfigService,
+    protected readonly stateCache: StateCache,
   ) {
     super(
       config.get('CL_API_URLS') as Array<string>,
@@ -85,6 +101,28 @@ export class Consensus extends BaseRestProvider implements OnModuleInit {
     return Math.floor(slot / Number(this.beaconConfig.SLOTS_PER_EPOCH));
   }
 
+  public get apiUrls(): string[] {
+    return this.baseUrls;
+  }
+
+  /**
+   * Sync status of the node behind a single CL API URL, without falling back to the other URLs
+   */
+  public async getNodeSyncing(baseUrl: string, signal?: AbortSignal): Promise<NodeSyncingResponse> {
+    const { body } = await this.baseGet(baseUrl, this.endpoints.syncing, { signal });
+    const jsonBody = (await body.json()) as { data: NodeSyncingResponse };
+    return jsonBody.data;
+  }
+
+  /**
+   * Version of the node behind a single CL API URL, without falling back to the other URLs
+   */
+  public async getNodeVersion(baseUrl: string, signal?: AbortSignal): Promise<string> {
+    const { body } = await this.baseGet(baseUrl, this.endpoints.version, { signal });
+    const jsonBody = (await body.json()) as { data: { version: string } };
+    return jsonBody.data.version;
+  }
+
   public async getConfig(): Promise<BeaconConfig> {
     const { body } = await this.retryRequest((baseUrl) => this.baseGet(baseUrl, this.endpoints.config));
     const jsonBody = (await body.json()) as { data: BeaconConfig };
@@ -116,7 +154,43 @@ export class Consensus extends BaseRestProvider implements OnModuleInit {
     return jsonBody.data;
   }
 
+  /**
+   * SSZ beacon state. States of slots are served from the disk cache if STATE_CACHE_DIR is set
+   */
   public async getState(stateId: StateId, signal?: AbortSignal): Promise<State> {
+    if (typeof stateId === 'number' && this.stateCache.enabled) {
+      return await this.getCachedState(stateId, signal);
+    }
+    return await this.downloadState(stateId, signal);
+  }
+
+  /**
+   * The header state root of the slot is both the cache key and the expected root of the state.
+   * Skipped slots have no header of their own, their states are downloaded without caching
+   */
+  private async getCachedState(slot: number, signal?: AbortSignal): Promise<State> {
+    let header: BlockHeaderResponse;
+    try {
+      header = await this.getBeaconHeader(slot);
+    } catch (error) {
+      if (error instanceof RequestError && error.statusCode === 404) {
+        return await this.downloadState(slot, signal);
+      }
+      throw error;
+    }
+
+    const stateRoot = header.header.message.state_root;
+    const cached = await this.stateCache.get(slot, stateRoot);
+    if (cached) {
+      return cached;
+    }
+
+    const state = await this.downloadState(slot, signal);
+    await this.stateCache.put(slot, stateRoot, state);
+    return state;
+  }
+
+  private async downloadState(stateId: StateId, signal?: AbortSignal): Promise<State> {
     this.logger.log(`Getting state response for state id [${stateId}]`);
     let bodyBytes!: Uint8Array;
 
@@ -146,6 +220,113 @@ export class Consensus extends BaseRestProvider implements OnModuleInit {
     return { bodyBytes, forkName: forkName as SupportedFork };
   }
 
+  /**
+   * Follow finalized checkpoints from the beacon node event stream until the signal is aborted.
+   * Reconnects with exponential backoff, switching to the next CL API URL after each disconnect
+   */
+  public async subscribeFinalizedCheckpoints(
+    onCheckpoint: (checkpoint: FinalizedCheckpointEvent) => void,
+    signal: AbortSignal,
+  ): Promise<void> {
+    const topic = 'finalized_checkpoint';
+    let urlIndex = 0;
+    let backoff = this.requestPolicy.retryDelay;
+
+    while (!signal.aborted) {
+      const baseUrl = this.baseUrls[urlIndex];
+      const target = new URL(baseUrl).hostname;
+      let received = false;
+
+      try {
+        this.logger.log(`Subscribing to [${topic}] events on host [${target}]`);
+        await this.readEventStream(baseUrl, [topic], signal, (event, data) => {
+          if (event !== topic) {
+            return;
+          }
+          received = true;
+          this.prometheus?.clEventsCount.inc({ topic, target });
+          onCheckpoint(JSON.parse(data) as FinalizedCheckpointEvent);
+        });
+        if (signal.aborted) {
+          return;
+        }
+        this.logger.warn(`Event stream on host [${target}] was closed by the server`);
+      } catch (error) {
+        if (signal.aborted) {
+          return;
+        }
+        this.logger.warn(`Event stream on host [${target}] failed: ${error.message}`);
+      }
+
+      this.prometheus?.clEventStreamDisconnectsCount.inc({ target });
+
+      // A stream that delivered events was healthy, so the backoff starts over
+      if (received) {
+        backoff = this.requestPolicy.retryDelay;
+      }
+      urlIndex = (urlIndex + 1) % this.baseUrls.length;
+
+      this.logger.log(`Reconnecting to the event stream in ${backoff}ms`);
+      await sleep(backoff);
+      backoff = Math.min(backoff * 2, Consensus.EVENT_STREAM_MAX_BACKOFF_MS);
+    }
+  }
+
+  /**
+   * Read server-sent events until the stream ends
+   * The stream is considered stale if nothing is received for several epochs
+   */
+  private async readEventStream(
+    baseUrl: string,
+    topics: string[],
+    signal: AbortSignal,
+    onEvent: (event: string, data: string) => void,
+  ): Promise<void> {
+    const epochMs = Number(this.beaconConfig.SLOTS_PER_EPOCH) * Number(this.beaconConfig.SECONDS_PER_SLOT) * 1000;
+    const { body, statusCode } = await request(urljoin(baseUrl, this.endpoints.events(topics)), {
+      method: 'GET',
+      headers: { accept: 'text/event-stream' },
+      headersTimeout: this.requestPolicy.timeout,
+      bodyTimeout: 3 * epochMs,
+      signal,
+    });
+    if (statusCode !== 200) {
+      await body.dump();
+      throw new RequestError(`Event stream request failed with status code [${statusCode}]`, statusCode);
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = '';
+    for await (const chunk of body) {
+      buffer += decoder.decode(chunk, { stream: true }).replace(/\r\n?/g, '\n');
+      const messages = buffer.split('\n\n');
+      // The last part is an incomplete message
+      buffer = messages.pop() ?? '';
+
+      for (const message of messages) {
+        let event = 'message';
+        const data: string[] = [];
+        for (const line of message.split('\n')) {
+          // Lines starting with a colon are comments, used as keep-alive
+          if (!line || line.startsWith(':')) {
+            continue;
+          }
+          const separator = line.indexOf(':');
+          const field = separator === -1 ? line : line.slice(0, separator);
+          const value = separator === -1 ? '' : line.slice(separator + 1).replace(/^ /, '');
+          if (field === 'event') {
+            event = value;
+          } else if (field === 'data') {
+            data.push(value);
+          }
+        }
+        if (data.length > 0) {
+          onEvent(event, data.join('\n'));
+        }
+      }
+    }
+  }
+
   @TrackCLRequest()
   protected baseGet(
     baseUrl: string,
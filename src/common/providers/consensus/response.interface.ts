@@ -20,6 +20,21 @@ export interface BlockHeaderResponse {
   };
 }
 
+export interface FinalizedCheckpointEvent {
+  block: RootHex;
+  state: RootHex;
+  epoch: string;
+  execution_optimistic: boolean;
+}
+
+export interface NodeSyncingResponse {
+  head_slot: string;
+  sync_distance: string;
+  is_syncing: boolean;
+  is_optimistic?: boolean;
+  el_offline?: boolean;
+}
+
 export interface GenesisResponse {
   /**
    * example: 1590832934
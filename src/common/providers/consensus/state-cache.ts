@@ -0,0 +1,218 @@
+import { mkdir, readFile, readdir, rename, rm, stat, utimes, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { Inject, Injectable, LoggerService, OnModuleInit, Optional } from '@nestjs/common';
+
+import type { State } from './consensus';
+import { ConfigService } from '../../config/config.service';
+import { PrometheusService } from '../../prometheus';
+import { StateBytes, StateWorkers } from '../../state-workers';
+
+export enum StateCacheResult {
+  hit = 'hit',
+  miss = 'miss',
+  // Cached state does not match its state root, it is removed and downloaded again
+  corrupted = 'corrupted',
+  // Downloaded state does not match the header state root, it is not cached
+  rejected = 'rejected',
+}
+
+interface CachedStateFile {
+  path: string;
+  size: number;
+  forkName: string;
+  // Least recently used states are evicted first
+  usedAt: number;
+}
+
+// <slot>-<state root>.<fork>.ssz
+const STATE_FILE_PATTERN = /^(\d+)-(0x[0-9a-f]{64})\.(\w+)\.ssz$/;
+
+/**
+ * Content-addressed disk cache of SSZ beacon states keyed by slot and state root.
+ * States are checked against the state root on every write and read, the cache size is bounded by LRU eviction
+ */
+@Injectable()
+export class StateCache implements OnModuleInit {
+  private readonly files = new Map<string, CachedStateFile>();
+
+  constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly config: ConfigService,
+    protected readonly stateWorkers: StateWorkers,
+    @Optional() protected readonly prometheus: PrometheusService,
+  ) {}
+
+  public get enabled(): boolean {
+    return !!this.config.get('STATE_CACHE_DIR');
+  }
+
+  public async onModuleInit(): Promise<void> {
+    if (!this.enabled) {
+      return;
+    }
+
+    const dir = this.config.get('STATE_CACHE_DIR')!;
+    await mkdir(dir, { recursive: true });
+
+    for (const name of await readdir(dir)) {
+      const path = join(dir, name);
+      if (name.endsWith('.tmp')) {
+        // Leftover of an interrupted write
+        await rm(path, { force: true });
+        continue;
+      }
+
+      const match = STATE_FILE_PATTERN.exec(name);
+      if (!match) {
+        continue;
+      }
+
+      const { size, mtimeMs } = await stat(path);
+      this.files.set(this.key(Number(match[1]), match[2]), { path, size, forkName: match[3], usedAt: mtimeMs });
+    }
+
+    await this.evict();
+
+    this.logger.log(
+      `Beacon state cache restored:` +
+        `\n  Directory: ${dir}` +
+        `\n  States: ${this.files.size}` +
+        `\n  Size: ${this.formatSize(this.totalSize)}`,
+    );
+  }
+
+  /**
+   * Cached state of the slot, undefined if the state is not cached or does not match the state root
+   */
+  public async get(slot: number, stateRoot: string): Promise<State | undefined> {
+    const key = this.key(slot, stateRoot);
+    const file = this.files.get(key);
+    if (!file) {
+      this.prometheus?.stateCacheRequestsCount.inc({ result: StateCacheResult.miss });
+      return;
+    }
+
+    let bodyBytes: Uint8Array;
+    try {
+      bodyBytes = await readFile(file.path);
+    } catch (error) {
+      this.logger.warn(`Failed to read cached state for slot ${slot}: ${error.message}`);
+      await this.remove(key);
+      this.prometheus?.stateCacheRequestsCount.inc({ result: StateCacheResult.miss });
+      return;
+    }
+
+    const state: State = { bodyBytes, forkName: file.forkName as State['forkName'] };
+    if (!(await this.hasStateRoot(state, stateRoot))) {
+      this.logger.warn(
+        `Cached state does not match its state root, removing it:` +
+          `\n  Slot: ${slot}` +
+          `\n  State root: ${stateRoot}` +
+          `\n  Path: ${file.path}`,
+      );
+      await this.remove(key);
+      this.prometheus?.stateCacheRequestsCount.inc({ result: StateCacheResult.corrupted });
+      return;
+    }
+
+    // Modification time keeps the LRU order across restarts
+    file.usedAt = Date.now();
+    const usedAt = new Date(file.usedAt);
+    await utimes(file.path, usedAt, usedAt).catch(() => undefined);
+
+    this.prometheus?.stateCacheRequestsCount.inc({ result: StateCacheResult.hit });
+    this.logger.log(`Beacon state for slot ${slot} is loaded from cache: ${bodyBytes.length} bytes`);
+    return state;
+  }
+
+  /**
+   * Cache the downloaded state of the slot. States not matching the state root are not cached.
+   * Write failures are logged only, the state is downloaded again next time
+   */
+  public async put(slot: number, stateRoot: string, state: State): Promise<void> {
+    if (!(await this.hasStateRoot(state, stateRoot))) {
+      this.logger.warn(
+        `Downloaded state does not match the header state root, not caching it:` +
+          `\n  Slot: ${slot}` +
+          `\n  State root: ${stateRoot}` +
+          `\n  Fork: ${state.forkName}`,
+      );
+      this.prometheus?.stateCacheRequestsCount.inc({ result: StateCacheResult.rejected });
+      return;
+    }
+
+    const path = join(this.config.get('STATE_CACHE_DIR')!, `${slot}-${stateRoot.toLowerCase()}.${state.forkName}.ssz`);
+    try {
+      await writeFile(`${path}.tmp`, state.bodyBytes);
+      await rename(`${path}.tmp`, path);
+    } catch (error) {
+      this.logger.warn(`Failed to cache state for slot ${slot}: ${error.message}`);
+      await rm(`${path}.tmp`, { force: true });
+      return;
+    }
+
+    this.files.set(this.key(slot, stateRoot), {
+      path,
+      size: state.bodyBytes.length,
+      forkName: state.forkName,
+      usedAt: Date.now(),
+    });
+    await this.evict();
+  }
+
+  private async hasStateRoot(state: StateBytes, stateRoot: string): Promise<boolean> {
+    try {
+      return (await this.stateWorkers.getStateRoot(state)) === stateRoot.toLowerCase();
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Remove least recently used states until the cache fits STATE_CACHE_MAX_SIZE_MB
+   */
+  private async evict(): Promise<void> {
+    const maxSize = this.config.get('STATE_CACHE_MAX_SIZE_MB') * 1024 * 1024;
+    const byUsage = Array.from(this.files.entries()).sort(([, a], [, b]) => a.usedAt - b.usedAt);
+
+    let totalSize = this.totalSize;
+    for (const [key, file] of byUsage) {
+      if (totalSize <= maxSize) {
+        break;
+      }
+      this.logger.log(`Evicting cached state: ${file.path} (${this.formatSize(file.size)})`);
+      await this.remove(key);
+      totalSize -= file.size;
+    }
+
+    this.prometheus?.stateCacheSize.set(this.totalSize);
+  }
+
+  private async remove(key: string): Promise<void> {
+    const file = this.files.get(key);
+    if (!file) {
+      return;
+    }
+    this.files.delete(key);
+    await rm(file.path, { force: true });
+    this.prometheus?.stateCacheSize.set(this.totalSize);
+  }
+
+  private get totalSize(): number {
+    let size = 0;
+    for (const file of this.files.values()) {
+      size += file.size;
+    }
+    return size;
+  }
+
+  private key(slot: number, stateRoot: string): string {
+    return `${slot}-${stateRoot.toLowerCase()}`;
+  }
+
+  private formatSize(bytes: number): string {
+    return `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  }
+}
@@ -1,13 +1,15 @@
-import { TransactionResponse } from '@ethersproject/abstract-provider';
+import { TransactionReceipt } from '@ethersproject/abstract-provider';
 import { MAX_BLOCKCOUNT, SimpleFallbackJsonRpcBatchProvider } from '@lido-nestjs/execution';
 import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
 import { Inject, Injectable, LoggerService, Optional } from '@nestjs/common';
-import { BigNumber, PopulatedTransaction, Wallet, utils } from 'ethers';
+import { BigNumber, PopulatedTransaction, Signer, utils } from 'ethers';
 import { InquirerService } from 'nest-commander';
-import { promise as spinnerFor } from 'ora-classic';
 
+import { SpendingBudget, SpendingGovernor } from './spending-governor';
+import { TransactionManager } from './transaction-manager';
 import { bigIntMax, bigIntMin, percentile } from './utils/common';
 import { ConfigService } from '../../config/config.service';
+import { WorkingMode } from '../../config/env.validation';
 import { PrometheusService } from '../../prometheus/prometheus.service';
 
 export enum TransactionStatus {
@@ -22,6 +24,7 @@ const RETRY_DELAY_MS = 60 * 1000; // 1 minute
 const BLOCKS_PER_HOUR = (60 * 60) / 12; // Assuming 12s block time
 const HOURS_PER_DAY = 24;
 const GAS_BUFFER_MULTIPLIER = 2n; // 2x buffer for maxFeePerGas
+export const GAS_ESTIMATION_BUFFER = 1.2; // 20% buffer over the estimated gas
 const MAX_ERROR_MESSAGE_LENGTH = 500; // Truncate error messages longer than this
 
 class ErrorWithContext extends Error {
@@ -40,11 +43,36 @@ class ErrorWithContext extends Error {
   }
 }
 
-class EmulatedCallError extends ErrorWithContext {}
 class SendTransactionError extends ErrorWithContext {}
-class HighGasFeeError extends ErrorWithContext {}
+// Thrown as is by `submit`, so the caller can defer the transaction
+export class HighGasFeeError extends ErrorWithContext {}
 class NoSignerError extends ErrorWithContext {}
-class GasLimitExceededError extends ErrorWithContext {}
+// Thrown as is, so the caller can split the payload into smaller transactions
+export class GasLimitExceededError extends ErrorWithContext {}
+export class TransactionSizeExceededError extends ErrorWithContext {}
+// The worst-case cost exceeds TX_BUDGET_PER_TX_ETH at the current fees
+export class TransactionBudgetExceededError extends ErrorWithContext {}
+// Thrown as is, so the caller can decode the revert of the emulated call
+export class EmulatedCallError extends ErrorWithContext {
+  constructor(
+    message: string,
+    ctx: any,
+    public readonly callError: unknown,
+  ) {
+    super(message, ctx);
+  }
+}
+class TransactionCanceledError extends ErrorWithContext {}
+
+export class SpendingBudgetError extends ErrorWithContext {
+  constructor(
+    message: string,
+    public readonly budget: SpendingBudget,
+    ctx?: any,
+  ) {
+    super(message, ctx);
+  }
+}
 
 interface GasParameters {
   maxFeePerGas: bigint;
@@ -153,11 +181,14 @@ class ErrorLogger {
 
 @Injectable()
 export class Execution {
-  public signer?: Wallet;
   private errorLogger: ErrorLogger;
 
   private gasFeeHistoryCache: bigint[] = [];
   private lastFeeHistoryBlockNumber = 0;
+  // Tail of the submission queue: transactions are sent one at a time in the order they were queued,
+  // so nonces are assigned sequentially even when proofs are generated concurrently
+  private submissions: Promise<void> = Promise.resolve();
+  private queuedSubmissions = 0;
 
   constructor(
     @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
@@ -165,11 +196,16 @@ export class Execution {
     @Optional() protected readonly prometheus: PrometheusService,
     @Optional() protected readonly inquirerService: InquirerService,
     public readonly provider: SimpleFallbackJsonRpcBatchProvider,
+    protected readonly transactionManager: TransactionManager,
+    protected readonly spendingGovernor: SpendingGovernor,
   ) {
-    this.initializeSigner();
     this.errorLogger = new ErrorLogger(this.logger);
   }
 
+  public get signer(): Signer | undefined {
+    return this.transactionManager.signer;
+  }
+
   // ==========================================
   // PUBLIC API
   // ==========================================
@@ -182,21 +218,99 @@ export class Execution {
     emulateTxCallback: (...payload: any[]) => Promise<any>,
     populateTxCallback: (...payload: any[]) => Promise<PopulatedTransaction>,
     payload: any[],
+  ): Promise<TransactionReceipt | undefined> {
+    return await this.enqueueSubmission(() => {
+      if (this.isCLI()) {
+        return this.executeCLI(emulateTxCallback, populateTxCallback, payload);
+      }
+      return this.executeDaemon(emulateTxCallback, populateTxCallback, payload);
+    });
+  }
+
+  /**
+   * Send the transaction with a single attempt, without waiting for acceptable gas fees and spending budgets
+   * HighGasFeeError and SpendingBudgetError are thrown as is, so the caller can defer the transaction
+   */
+  public async submit(
+    emulateTxCallback: (...payload: any[]) => Promise<any>,
+    populateTxCallback: (...payload: any[]) => Promise<PopulatedTransaction>,
+    payload: any[],
+  ): Promise<TransactionReceipt | undefined> {
+    return await this.enqueueSubmission(async () => {
+      this.prometheus?.transactionCount.inc({ status: TransactionStatus.pending });
+      try {
+        const receipt = await this.executeTransaction(emulateTxCallback, populateTxCallback, payload);
+        this.prometheus?.transactionCount.inc({
+          status: this.config.get('DRY_RUN') ? TransactionStatus.dry_run : TransactionStatus.confirmed,
+        });
+        return receipt;
+      } catch (error) {
+        if (this.trackDeferral(error)) {
+          throw error;
+        }
+        this.prometheus?.transactionCount.inc({ status: TransactionStatus.error });
+        const errorId = this.errorLogger.logErrorOnce(error, 'transaction-execution');
+        if (this.isHandledByCaller(error)) {
+          throw error;
+        }
+        throw new Error(`Transaction execution failed [${errorId}]`);
+      } finally {
+        this.prometheus?.transactionCount.dec({ status: TransactionStatus.pending });
+      }
+    });
+  }
+
+  /**
+   * Build, emulate and estimate the transaction without sending it
+   * Errors of the payload (emulation, size and gas limits) are thrown as is, so the caller can fix the payload
+   */
+  public async simulate(
+    emulateTxCallback: (...payload: any[]) => Promise<any>,
+    populateTxCallback: (...payload: any[]) => Promise<PopulatedTransaction>,
+    payload: any[],
   ): Promise<void> {
-    return await this.executeDaemon(emulateTxCallback, populateTxCallback, payload);
+    try {
+      const tx = await populateTxCallback(...payload);
+      const context: TransactionContext = { payload, tx };
+      await this.emulateTransaction(emulateTxCallback, payload, context);
+      await this.prepareTransaction(tx, context);
+    } catch (error) {
+      const errorId = this.errorLogger.logErrorOnce(error, 'transaction-simulation');
+      if (this.isHandledByCaller(error)) {
+        throw error;
+      }
+      throw new Error(`Transaction simulation failed [${errorId}]`);
+    }
+  }
+
+  public async executeCLI(
+    emulateTxCallback: (...payload: any[]) => Promise<any>,
+    populateTxCallback: (...payload: any[]) => Promise<PopulatedTransaction>,
+    payload: any[],
+  ): Promise<TransactionReceipt | undefined> {
+    // No retries in CLI mode: the operator decides what to do with the failure
+    try {
+      return await this.executeTransaction(emulateTxCallback, populateTxCallback, payload);
+    } catch (error) {
+      const errorId = this.errorLogger.logErrorOnce(error, 'transaction-execution');
+      if (this.isHandledByCaller(error)) {
+        throw error;
+      }
+      throw new Error(`Transaction execution failed [${errorId}]`);
+    }
   }
 
   public async executeDaemon(
     emulateTxCallback: (...payload: any[]) => Promise<any>,
     populateTxCallback: (...payload: any[]) => Promise<PopulatedTransaction>,
     payload: any[],
-  ): Promise<void> {
+  ): Promise<TransactionReceipt | undefined> {
     while (true) {
       try {
         this.prometheus?.transactionCount.inc({ status: TransactionStatus.pending });
 
         const isDryRun = this.config.get('DRY_RUN');
-        await this.executeTransaction(emulateTxCallback, populateTxCallback, payload);
+        const receipt = await this.executeTransaction(emulateTxCallback, populateTxCallback, payload);
 
         // Track appropriate completion status
         if (isDryRun) {
@@ -205,7 +319,7 @@ export class Execution {
           this.prometheus?.transactionCount.inc({ status: TransactionStatus.confirmed });
         }
 
-        return; // Successfully completed (either sent or dry run)
+        return receipt; // Successfully completed (either sent or dry run)
       } catch (error) {
         await this.handleExecutionError(error);
       } finally {
@@ -218,11 +332,33 @@ export class Execution {
   // TRANSACTION EXECUTION
   // ==========================================
 
+  private async enqueueSubmission<T>(send: () => Promise<T>): Promise<T> {
+    if (this.queuedSubmissions > 0) {
+      this.logger.log(`Transaction queued for submission behind ${this.queuedSubmissions} others`);
+    }
+    this.queuedSubmissions++;
+
+    const submission = this.submissions.then(async () => {
+      try {
+        return await send();
+      } finally {
+        this.queuedSubmissions--;
+      }
+    });
+    // A failed submission must not block the ones queued after it
+    this.submissions = submission.then(
+      () => undefined,
+      () => undefined,
+    );
+
+    return await submission;
+  }
+
   private async executeTransaction(
     emulateTxCallback: (...payload: any[]) => Promise<any>,
     populateTxCallback: (...payload: any[]) => Promise<PopulatedTransaction>,
     payload: any[],
-  ): Promise<void> {
+  ): Promise<TransactionReceipt | undefined> {
     // Step 1: Build transaction
     const tx = await populateTxCallback(...payload);
     const context: TransactionContext = { payload, tx };
@@ -241,11 +377,16 @@ export class Execution {
     // Step 5: Check if we should proceed (gas fees, dry run)
     const shouldProceed = await this.validateTransactionConditions(context, populatedTx);
     if (!shouldProceed) {
-      return; // Successfully exit without sending transaction
+      return undefined; // Successfully exit without sending transaction
+    }
+
+    // Step 6: Ask the operator for confirmation (CLI mode only)
+    if (this.isCLI()) {
+      await this.confirmSending(context, populatedTx);
     }
 
-    // Step 6: Send and wait for confirmation
-    await this.sendAndConfirmTransaction(populatedTx);
+    // Step 7: Send and wait for confirmation
+    return await this.sendAndConfirmTransaction(populatedTx);
   }
 
   private async emulateTransaction(
@@ -259,7 +400,7 @@ export class Execution {
       this.logger.log('✅ Emulated call succeeded');
     } catch (error) {
       const errorId = this.errorLogger.logErrorOnce(error, 'emulation');
-      throw new EmulatedCallError(`Emulation failed [${errorId}]`, context);
+      throw new EmulatedCallError(`Emulation failed [${errorId}]`, context, error);
     }
   }
 
@@ -285,6 +426,18 @@ export class Execution {
   }
 
   private async prepareTransaction(tx: PopulatedTransaction, context: TransactionContext): Promise<any> {
+    // MAX_TRANSACTION_SIZE_BYTES limits the calldata, nodes and relays reject oversized transactions
+    const size = utils.hexDataLength(tx.data ?? '0x');
+    const maxSize = this.config.get('MAX_TRANSACTION_SIZE_BYTES');
+    if (size > maxSize) {
+      throw new TransactionSizeExceededError(
+        `Transaction rejected: Calldata exceeds the size limit!` +
+          `\n  Size: ${size.toLocaleString()} bytes` +
+          `\n  Limit (MAX_TRANSACTION_SIZE_BYTES): ${maxSize.toLocaleString()} bytes`,
+        context,
+      );
+    }
+
     const gasParameters = await this.calculateGasParameters();
 
     // Estimate gas limit
@@ -292,8 +445,7 @@ export class Execution {
     const configuredLimit = BigInt(this.config.get('TX_GAS_LIMIT'));
 
     // Calculate estimated gas with buffer
-    const ESTIMATION_BUFFER = 1.2; // 20% buffer
-    const estimatedWithBuffer = BigInt(Math.floor(Number(estimated) * ESTIMATION_BUFFER));
+    const estimatedWithBuffer = BigInt(Math.floor(Number(estimated) * GAS_ESTIMATION_BUFFER));
 
     // TX_GAS_LIMIT is a hard upper limit - reject if estimation exceeds it
     if (estimatedWithBuffer > configuredLimit) {
@@ -355,6 +507,27 @@ export class Execution {
       throw new HighGasFeeError('Transaction is not sent due to high gas fee', context);
     }
 
+    // Check spending budgets with the worst-case cost
+    const maxCost = BigInt(populatedTx.gasLimit) * BigInt(populatedTx.maxFeePerGas);
+    const exceededBudget = this.spendingGovernor.exceededBudget(maxCost);
+    // Waiting does not help a payload too expensive for a single transaction, the caller splits it
+    if (exceededBudget === SpendingBudget.transaction) {
+      this.prometheus?.spendingBudgetInterruptionsCount.inc({ budget: exceededBudget });
+      throw new TransactionBudgetExceededError(
+        `Transaction is not sent, its max cost ${utils.formatEther(maxCost)} ETH exceeds TX_BUDGET_PER_TX_ETH`,
+        context,
+      );
+    }
+    if (exceededBudget) {
+      throw new SpendingBudgetError(
+        `Transaction is not sent due to the exceeded ${exceededBudget} spending budget:` +
+          `\n  Max cost: ${utils.formatEther(maxCost)} ETH` +
+          `\n  Spent in the last 24h: ${utils.formatEther(this.spendingGovernor.dailySpent)} ETH`,
+        exceededBudget,
+        context,
+      );
+    }
+
     return true; // Proceed with transaction
   }
 
@@ -391,6 +564,24 @@ export class Execution {
     this.logger.log('💡 To send transactions, set DRY_RUN=false in your environment');
   }
 
+  private async confirmSending(context: TransactionContext, populatedTx: any): Promise<void> {
+    this.logger.log(
+      `📋 Transaction is ready to be sent:` +
+        `\n  To: ${populatedTx.to}` +
+        `\n  Gas Limit: ${populatedTx.gasLimit}` +
+        `\n  Max Fee Per Gas: ${utils.formatUnits(populatedTx.maxFeePerGas || 0, 'gwei')} Gwei` +
+        `\n  Estimated Cost: ~${this.estimateTransactionCost(populatedTx)} ETH`,
+    );
+
+    const { sendingConfirmed } = await this.inquirerService.ask<{ sendingConfirmed: boolean }>(
+      'tx-sending-confirm',
+      undefined,
+    );
+    if (!sendingConfirmed) {
+      throw new TransactionCanceledError('Transaction sending was canceled by the operator', context);
+    }
+  }
+
   private estimateTransactionCost(populatedTx: any): string {
     if (!populatedTx.gasLimit || !populatedTx.maxFeePerGas) {
       return 'N/A';
@@ -403,46 +594,22 @@ export class Execution {
     return utils.formatEther(maxCost.toString());
   }
 
-  private async sendAndConfirmTransaction(populatedTx: any): Promise<void> {
-    const signed = await this.signer!.signTransaction(populatedTx);
-
+  private async sendAndConfirmTransaction(populatedTx: any): Promise<TransactionReceipt> {
     try {
-      // Send transaction
-      const submitted = await this.sendTransactionWithLogging(signed, populatedTx);
-
-      // Wait for confirmation
-      await this.waitForConfirmation(submitted);
+      // Nonce assignment, fee bumps and cancellation on timeout are up to the transaction manager
+      const receipt = await this.transactionManager.send(populatedTx);
+      if (receipt.status === 0) {
+        throw new Error(`Transaction reverted. Hash: ${receipt.transactionHash}`);
+      }
 
-      this.logger.log(`✅ Transaction succeeded! Hash: ${submitted.hash}`);
+      this.logger.log(`✅ Transaction succeeded! Hash: ${receipt.transactionHash}`);
+      return receipt;
     } catch (error) {
       const errorId = this.errorLogger.logErrorOnce(error, 'transaction-submission');
       throw new SendTransactionError(`Transaction submission failed [${errorId}]`, { tx: populatedTx });
     }
   }
 
-  private async sendTransactionWithLogging(signedTx: string, populatedTx: any): Promise<TransactionResponse> {
-    const submittedPromise = this.provider.sendTransaction(signedTx);
-
-    const logMessage = `Sending transaction with nonce ${populatedTx.nonce} and gasLimit: ${populatedTx.gasLimit}, maxFeePerGas: ${populatedTx.maxFeePerGas}, maxPriorityFeePerGas: ${populatedTx.maxPriorityFeePerGas}`;
-    spinnerFor(submittedPromise, { text: logMessage });
-
-    const submitted = await submittedPromise;
-    this.logger.log(`Transaction sent to mempool. Hash: ${submitted.hash}`);
-
-    return submitted;
-  }
-
-  private async waitForConfirmation(submitted: TransactionResponse): Promise<void> {
-    const confirmations = this.config.get('TX_CONFIRMATIONS');
-    const timeout = this.config.get('TX_MINING_WAITING_TIMEOUT_MS');
-
-    const waitingPromise = this.provider.waitForTransaction(submitted.hash, confirmations, timeout);
-    const logMessage = `Waiting until the transaction has been mined and confirmed ${confirmations} times`;
-
-    spinnerFor(waitingPromise, { text: logMessage });
-    await waitingPromise;
-  }
-
   // ==========================================
   // ERROR HANDLING
   // ==========================================
@@ -454,8 +621,21 @@ export class Execution {
     }
 
     if (error instanceof HighGasFeeError) {
-      this.prometheus?.highGasFeeInterruptionsCount.inc();
-      this.errorLogger.logErrorOnce(error, 'high-gas-fee');
+      this.trackDeferral(error);
+      // Deliberate waits keep the liveness check passing
+      this.prometheus?.latestHeartbeat.setToCurrentTime();
+      this.logger.warn('Retrying in 1 minute...');
+      await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS));
+      return; // Continue the retry loop
+    }
+
+    if (error instanceof SpendingBudgetError) {
+      this.trackDeferral(error);
+      // The cycle budget is not freed within the cycle, the transaction is deferred to the next one
+      if (error.budget === SpendingBudget.cycle) {
+        throw new Error(`Transaction deferred to the next cycle [${error.errorId}]`);
+      }
+      this.prometheus?.latestHeartbeat.setToCurrentTime();
       this.logger.warn('Retrying in 1 minute...');
       await new Promise((resolve) => setTimeout(resolve, RETRY_DELAY_MS));
       return; // Continue the retry loop
@@ -464,12 +644,33 @@ export class Execution {
     // For other errors, log once and re-throw
     this.prometheus?.transactionCount.inc({ status: TransactionStatus.error });
     const errorId = this.errorLogger.logErrorOnce(error, 'transaction-execution');
+    if (this.isHandledByCaller(error)) {
+      throw error;
+    }
 
     // Create a new error with reference to avoid re-logging the same details
     const referenceError = new Error(`Transaction execution failed [${errorId}]`);
     throw referenceError;
   }
 
+  /**
+   * Track the transaction not sent due to the high gas fee or the spending budgets
+   * @returns Whether the transaction can be sent later as is
+   */
+  private trackDeferral(error: any): boolean {
+    if (error instanceof HighGasFeeError) {
+      this.prometheus?.highGasFeeInterruptionsCount.inc();
+      this.errorLogger.logErrorOnce(error, 'high-gas-fee');
+      return true;
+    }
+    if (error instanceof SpendingBudgetError) {
+      this.prometheus?.spendingBudgetInterruptionsCount.inc({ budget: error.budget });
+      this.errorLogger.logErrorOnce(error, 'spending-budget');
+      return true;
+    }
+    return false;
+  }
+
   // ==========================================
   // GAS MANAGEMENT
   // ==========================================
@@ -588,10 +789,16 @@ export class Execution {
   // INITIALIZATION
   // ==========================================
 
-  private initializeSigner(): void {
-    const privateKey = this.config.get('TX_SIGNER_PRIVATE_KEY');
-    if (privateKey) {
-      this.signer = new Wallet(privateKey, this.provider);
-    }
+  private isHandledByCaller(error: any): boolean {
+    return (
+      error instanceof GasLimitExceededError ||
+      error instanceof TransactionSizeExceededError ||
+      error instanceof TransactionBudgetExceededError ||
+      error instanceof EmulatedCallError
+    );
+  }
+
+  private isCLI(): boolean {
+    return this.config.get('WORKING_MODE') === WorkingMode.CLI;
   }
 }
@@ -0,0 +1,168 @@
+import { ethers } from 'ethers';
+
+import { LogScanner } from './log-scanner';
+
+const FILTER = { address: '0x' + '11'.repeat(20), topics: ['0x' + '22'.repeat(32)] };
+
+type Handler = (fromBlock: number, toBlock: number) => ethers.providers.Log[];
+
+const rangeError = () => Object.assign(new Error('query returned more than 10000 results'), { code: -32005 });
+
+// A log per block, so the scanned blocks can be checked in the result
+const logsOf: Handler = (fromBlock, toBlock) =>
+  Array.from({ length: toBlock - fromBlock + 1 }, (_, i) => ({ blockNumber: fromBlock + i }) as ethers.providers.Log);
+
+// Provider accepting ranges of `limit` blocks at most
+const limitedTo =
+  (limit: number): Handler =>
+  (fromBlock, toBlock) => {
+    if (toBlock - fromBlock + 1 > limit) {
+      throw rangeError();
+    }
+    return logsOf(fromBlock, toBlock);
+  };
+
+const failing = (message: string): Handler => {
+  return () => {
+    throw new Error(message);
+  };
+};
+
+/**
+ * Scanner over providers stubbed by hostname, `requests` lists the ranges requested from each of them
+ */
+function createScanner(handlers: Record<string, Handler>, maxBlockRange = 8) {
+  const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn(), debug: jest.fn() };
+  const config = {
+    get: (key: string) =>
+      ({
+        EL_RPC_URLS: Object.keys(handlers).map((host) => `http://${host}`),
+        EL_RPC_RESPONSE_TIMEOUT_MS: 1_000,
+        EL_LOGS_MAX_BLOCK_RANGE: maxBlockRange,
+        CHAIN_ID: 1,
+      })[key],
+  };
+  const prometheus = {
+    outgoingELRequestsDuration: { startTimer: jest.fn(() => jest.fn()) },
+    outgoingELRequestsCount: { inc: jest.fn() },
+    logsScanWindow: { set: jest.fn() },
+    logsScanSplitsCount: { inc: jest.fn() },
+  };
+
+  const requests: Array<[string, number, number]> = [];
+  jest.spyOn(ethers.providers.StaticJsonRpcProvider.prototype, 'getLogs').mockImplementation(async function (
+    this: ethers.providers.StaticJsonRpcProvider,
+    filter: any,
+  ) {
+    const host = new URL(this.connection.url).hostname;
+    requests.push([host, filter.fromBlock, filter.toBlock]);
+    return handlers[host](filter.fromBlock, filter.toBlock);
+  });
+
+  const scanner = new LogScanner(logger, config as any, prometheus as any);
+  const blocks = (logs: ethers.providers.Log[]) => logs.map((log) => log.blockNumber);
+
+  return { scanner, requests, logger, prometheus, blocks };
+}
+
+describe('LogScanner.getLogs', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it('bisects a rejected range down to a single block', async () => {
+    const { scanner, requests, prometheus, blocks } = createScanner({ a: limitedTo(1) });
+
+    const logs = await scanner.getLogs(FILTER, 100, 103);
+
+    expect(blocks(logs)).toEqual([100, 101, 102, 103]);
+    expect(requests).toEqual([
+      ['a', 100, 103],
+      ['a', 100, 101],
+      ['a', 100, 100],
+      ['a', 101, 101],
+      ['a', 102, 102],
+      ['a', 103, 103],
+    ]);
+    expect(prometheus.logsScanSplitsCount.inc).toHaveBeenCalledTimes(2);
+    expect(prometheus.logsScanWindow.set).toHaveBeenLastCalledWith({ target: 'a' }, 1);
+  });
+
+  it('grows the window again after consecutive successes', async () => {
+    let rejected = false;
+    const { scanner, requests, blocks } = createScanner({
+      a: (fromBlock, toBlock) => {
+        // The provider is overloaded once
+        if (!rejected) {
+          rejected = true;
+          throw rangeError();
+        }
+        return logsOf(fromBlock, toBlock);
+      },
+    });
+
+    const logs = await scanner.getLogs(FILTER, 0, 39);
+
+    expect(blocks(logs)).toEqual(Array.from({ length: 40 }, (_, i) => i));
+    expect(requests.map(([, from, to]) => to - from + 1)).toEqual([8, 4, 4, 4, 4, 4, 8, 8, 4]);
+  });
+
+  it('keeps the window for the next scans of the provider', async () => {
+    const { scanner, requests } = createScanner({ a: limitedTo(2) });
+    await scanner.getLogs(FILTER, 0, 3);
+    requests.length = 0;
+
+    await scanner.getLogs(FILTER, 10, 13);
+
+    expect(requests).toEqual([
+      ['a', 10, 11],
+      ['a', 12, 13],
+    ]);
+  });
+
+  it('switches to the next provider on other errors', async () => {
+    const { scanner, requests, logger, blocks } = createScanner({ a: failing('connection refused'), b: logsOf });
+
+    expect(blocks(await scanner.getLogs(FILTER, 0, 3))).toEqual([0, 1, 2, 3]);
+    expect(blocks(await scanner.getLogs(FILTER, 4, 5))).toEqual([4, 5]);
+
+    expect(requests).toEqual([
+      ['a', 0, 3],
+      ['b', 0, 3],
+      ['b', 4, 5],
+    ]);
+    expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('switching to [b]'));
+  });
+
+  it('fails once every provider fails', async () => {
+    const { scanner, requests } = createScanner({ a: failing('connection refused'), b: failing('bad gateway') });
+
+    await expect(scanner.getLogs(FILTER, 0, 3)).rejects.toThrow('bad gateway');
+    expect(requests).toEqual([
+      ['a', 0, 3],
+      ['b', 0, 3],
+    ]);
+  });
+
+  it('switches to the next provider when a single block is rejected as too large', async () => {
+    const { scanner, requests, blocks } = createScanner({ a: limitedTo(0), b: logsOf }, 1);
+
+    expect(blocks(await scanner.getLogs(FILTER, 7, 7))).toEqual([7]);
+    expect(requests).toEqual([
+      ['a', 7, 7],
+      ['b', 7, 7],
+    ]);
+  });
+
+  it('fails when every provider rejects a single block as too large', async () => {
+    const { scanner, requests } = createScanner({ a: limitedTo(0), b: limitedTo(0) }, 2);
+
+    await expect(scanner.getLogs(FILTER, 7, 8)).rejects.toThrow('more than 10000 results');
+    expect(requests).toEqual([
+      ['a', 7, 8],
+      ['a', 7, 7],
+      ['b', 7, 8],
+      ['b', 7, 7],
+    ]);
+  });
+});
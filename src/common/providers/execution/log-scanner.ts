@@ -0,0 +1,149 @@
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { Inject, Injectable, LoggerService, Optional } from '@nestjs/common';
+import { ethers } from 'ethers';
+
+import { ConfigService } from '../../config/config.service';
+import { PrometheusService, RequestStatus } from '../../prometheus';
+
+export type LogsFilter = Pick<ethers.providers.Filter, 'address' | 'topics'>;
+
+interface ProviderRange {
+  // Current block window of eth_getLogs requests
+  window: number;
+  // Consecutive successful requests since the window was last changed
+  successes: number;
+}
+
+/**
+ * Scans block ranges with eth_getLogs, adapting to the limits of each EL_RPC_URLS provider.
+ * The range is bisected when a provider rejects it as too large or returning too many results,
+ * and the window grows again after consecutive successes. Other errors switch to the next provider
+ */
+@Injectable()
+export class LogScanner {
+  // Successful requests in a row before the window is doubled
+  private static readonly GROW_AFTER_SUCCESSES = 5;
+  // Limit exceeded
+  private static readonly RANGE_ERROR_CODES = [-32005];
+  private static readonly RANGE_ERROR_PATTERN =
+    /block range|range (is )?too (large|wide|big)|too many (results|logs|blocks)|more than \d+ results|limit exceeded|size exceeded|response size|exceeds? (the )?(max|limit)|query timeout|10,?000 range/i;
+
+  private readonly providers: Array<{ target: string; provider: ethers.providers.StaticJsonRpcProvider }>;
+  private readonly ranges = new Map<string, ProviderRange>();
+  private current = 0;
+
+  constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly config: ConfigService,
+    @Optional() protected readonly prometheus: PrometheusService,
+  ) {
+    this.providers = (this.config.get('EL_RPC_URLS') as string[]).map((url) => ({
+      target: new URL(url).hostname,
+      provider: new ethers.providers.StaticJsonRpcProvider(
+        { url, timeout: this.config.get('EL_RPC_RESPONSE_TIMEOUT_MS') },
+        this.config.get('CHAIN_ID'),
+      ),
+    }));
+  }
+
+  public async getLogs(filter: LogsFilter, fromBlock: number, toBlock: number): Promise<ethers.providers.Log[]> {
+    const logs: ethers.providers.Log[] = [];
+    let failedProviders = 0;
+    let from = fromBlock;
+
+    while (from <= toBlock) {
+      const { target, provider } = this.providers[this.current];
+      const range = this.getRange(target);
+      const to = Math.min(from + range.window - 1, toBlock);
+
+      try {
+        logs.push(...(await this.request(target, provider, { ...filter, fromBlock: from, toBlock: to })));
+        this.onSuccess(target, range, to - from + 1);
+        failedProviders = 0;
+        from = to + 1;
+      } catch (error) {
+        if (this.isRangeError(error) && to > from) {
+          this.onRangeError(target, range, to - from + 1, error);
+          continue;
+        }
+
+        failedProviders++;
+        if (failedProviders >= this.providers.length) {
+          throw error;
+        }
+        this.current = (this.current + 1) % this.providers.length;
+        this.logger.warn(
+          `eth_getLogs failed on [${target}] for blocks ${from}-${to}, switching to [${this.providers[this.current].target}]: ${error.message}`,
+        );
+      }
+    }
+
+    return logs;
+  }
+
+  private async request(
+    target: string,
+    provider: ethers.providers.StaticJsonRpcProvider,
+    filter: ethers.providers.Filter,
+  ): Promise<ethers.providers.Log[]> {
+    const stop = this.prometheus?.outgoingELRequestsDuration.startTimer({ name: 'getLogs', target });
+    try {
+      const logs = await provider.getLogs(filter);
+      this.prometheus?.outgoingELRequestsCount.inc({ name: 'getLogs', target, status: RequestStatus.COMPLETE });
+      return logs;
+    } catch (error) {
+      this.prometheus?.outgoingELRequestsCount.inc({ name: 'getLogs', target, status: RequestStatus.ERROR });
+      throw error;
+    } finally {
+      stop?.();
+    }
+  }
+
+  private getRange(target: string): ProviderRange {
+    let range = this.ranges.get(target);
+    if (!range) {
+      range = { window: this.config.get('EL_LOGS_MAX_BLOCK_RANGE'), successes: 0 };
+      this.ranges.set(target, range);
+      this.prometheus?.logsScanWindow.set({ target }, range.window);
+    }
+    return range;
+  }
+
+  private onSuccess(target: string, range: ProviderRange, requested: number): void {
+    const maxWindow = this.config.get('EL_LOGS_MAX_BLOCK_RANGE');
+    // Only requests of the full window prove the provider can handle it
+    if (requested < range.window || range.window >= maxWindow) {
+      return;
+    }
+
+    range.successes++;
+    if (range.successes >= LogScanner.GROW_AFTER_SUCCESSES) {
+      range.window = Math.min(range.window * 2, maxWindow);
+      range.successes = 0;
+      this.prometheus?.logsScanWindow.set({ target }, range.window);
+      this.logger.debug?.(`eth_getLogs window for [${target}] grown to ${range.window} blocks`);
+    }
+  }
+
+  private onRangeError(target: string, range: ProviderRange, requested: number, error: any): void {
+    range.window = Math.max(1, Math.floor(requested / 2));
+    range.successes = 0;
+    this.prometheus?.logsScanSplitsCount.inc({ target });
+    this.prometheus?.logsScanWindow.set({ target }, range.window);
+    this.logger.warn(
+      `eth_getLogs range of ${requested} blocks rejected by [${target}], splitting:` +
+        `\n  New window: ${range.window} blocks` +
+        `\n  Error: ${error.message}`,
+    );
+  }
+
+  private isRangeError(error: any): boolean {
+    const codes = [error.code, error.error?.code].filter((code) => typeof code === 'number');
+    if (codes.some((code) => LogScanner.RANGE_ERROR_CODES.includes(code))) {
+      return true;
+    }
+
+    const messages = [error.message, error.error?.message, error.body].filter(Boolean).join(' ');
+    return LogScanner.RANGE_ERROR_PATTERN.test(messages);
+  }
+}
@@ -0,0 +1,115 @@
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { Inject, Injectable, LoggerService, Optional } from '@nestjs/common';
+import { Signer, utils } from 'ethers';
+import { request } from 'undici';
+
+import { ConfigService } from '../../config/config.service';
+import { PrivateRelayMethod } from '../../config/env.validation';
+import { PrometheusService, RequestStatus } from '../../prometheus';
+
+export enum SubmissionPath {
+  private = 'private',
+  public = 'public',
+}
+
+const RELAY_TIMEOUT_MS = 10 * 1000;
+
+/**
+ * Private transaction relays (TX_PRIVATE_RELAY_URLS), transactions sent to them skip the public mempool.
+ * Requests are signed by the transaction signer with the `X-Flashbots-Signature` header, relays without
+ * authentication ignore it
+ */
+@Injectable()
+export class PrivateRelays {
+  constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly config: ConfigService,
+    @Optional() protected readonly prometheus: PrometheusService,
+  ) {}
+
+  public get enabled(): boolean {
+    return this.config.get('TX_PRIVATE_RELAY_URLS').length > 0;
+  }
+
+  /**
+   * Send the signed transaction to every relay for inclusion up to `maxBlockNumber`.
+   * Returns the number of relays that accepted it
+   */
+  public async send(signedTx: string, signer: Signer, blockNumber: number, maxBlockNumber: number): Promise<number> {
+    const payloads = this.buildPayloads(signedTx, blockNumber, maxBlockNumber);
+    const accepted = await Promise.all(
+      this.config.get('TX_PRIVATE_RELAY_URLS').map((url) => this.sendToRelay(url, payloads, signer)),
+    );
+    return accepted.filter(Boolean).length;
+  }
+
+  private buildPayloads(signedTx: string, blockNumber: number, maxBlockNumber: number): object[] {
+    const method = this.config.get('TX_PRIVATE_RELAY_METHOD');
+    switch (method) {
+      case PrivateRelayMethod.PrivateTransaction:
+        return [
+          {
+            jsonrpc: '2.0',
+            id: 1,
+            method,
+            params: [{ tx: signedTx, maxBlockNumber: utils.hexValue(maxBlockNumber) }],
+          },
+        ];
+      case PrivateRelayMethod.Bundle:
+        // A bundle targets a single block, so one bundle is sent for every block until the fallback
+        return Array.from({ length: maxBlockNumber - blockNumber }, (_, i) => ({
+          jsonrpc: '2.0',
+          id: i + 1,
+          method,
+          params: [{ txs: [signedTx], blockNumber: utils.hexValue(blockNumber + i + 1) }],
+        }));
+      default:
+        throw new Error(`Unknown private relay method [${method}]`);
+    }
+  }
+
+  private async sendToRelay(url: string, payloads: object[], signer: Signer): Promise<boolean> {
+    const relay = new URL(url).hostname;
+    const results = await Promise.all(
+      payloads.map((payload) =>
+        this.post(url, payload, signer).then(
+          () => true,
+          (error) => {
+            this.logger.warn(`Private relay [${relay}] rejected the transaction: ${error.message}`);
+            return false;
+          },
+        ),
+      ),
+    );
+
+    const accepted = results.some(Boolean);
+    this.prometheus?.privateRelayRequestsCount.inc({
+      relay,
+      status: accepted ? RequestStatus.COMPLETE : RequestStatus.ERROR,
+    });
+    return accepted;
+  }
+
+  private async post(url: string, payload: object, signer: Signer): Promise<void> {
+    const body = JSON.stringify(payload);
+    const signature = `${await signer.getAddress()}:${await signer.signMessage(utils.id(body))}`;
+
+    const response = await request(url, {
+      method: 'POST',
+      headersTimeout: RELAY_TIMEOUT_MS,
+      bodyTimeout: RELAY_TIMEOUT_MS,
+      headers: { 'Content-Type': 'application/json', 'X-Flashbots-Signature': signature },
+      body,
+    });
+    const text = await response.body.text();
+    if (response.statusCode !== 200) {
+      throw new Error(`status code [${response.statusCode}] ${text.slice(0, 200)}`);
+    }
+
+    const { error } = JSON.parse(text);
+    // Relays report the transactions they already have as errors
+    if (error && !/already known/i.test(error.message ?? '')) {
+      throw new Error(error.message ?? JSON.stringify(error));
+    }
+  }
+}
@@ -0,0 +1,2 @@
+export * from './signer.provider';
+export * from './web3signer';
@@ -0,0 +1,60 @@
+import { readFile } from 'node:fs/promises';
+
+import { SimpleFallbackJsonRpcBatchProvider } from '@lido-nestjs/execution';
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { FactoryProvider, LoggerService } from '@nestjs/common';
+import { Signer, Wallet } from 'ethers';
+
+import { Web3Signer } from './web3signer';
+import { ConfigService } from '../../../config/config.service';
+import { SignerType } from '../../../config/env.validation';
+
+export const SIGNER_PROVIDER = 'SIGNER_PROVIDER';
+
+/**
+ * Transaction signer selected by TX_SIGNER_TYPE, null if no signer is configured (dry run)
+ */
+export const signerProvider: FactoryProvider<Signer | null> = {
+  provide: SIGNER_PROVIDER,
+  useFactory: async (
+    config: ConfigService,
+    provider: SimpleFallbackJsonRpcBatchProvider,
+    logger: LoggerService,
+  ): Promise<Signer | null> => {
+    const signer = await createSigner(config, provider);
+    if (signer) {
+      logger.log(`Signer: ${config.get('TX_SIGNER_TYPE')} ${await signer.getAddress()}`);
+    }
+    return signer;
+  },
+  inject: [ConfigService, SimpleFallbackJsonRpcBatchProvider, LOGGER_PROVIDER],
+};
+
+async function createSigner(
+  config: ConfigService,
+  provider: SimpleFallbackJsonRpcBatchProvider,
+): Promise<Signer | null> {
+  const type = config.get('TX_SIGNER_TYPE');
+  switch (type) {
+    case SignerType.PrivateKey: {
+      const privateKey = config.get('TX_SIGNER_PRIVATE_KEY');
+      return privateKey ? new Wallet(privateKey, provider) : null;
+    }
+    case SignerType.Keystore: {
+      const keystore = await readFile(config.get('TX_SIGNER_KEYSTORE_PATH')!, 'utf-8');
+      // Password files usually end with a newline, it is not a part of the password
+      const password = (await readFile(config.get('TX_SIGNER_KEYSTORE_PASSWORD_FILE')!, 'utf-8')).replace(/\r?\n$/, '');
+      const wallet = await Wallet.fromEncryptedJson(keystore, password);
+      return wallet.connect(provider);
+    }
+    case SignerType.Web3Signer:
+      return await Web3Signer.create(
+        config.get('TX_SIGNER_WEB3SIGNER_URL')!,
+        config.get('TX_SIGNER_WEB3SIGNER_PUBLIC_KEY'),
+        config.get('TX_SIGNER_WEB3SIGNER_TIMEOUT_MS'),
+        provider,
+      );
+    default:
+      throw new Error(`Unknown signer type [${type}]`);
+  }
+}
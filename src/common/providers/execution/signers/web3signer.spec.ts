@@ -0,0 +1,118 @@
+import { Server, createServer } from 'node:http';
+import { AddressInfo } from 'node:net';
+
+import { Wallet, utils } from 'ethers';
+
+import { Web3Signer, Web3SignerError } from './web3signer';
+
+const TIMEOUT_MS = 5000;
+
+const tx = {
+  type: 2,
+  chainId: 1,
+  nonce: 7,
+  to: '0x' + '22'.repeat(20),
+  data: '0x1234',
+  value: 0,
+  gasLimit: 100_000,
+  maxFeePerGas: 20_000_000_000,
+  maxPriorityFeePerGas: 1_000_000_000,
+};
+
+/**
+ * Minimal Web3Signer `eth1` API: lists the public keys and signs keccak256 of the data with the listed key
+ */
+function startStub(wallets: Wallet[], signingWallet?: Wallet): Promise<{ server: Server; url: string }> {
+  const server = createServer((req, res) => {
+    let body = '';
+    req.on('data', (chunk) => (body += chunk));
+    req.on('end', () => {
+      if (req.method === 'GET' && req.url === '/api/v1/eth1/publicKeys') {
+        res.end(JSON.stringify(wallets.map((wallet) => utils.hexDataSlice(wallet.publicKey, 1))));
+        return;
+      }
+
+      const match = /^\/api\/v1\/eth1\/sign\/(0x[0-9a-f]+)$/.exec(req.url ?? '');
+      const wallet = wallets.find((w) => match && utils.hexDataSlice(w.publicKey, 1) === match[1]);
+      if (req.method !== 'POST' || !wallet) {
+        res.statusCode = 404;
+        res.end('Public key not found');
+        return;
+      }
+
+      const { data } = JSON.parse(body);
+      const signature = (signingWallet ?? wallet)._signingKey().signDigest(utils.keccak256(data));
+      res.setHeader('Content-Type', 'text/plain');
+      res.end(utils.joinSignature(signature));
+    });
+  });
+
+  return new Promise((resolve) =>
+    server.listen(0, '127.0.0.1', () =>
+      resolve({ server, url: `http://127.0.0.1:${(server.address() as AddressInfo).port}` }),
+    ),
+  );
+}
+
+describe('Web3Signer', () => {
+  const wallet = new Wallet('0x' + '11'.repeat(32));
+  const otherWallet = new Wallet('0x' + '22'.repeat(32));
+  let server: Server | undefined;
+
+  afterEach(async () => {
+    await new Promise((resolve) => server?.close(resolve));
+    server = undefined;
+  });
+
+  it('uses the only key of the Web3Signer if the public key is not set', async () => {
+    const stub = await startStub([wallet]);
+    server = stub.server;
+
+    const signer = await Web3Signer.create(stub.url, undefined, TIMEOUT_MS);
+
+    expect(await signer.getAddress()).toBe(wallet.address);
+  });
+
+  it('requires the public key if the Web3Signer has several keys', async () => {
+    const stub = await startStub([wallet, otherWallet]);
+    server = stub.server;
+
+    await expect(Web3Signer.create(stub.url, undefined, TIMEOUT_MS)).rejects.toThrow(Web3SignerError);
+
+    const signer = await Web3Signer.create(stub.url, utils.hexDataSlice(otherWallet.publicKey, 1), TIMEOUT_MS);
+    expect(await signer.getAddress()).toBe(otherWallet.address);
+  });
+
+  it('signs transactions and messages the same way as a local wallet', async () => {
+    const stub = await startStub([wallet]);
+    server = stub.server;
+    const signer = await Web3Signer.create(stub.url, undefined, TIMEOUT_MS);
+
+    expect(await signer.signTransaction({ ...tx, from: wallet.address })).toBe(await wallet.signTransaction(tx));
+    expect(await signer.signMessage('late prover')).toBe(await wallet.signMessage('late prover'));
+  });
+
+  it('rejects transactions of another address', async () => {
+    const stub = await startStub([wallet]);
+    server = stub.server;
+    const signer = await Web3Signer.create(stub.url, undefined, TIMEOUT_MS);
+
+    await expect(signer.signTransaction({ ...tx, from: otherWallet.address })).rejects.toThrow(Web3SignerError);
+  });
+
+  it('rejects signatures not matching the signer address', async () => {
+    const stub = await startStub([wallet], otherWallet);
+    server = stub.server;
+    const signer = await Web3Signer.create(stub.url, undefined, TIMEOUT_MS);
+
+    await expect(signer.signTransaction(tx)).rejects.toThrow('does not match the signer address');
+  });
+
+  it('fails on error responses', async () => {
+    const stub = await startStub([wallet]);
+    server = stub.server;
+    const signer = new Web3Signer(stub.url, utils.hexDataSlice(otherWallet.publicKey, 1), TIMEOUT_MS);
+
+    await expect(signer.signTransaction(tx)).rejects.toThrow('status code [404]');
+  });
+});
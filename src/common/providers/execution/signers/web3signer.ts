@@ -0,0 +1,117 @@
+import { Provider, TransactionRequest } from '@ethersproject/abstract-provider';
+import { Deferrable } from '@ethersproject/properties';
+import { BytesLike, Signature, Signer, UnsignedTransaction, utils } from 'ethers';
+import { request } from 'undici';
+
+import { urljoin } from '../../base/utils/func';
+
+export class Web3SignerError extends Error {}
+
+/**
+ * Signer backed by a remote Web3Signer, the key never leaves it.
+ * Transactions and messages are serialized locally and signed through the `eth1` signing API,
+ * every returned signature is checked against the signer address
+ */
+export class Web3Signer extends Signer {
+  public readonly address: string;
+
+  constructor(
+    public readonly url: string,
+    public readonly publicKey: string,
+    protected readonly timeoutMs: number,
+    provider?: Provider,
+  ) {
+    super();
+    utils.defineReadOnly(this, 'provider', provider);
+    // Web3Signer lists uncompressed keys without the 0x04 prefix
+    const key = utils.hexDataLength(publicKey) === 64 ? utils.hexConcat(['0x04', publicKey]) : publicKey;
+    this.address = utils.computeAddress(key);
+  }
+
+  /**
+   * Signer of the public key, or of the only key loaded by the Web3Signer if the key is not set
+   */
+  public static async create(
+    url: string,
+    publicKey: string | undefined,
+    timeoutMs: number,
+    provider?: Provider,
+  ): Promise<Web3Signer> {
+    if (publicKey) {
+      return new Web3Signer(url, publicKey, timeoutMs, provider);
+    }
+
+    const keys: string[] = JSON.parse(await Web3Signer.request(url, 'GET', '/api/v1/eth1/publicKeys', timeoutMs));
+    if (keys.length !== 1) {
+      throw new Web3SignerError(
+        `Web3Signer has ${keys.length} eth1 keys, set TX_SIGNER_WEB3SIGNER_PUBLIC_KEY to choose the signing one`,
+      );
+    }
+    return new Web3Signer(url, keys[0], timeoutMs, provider);
+  }
+
+  public async getAddress(): Promise<string> {
+    return this.address;
+  }
+
+  public async signMessage(message: BytesLike | string): Promise<string> {
+    const bytes = typeof message === 'string' ? utils.toUtf8Bytes(message) : utils.arrayify(message);
+    // EIP-191 personal message, Web3Signer hashes the data itself
+    const data = utils.concat([utils.toUtf8Bytes(`\x19Ethereum Signed Message:\n${bytes.length}`), bytes]);
+    return utils.joinSignature(await this.sign(data));
+  }
+
+  public async signTransaction(transaction: Deferrable<TransactionRequest>): Promise<string> {
+    const { from, ...tx } = await utils.resolveProperties(transaction);
+    if (from != null && utils.getAddress(from) !== this.address) {
+      throw new Web3SignerError(`Transaction from address ${from} does not match the signer address ${this.address}`);
+    }
+
+    const unsigned = tx as UnsignedTransaction;
+    const signature = await this.sign(utils.arrayify(utils.serializeTransaction(unsigned)));
+    return utils.serializeTransaction(unsigned, signature);
+  }
+
+  public connect(provider: Provider): Web3Signer {
+    return new Web3Signer(this.url, this.publicKey, this.timeoutMs, provider);
+  }
+
+  private async sign(data: Uint8Array): Promise<Signature> {
+    const response = await Web3Signer.request(
+      this.url,
+      'POST',
+      `/api/v1/eth1/sign/${this.publicKey}`,
+      this.timeoutMs,
+      JSON.stringify({ data: utils.hexlify(data) }),
+    );
+
+    const signature = utils.splitSignature(response.trim());
+    if (utils.recoverAddress(utils.keccak256(data), signature) !== this.address) {
+      throw new Web3SignerError(`Web3Signer signature does not match the signer address ${this.address}`);
+    }
+    return signature;
+  }
+
+  private static async request(
+    url: string,
+    method: 'GET' | 'POST',
+    endpoint: string,
+    timeoutMs: number,
+    body?: string,
+  ): Promise<string> {
+    const response = await request(urljoin(url, endpoint), {
+      method,
+      headersTimeout: timeoutMs,
+      bodyTimeout: timeoutMs,
+      headers: body ? { 'Content-Type': 'application/json' } : undefined,
+      body,
+    });
+    const text = await response.body.text();
+    if (response.statusCode !== 200) {
+      throw new Web3SignerError(
+        `Web3Signer request failed with status code [${response.statusCode}]: ${endpoint} ${text.slice(0, 200)}`,
+      );
+    }
+    return text;
+  }
+}
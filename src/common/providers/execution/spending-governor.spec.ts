@@ -0,0 +1,120 @@
+import { TransactionReceipt } from '@ethersproject/abstract-provider';
+import { BigNumber, utils } from 'ethers';
+
+import { SpendingBudget, SpendingGovernor } from './spending-governor';
+
+const HOUR_MS = 60 * 60 * 1000;
+const GWEI = 10n ** 9n;
+
+const eth = (value: string) => utils.parseEther(value).toBigInt();
+
+const receipt = (hash: string, gasUsed: number, effectiveGasPrice?: bigint) =>
+  ({
+    transactionHash: hash,
+    gasUsed: BigNumber.from(gasUsed),
+    effectiveGasPrice: effectiveGasPrice !== undefined ? BigNumber.from(effectiveGasPrice) : undefined,
+  }) as unknown as TransactionReceipt;
+
+async function createGovernor(budgets: Record<string, number | undefined> = {}) {
+  const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  const config = { get: jest.fn((key: string) => budgets[key]) };
+  const store = { data: undefined as any, write: jest.fn() };
+  const storage = {
+    open: jest.fn(async (_name: string, data: any) => {
+      store.data = data;
+      return store;
+    }),
+  };
+
+  const governor = new SpendingGovernor(logger, config as any, storage as any, undefined as any);
+  await governor.onModuleInit();
+  return { governor, store };
+}
+
+describe('SpendingGovernor', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2026-01-01T00:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  it('records the gas paid by a receipt once', async () => {
+    const { governor, store } = await createGovernor();
+
+    await governor.record(receipt('0x01', 100_000, 10n * GWEI), 50n * GWEI);
+    await governor.record(receipt('0x01', 100_000, 10n * GWEI), 50n * GWEI);
+
+    expect(governor.dailySpent).toBe(100_000n * 10n * GWEI);
+    expect(store.data.spends).toHaveLength(1);
+    expect(store.write).toHaveBeenCalledTimes(1);
+  });
+
+  it('falls back to the max fee per gas when the receipt has no effective gas price', async () => {
+    const { governor } = await createGovernor();
+
+    await governor.record(receipt('0x01', 100_000), 50n * GWEI);
+
+    expect(governor.dailySpent).toBe(100_000n * 50n * GWEI);
+  });
+
+  it('counts the spends of the last 24 hours and prunes the older ones', async () => {
+    const { governor, store } = await createGovernor();
+    await governor.record(receipt('0x01', 100_000, 10n * GWEI), 0n);
+    jest.advanceTimersByTime(20 * HOUR_MS);
+    await governor.record(receipt('0x02', 100_000, 20n * GWEI), 0n);
+
+    jest.advanceTimersByTime(5 * HOUR_MS);
+    // Left the window, still stored until the next record
+    expect(governor.dailySpent).toBe(100_000n * 20n * GWEI);
+    expect(store.data.spends).toHaveLength(2);
+
+    await governor.record(receipt('0x03', 100_000, 30n * GWEI), 0n);
+    expect(store.data.spends.map((spend: { hash: string }) => spend.hash)).toEqual(['0x02', '0x03']);
+  });
+
+  it('checks the per transaction, cycle and daily budgets in order', async () => {
+    const { governor } = await createGovernor({
+      TX_BUDGET_PER_TX_ETH: 0.01,
+      TX_BUDGET_PER_CYCLE_ETH: 0.015,
+      TX_BUDGET_DAILY_ETH: 0.02,
+    });
+    await governor.record(receipt('0x01', 1_000_000, 8n * GWEI), 0n); // 0.008 ETH
+
+    expect(governor.exceededBudget(eth('0.011'))).toBe(SpendingBudget.transaction);
+    expect(governor.exceededBudget(eth('0.008'))).toBe(SpendingBudget.cycle);
+    expect(governor.exceededBudget(eth('0.006'))).toBeUndefined();
+
+    governor.startCycle();
+    await governor.record(receipt('0x02', 1_000_000, 8n * GWEI), 0n); // 0.016 ETH in 24h, 0.008 in the cycle
+    expect(governor.exceededBudget(eth('0.005'))).toBe(SpendingBudget.daily);
+
+    jest.advanceTimersByTime(24 * HOUR_MS);
+    expect(governor.exceededBudget(eth('0.005'))).toBeUndefined();
+  });
+
+  it('starts each cycle with an empty cycle budget', async () => {
+    const { governor } = await createGovernor({ TX_BUDGET_PER_CYCLE_ETH: 0.01 });
+    await governor.record(receipt('0x01', 1_000_000, 8n * GWEI), 0n);
+    expect(governor.exceededBudget(eth('0.005'))).toBe(SpendingBudget.cycle);
+
+    governor.startCycle();
+
+    expect(governor.exceededBudget(eth('0.005'))).toBeUndefined();
+  });
+
+  it('accepts any cost without budgets', async () => {
+    const { governor } = await createGovernor();
+    await governor.record(receipt('0x01', 1_000_000, 8n * GWEI), 0n);
+
+    expect(governor.exceededBudget(eth('1000'))).toBeUndefined();
+    expect(governor.maxFeePerGas(100_000n)).toBeUndefined();
+  });
+
+  it('caps the max fee per gas by the per transaction budget', async () => {
+    const { governor } = await createGovernor({ TX_BUDGET_PER_TX_ETH: 0.01 });
+
+    expect(governor.maxFeePerGas(1_000_000n)).toBe(10n * GWEI);
+  });
+});
@@ -0,0 +1,145 @@
+import { TransactionReceipt } from '@ethersproject/abstract-provider';
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { Inject, Injectable, LoggerService, OnModuleInit, Optional } from '@nestjs/common';
+import { utils } from 'ethers';
+
+import { ConfigService } from '../../config/config.service';
+import { PrometheusService } from '../../prometheus/prometheus.service';
+import { StorageService, Store } from '../../storage';
+
+export enum SpendingBudget {
+  transaction = 'transaction',
+  cycle = 'cycle',
+  daily = 'daily',
+}
+
+/**
+ * Gas paid by a mined transaction of the signer
+ */
+interface Spend {
+  hash: string;
+  timestamp: number;
+  wei: string;
+}
+
+interface SpendingData {
+  // Spends of the last 24 hours
+  spends: Spend[];
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Limits the ETH spent on gas by the signer.
+ * Actual spend (`gasUsed * effectiveGasPrice`) is recorded from receipts and persisted for the rolling 24h window,
+ * transactions are checked against TX_BUDGET_PER_TX_ETH, TX_BUDGET_PER_CYCLE_ETH and TX_BUDGET_DAILY_ETH
+ * with their worst-case cost before sending
+ */
+@Injectable()
+export class SpendingGovernor implements OnModuleInit {
+  private store: Store<SpendingData>;
+  // Spent since the start of the daemon cycle, or of the CLI run
+  private cycleSpent = 0n;
+
+  constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly config: ConfigService,
+    protected readonly storage: StorageService,
+    @Optional() protected readonly prometheus: PrometheusService,
+  ) {}
+
+  async onModuleInit(): Promise<void> {
+    // Opened before the transaction manager records the receipts of the previous run
+    this.store = await this.storage.open<SpendingData>('spending', { spends: [] });
+    this.updateMetrics();
+  }
+
+  public get dailySpent(): bigint {
+    const since = Date.now() - DAY_MS;
+    return this.store.data.spends
+      .filter((spend) => spend.timestamp > since)
+      .reduce((total, spend) => total + BigInt(spend.wei), 0n);
+  }
+
+  public startCycle(): void {
+    this.cycleSpent = 0n;
+    this.updateMetrics();
+  }
+
+  /**
+   * Record the gas paid by the mined transaction, receipts recorded before are ignored
+   */
+  public async record(receipt: TransactionReceipt, fallbackGasPrice: bigint): Promise<void> {
+    if (this.store.data.spends.some((spend) => spend.hash === receipt.transactionHash)) {
+      return;
+    }
+
+    // Some nodes omit the effective gas price, the max fee per gas is its upper bound
+    const gasPrice = receipt.effectiveGasPrice?.toBigInt() ?? fallbackGasPrice;
+    const wei = receipt.gasUsed.toBigInt() * gasPrice;
+    this.cycleSpent += wei;
+    this.store.data.spends.push({ hash: receipt.transactionHash, timestamp: Date.now(), wei: wei.toString() });
+    this.prune();
+    await this.store.write();
+
+    this.prometheus?.gasSpentEth.inc(Number(utils.formatEther(wei)));
+    this.updateMetrics();
+    this.logger.log(
+      `Gas spent by ${receipt.transactionHash}:` +
+        `\n  Spent: ${utils.formatEther(wei)} ETH` +
+        `\n  Cycle: ${utils.formatEther(this.cycleSpent)} ETH` +
+        `\n  Last 24h: ${utils.formatEther(this.dailySpent)} ETH`,
+    );
+  }
+
+  /**
+   * The first budget the transaction with the worst-case cost would exceed, undefined if it fits in all of them
+   */
+  public exceededBudget(maxCost: bigint): SpendingBudget | undefined {
+    const perTx = this.budget('TX_BUDGET_PER_TX_ETH');
+    if (perTx !== undefined && maxCost > perTx) {
+      return SpendingBudget.transaction;
+    }
+
+    const perCycle = this.budget('TX_BUDGET_PER_CYCLE_ETH');
+    if (perCycle !== undefined && this.cycleSpent + maxCost > perCycle) {
+      return SpendingBudget.cycle;
+    }
+
+    const daily = this.budget('TX_BUDGET_DAILY_ETH');
+    if (daily !== undefined && this.dailySpent + maxCost > daily) {
+      return SpendingBudget.daily;
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Highest max fee per gas keeping the transaction within TX_BUDGET_PER_TX_ETH, undefined if not set
+   */
+  public maxFeePerGas(gasLimit: bigint): bigint | undefined {
+    const perTx = this.budget('TX_BUDGET_PER_TX_ETH');
+    return perTx !== undefined ? perTx / gasLimit : undefined;
+  }
+
+  private budget(key: 'TX_BUDGET_PER_TX_ETH' | 'TX_BUDGET_PER_CYCLE_ETH' | 'TX_BUDGET_DAILY_ETH'): bigint | undefined {
+    const eth = this.config.get(key);
+    return eth !== undefined ? utils.parseEther(eth.toFixed(18)).toBigInt() : undefined;
+  }
+
+  private prune(): void {
+    const since = Date.now() - DAY_MS;
+    this.store.data.spends = this.store.data.spends.filter((spend) => spend.timestamp > since);
+  }
+
+  private updateMetrics(): void {
+    this.prometheus?.gasSpentWindowEth.set(
+      { window: SpendingBudget.cycle },
+      Number(utils.formatEther(this.cycleSpent)),
+    );
+    this.prometheus?.gasSpentWindowEth.set(
+      { window: SpendingBudget.daily },
+      Number(utils.formatEther(this.dailySpent)),
+    );
+  }
+}
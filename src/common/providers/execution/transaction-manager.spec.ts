@@ -0,0 +1,348 @@
+import { TransactionReceipt } from '@ethersproject/abstract-provider';
+import { BigNumber, PopulatedTransaction, Transaction, Wallet, utils } from 'ethers';
+
+import { SubmissionPath } from './private-relays';
+import {
+  CancellationTimeoutError,
+  InFlightTransaction,
+  TransactionManager,
+  TransactionTimeoutError,
+} from './transaction-manager';
+
+// Spinners write to the terminal, the sending is awaited by the manager itself
+jest.mock('ora-classic', () => ({ promise: jest.fn() }));
+
+const MINUTE = 60 * 1000;
+const GWEI = 1_000_000_000n;
+
+const CONFIG = {
+  CHAIN_ID: 1,
+  TX_MINING_WAITING_TIMEOUT_MS: 60 * MINUTE,
+  TX_CANCELLATION_WAITING_TIMEOUT_MS: 30 * MINUTE,
+  TX_REPLACEMENT_INTERVAL_MS: 3 * MINUTE,
+  TX_REPLACEMENT_FEE_BUMP_PERCENT: 15,
+  TX_MAX_FEE_PER_GAS: Number(100n * GWEI),
+  TX_CONFIRMATIONS: 1,
+};
+
+/**
+ * Chain of a single signer: sent transactions stay pending until mined by the test, or right away with `autoMine`
+ */
+class StubChain {
+  public latestNonce: number;
+  public pendingNonce: number;
+  public autoMine = false;
+  public readonly sent: Transaction[] = [];
+  public readonly receipts = new Map<string, TransactionReceipt>();
+
+  public readonly provider = {
+    getTransactionCount: jest.fn(async (_address: string, tag: string) =>
+      tag === 'latest' ? this.latestNonce : this.pendingNonce,
+    ),
+    getTransactionReceipt: jest.fn(async (hash: string) => this.receipts.get(hash) ?? null),
+    sendTransaction: jest.fn(async (signed: string) => {
+      const tx = utils.parseTransaction(signed);
+      this.sent.push(tx);
+      this.pendingNonce = Math.max(this.pendingNonce, tx.nonce + 1);
+      if (this.autoMine) {
+        this.mine(tx.hash!);
+      }
+    }),
+    getFeeData: jest.fn(async () => ({
+      maxFeePerGas: BigNumber.from(30n * GWEI),
+      maxPriorityFeePerGas: BigNumber.from(GWEI),
+    })),
+    getBlockNumber: jest.fn(async () => 1000),
+    waitForTransaction: jest.fn(async (hash: string) => this.receipts.get(hash)),
+  };
+
+  constructor(nonce = 0) {
+    this.latestNonce = nonce;
+    this.pendingNonce = nonce;
+  }
+
+  public get lastSent(): Transaction {
+    return this.sent[this.sent.length - 1];
+  }
+
+  public mine(hash: string): void {
+    this.receipts.set(hash, {
+      transactionHash: hash,
+      blockNumber: 1000,
+      gasUsed: BigNumber.from(21_000),
+      effectiveGasPrice: BigNumber.from(GWEI),
+    } as TransactionReceipt);
+    this.latestNonce++;
+  }
+}
+
+const wallet = new Wallet('0x' + '11'.repeat(32));
+
+const populated = (fees: { maxFeePerGas?: bigint; maxPriorityFeePerGas?: bigint } = {}): PopulatedTransaction => ({
+  to: '0x' + '22'.repeat(20),
+  data: '0x1234',
+  gasLimit: BigNumber.from(100_000),
+  maxFeePerGas: BigNumber.from(fees.maxFeePerGas ?? 20n * GWEI),
+  maxPriorityFeePerGas: BigNumber.from(fees.maxPriorityFeePerGas ?? GWEI),
+});
+
+const tracked = (nonce: number, overrides: Partial<InFlightTransaction> = {}): InFlightTransaction => ({
+  from: wallet.address,
+  nonce,
+  to: '0x' + '22'.repeat(20),
+  data: '0x1234',
+  value: '0',
+  gasLimit: '100000',
+  maxFeePerGas: (20n * GWEI).toString(),
+  maxPriorityFeePerGas: GWEI.toString(),
+  hashes: [utils.keccak256(utils.toUtf8Bytes(`tx-${nonce}`))],
+  cancel: false,
+  submission: SubmissionPath.public,
+  sentAt: Date.now(),
+  replacedAt: Date.now(),
+  ...overrides,
+});
+
+async function createManager(
+  chain: StubChain,
+  options: { config?: Partial<typeof CONFIG>; transactions?: InFlightTransaction[] } = {},
+) {
+  const config = { ...CONFIG, ...options.config };
+  const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+  const storage = {
+    open: jest.fn(async () => ({ data: { transactions: options.transactions ?? [] }, write: jest.fn() })),
+  };
+  const prometheus = {
+    inFlightTransactions: { set: jest.fn() },
+    stuckCancellations: { set: jest.fn() },
+    latestHeartbeat: { setToCurrentTime: jest.fn() },
+    transactionReplacementsCount: { inc: jest.fn() },
+    confirmedTransactionsCount: { inc: jest.fn() },
+  };
+  const spendingGovernor = { maxFeePerGas: jest.fn((): bigint | undefined => undefined), record: jest.fn() };
+
+  const manager = new TransactionManager(
+    logger,
+    { get: (key: keyof typeof CONFIG) => config[key] } as any,
+    storage as any,
+    prometheus as any,
+    chain.provider as any,
+    { enabled: false } as any,
+    spendingGovernor as any,
+    wallet,
+  );
+  await manager.onApplicationBootstrap();
+
+  return { manager, logger, prometheus, spendingGovernor };
+}
+
+describe('TransactionManager', () => {
+  beforeEach(() => {
+    jest.useFakeTimers({ now: new Date('2025-01-01T00:00:00Z') });
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  describe('nonces', () => {
+    it('assigns the pending nonce of the node, then consecutive nonces', async () => {
+      const chain = new StubChain(5);
+      chain.autoMine = true;
+      const { manager } = await createManager(chain);
+
+      await manager.send(populated());
+      await manager.send(populated());
+
+      expect(chain.sent.map((tx) => tx.nonce)).toEqual([5, 6]);
+      expect(chain.provider.getTransactionCount).toHaveBeenCalledWith(wallet.address, 'pending');
+      expect(manager.inFlight).toEqual([]);
+    });
+
+    it('syncs the nonce from the node again once sending fails', async () => {
+      const chain = new StubChain(5);
+      chain.autoMine = true;
+      const { manager } = await createManager(chain);
+      chain.provider.sendTransaction.mockRejectedValueOnce(new Error('insufficient funds'));
+
+      await expect(manager.send(populated())).rejects.toThrow('insufficient funds');
+      await manager.send(populated());
+
+      expect(chain.sent.map((tx) => tx.nonce)).toEqual([5]);
+      expect(chain.provider.getTransactionCount.mock.calls.filter(([, tag]) => tag === 'pending')).toHaveLength(3);
+      expect(manager.inFlight).toEqual([]);
+    });
+  });
+
+  describe('fees', () => {
+    it('caps the fees of the first sent version by TX_MAX_FEE_PER_GAS', async () => {
+      const chain = new StubChain();
+      chain.autoMine = true;
+      const { manager } = await createManager(chain);
+
+      await manager.send(populated({ maxFeePerGas: 150n * GWEI, maxPriorityFeePerGas: 120n * GWEI }));
+
+      expect(chain.lastSent.maxFeePerGas!.toBigInt()).toBe(100n * GWEI);
+      expect(chain.lastSent.maxPriorityFeePerGas!.toBigInt()).toBe(100n * GWEI);
+    });
+
+    it('caps the fees of the first sent version by the per transaction budget', async () => {
+      const chain = new StubChain();
+      chain.autoMine = true;
+      const { manager, spendingGovernor } = await createManager(chain);
+      spendingGovernor.maxFeePerGas.mockReturnValue(10n * GWEI);
+
+      await manager.send(populated());
+
+      expect(spendingGovernor.maxFeePerGas).toHaveBeenCalledWith(100_000n);
+      expect(chain.lastSent.maxFeePerGas!.toBigInt()).toBe(10n * GWEI);
+    });
+
+    it('replaces the transaction with bumped fees until mined', async () => {
+      const chain = new StubChain();
+      const { manager, prometheus } = await createManager(chain);
+
+      const sending = manager.send(populated());
+      await jest.advanceTimersByTimeAsync(CONFIG.TX_REPLACEMENT_INTERVAL_MS);
+
+      expect(chain.sent.map((tx) => tx.maxFeePerGas!.toBigInt())).toEqual([20n * GWEI, 23n * GWEI]);
+      expect(chain.lastSent.nonce).toBe(chain.sent[0].nonce);
+      expect(prometheus.transactionReplacementsCount.inc).toHaveBeenCalledWith({ reason: 'fee_bump' });
+
+      // The first version is mined after all
+      chain.mine(chain.sent[0].hash!);
+      await jest.advanceTimersByTimeAsync(12 * 1000);
+
+      await expect(sending).resolves.toMatchObject({ transactionHash: chain.sent[0].hash });
+      expect(manager.inFlight).toEqual([]);
+    });
+
+    it('stops bumping the fees at TX_MAX_FEE_PER_GAS', async () => {
+      const chain = new StubChain();
+      const { manager, logger } = await createManager(chain, { config: { TX_MAX_FEE_PER_GAS: Number(25n * GWEI) } });
+
+      const sending = manager.send(populated());
+      await jest.advanceTimersByTimeAsync(3 * CONFIG.TX_REPLACEMENT_INTERVAL_MS);
+
+      // 20 Gwei bumped by 15% once, the next bump would exceed the ceiling
+      expect(chain.sent.map((tx) => tx.maxFeePerGas!.toBigInt())).toEqual([20n * GWEI, 23n * GWEI]);
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('the fee ceiling is reached'));
+
+      chain.mine(chain.lastSent.hash!);
+      await jest.advanceTimersByTimeAsync(12 * 1000);
+      await sending;
+    });
+  });
+
+  describe('cancellation', () => {
+    it('cancels the transaction not mined within TX_MINING_WAITING_TIMEOUT_MS', async () => {
+      const chain = new StubChain();
+      const { manager } = await createManager(chain, { config: { TX_MAX_FEE_PER_GAS: Number(20n * GWEI) } });
+
+      const sending = manager.send(populated());
+      const failed = expect(sending).rejects.toBeInstanceOf(TransactionTimeoutError);
+      await jest.advanceTimersByTimeAsync(CONFIG.TX_MINING_WAITING_TIMEOUT_MS);
+      await failed;
+
+      // The cancellation exceeds the fee ceiling once to replace the pending transaction
+      expect(chain.lastSent).toMatchObject({ nonce: 0, to: wallet.address, data: '0x' });
+      expect(chain.lastSent.value.isZero()).toBe(true);
+      expect(chain.lastSent.gasLimit.toNumber()).toBe(21_000);
+      expect(chain.lastSent.maxFeePerGas!.toBigInt()).toBe(23n * GWEI);
+      expect(manager.inFlight).toEqual([expect.objectContaining({ nonce: 0, cancel: true })]);
+    });
+
+    it('fails the next sending once the cancellation is not mined within TX_CANCELLATION_WAITING_TIMEOUT_MS', async () => {
+      const chain = new StubChain(3);
+      chain.pendingNonce = 4;
+      const { manager, prometheus } = await createManager(chain, {
+        config: { TX_MAX_FEE_PER_GAS: Number(20n * GWEI) },
+        transactions: [tracked(3, { cancel: true, to: wallet.address, data: '0x', gasLimit: '21000' })],
+      });
+
+      const sending = manager.send(populated());
+      const failed = expect(sending).rejects.toBeInstanceOf(CancellationTimeoutError);
+      await jest.advanceTimersByTimeAsync(CONFIG.TX_CANCELLATION_WAITING_TIMEOUT_MS);
+      await failed;
+
+      // Only the cancellation is sent again, no transaction is queued behind it
+      expect(chain.sent.every((tx) => tx.nonce === 3)).toBe(true);
+      expect(manager.inFlight).toEqual([expect.objectContaining({ nonce: 3, cancel: true })]);
+      expect(prometheus.stuckCancellations.set).toHaveBeenLastCalledWith(1);
+    });
+
+    it('cancels a nonce not sent by the bot with the given fees', async () => {
+      const chain = new StubChain(7);
+      chain.pendingNonce = 8;
+      chain.autoMine = true;
+      const { manager } = await createManager(chain);
+
+      const receipt = await manager.cancel(7, { maxFeePerGas: 50n * GWEI, maxPriorityFeePerGas: 2n * GWEI });
+
+      expect(receipt.transactionHash).toBe(chain.lastSent.hash);
+      expect(chain.lastSent).toMatchObject({ nonce: 7, to: wallet.address });
+      expect(chain.lastSent.maxFeePerGas!.toBigInt()).toBe(50n * GWEI);
+    });
+
+    it('refuses to cancel a mined nonce', async () => {
+      const chain = new StubChain(7);
+      const { manager } = await createManager(chain);
+
+      await expect(manager.cancel(6)).rejects.toThrow('already used by a mined transaction');
+      expect(chain.sent).toEqual([]);
+    });
+  });
+
+  describe('recover', () => {
+    it('drops the transactions mined while stopped and keeps the pending ones', async () => {
+      const chain = new StubChain(4);
+      chain.pendingNonce = 6;
+      const mined = tracked(3);
+      chain.receipts.set(mined.hashes[0], { transactionHash: mined.hashes[0], gasUsed: BigNumber.from(1) } as any);
+      const foreign = tracked(4, { from: '0x' + '33'.repeat(20) });
+
+      const { manager, logger, spendingGovernor } = await createManager(chain, {
+        transactions: [mined, foreign, tracked(4)],
+      });
+
+      expect(manager.inFlight.map((tx) => [tx.from, tx.nonce])).toEqual([[wallet.address, 4]]);
+      expect(spendingGovernor.record).toHaveBeenCalledWith(
+        expect.objectContaining({ transactionHash: mined.hashes[0] }),
+        20n * GWEI,
+      );
+      // Nonce 5 is pending but not tracked
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Nonces: 5'));
+    });
+
+    it('settles the pending transactions before sending the next one', async () => {
+      const chain = new StubChain(4);
+      chain.pendingNonce = 5;
+      const pending = tracked(4);
+      const { manager } = await createManager(chain, { transactions: [pending] });
+      chain.autoMine = true;
+
+      await manager.send(populated());
+
+      // The pending transaction is sent again in case the node dropped it, the new one takes the next nonce
+      expect(chain.sent.map((tx) => tx.nonce)).toEqual([4, 5]);
+      expect(manager.inFlight).toEqual([]);
+    });
+
+    it('drops the pending transaction whose nonce was used elsewhere', async () => {
+      const chain = new StubChain(4);
+      chain.pendingNonce = 5;
+      const { manager, logger } = await createManager(chain, { transactions: [tracked(4)] });
+      // Mined by a transaction not sent by the bot
+      chain.latestNonce = 5;
+      chain.provider.sendTransaction.mockRejectedValueOnce(
+        Object.assign(new Error('nonce too low'), { code: 'NONCE_EXPIRED' }),
+      );
+      chain.autoMine = true;
+
+      await manager.send(populated());
+
+      expect(logger.warn).toHaveBeenCalledWith(expect.stringContaining('Nonce 4 was used by a transaction not sent'));
+      expect(chain.lastSent.nonce).toBe(5);
+    });
+  });
+});
@@ -0,0 +1,593 @@
+import { TransactionReceipt } from '@ethersproject/abstract-provider';
+import { SimpleFallbackJsonRpcBatchProvider } from '@lido-nestjs/execution';
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { Inject, Injectable, LoggerService, OnApplicationBootstrap, Optional } from '@nestjs/common';
+import { BigNumber, PopulatedTransaction, Signer, utils } from 'ethers';
+import { promise as spinnerFor } from 'ora-classic';
+
+import { PrivateRelays, SubmissionPath } from './private-relays';
+import { SIGNER_PROVIDER } from './signers';
+import { SpendingGovernor } from './spending-governor';
+import { bigIntMax, bigIntMin } from './utils/common';
+import { ConfigService } from '../../config/config.service';
+import { serializeError } from '../../logger/safe-error-format';
+import { PrometheusService } from '../../prometheus/prometheus.service';
+import { StorageService, Store } from '../../storage';
+
+export enum ReplacementReason {
+  fee_bump = 'fee_bump',
+  cancel = 'cancel',
+}
+
+/**
+ * Transaction sent by the bot and not mined yet.
+ * Replacements keep the nonce and bump the fees, so any of the sent versions may end up mined
+ */
+export interface InFlightTransaction {
+  from: string;
+  nonce: number;
+  to: string;
+  data: string;
+  value: string;
+  gasLimit: string;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  // Hashes of every sent version, the last one is current
+  hashes: string[];
+  // Replaced by a zero value transfer to the signer itself
+  cancel: boolean;
+  // Private transactions go to the public mempool if not mined until `privateUntilBlock`
+  submission: SubmissionPath;
+  privateUntilBlock?: number;
+  // Hashes accepted by the private relays
+  privateHashes?: string[];
+  sentAt: number;
+  replacedAt: number;
+}
+
+interface InFlightTransactionsData {
+  transactions: InFlightTransaction[];
+}
+
+export interface CancellationFees {
+  maxFeePerGas: bigint;
+  maxPriorityFeePerGas: bigint;
+}
+
+export class TransactionTimeoutError extends Error {}
+// The cancellation blocking the next transactions is not mined within TX_CANCELLATION_WAITING_TIMEOUT_MS
+export class CancellationTimeoutError extends TransactionTimeoutError {}
+// The nonce was used by a transaction not sent by the bot, e.g. from the same key elsewhere
+export class NonceConsumedError extends Error {}
+
+const RECEIPT_POLL_INTERVAL_MS = 12 * 1000; // One block
+const CANCEL_GAS_LIMIT = 21_000;
+
+/**
+ * Sends transactions of the signer with locally tracked nonces.
+ * In-flight transactions are persisted, replaced with bumped fees until mined or the fee ceiling is reached,
+ * and cancelled if not mined within TX_MINING_WAITING_TIMEOUT_MS. Leftovers of a previous run are settled
+ * before the next transaction is sent, so new transactions never queue behind a stuck nonce: a cancellation
+ * not mined within TX_CANCELLATION_WAITING_TIMEOUT_MS fails the sending instead
+ */
+@Injectable()
+export class TransactionManager implements OnApplicationBootstrap {
+  public readonly signer?: Signer;
+
+  private store: Store<InFlightTransactionsData>;
+  // Next nonce to assign, synced from the node when unknown
+  private nextNonce?: number;
+
+  constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly config: ConfigService,
+    protected readonly storage: StorageService,
+    @Optional() protected readonly prometheus: PrometheusService,
+    protected readonly provider: SimpleFallbackJsonRpcBatchProvider,
+    protected readonly privateRelays: PrivateRelays,
+    protected readonly spendingGovernor: SpendingGovernor,
+    @Inject(SIGNER_PROVIDER) signer: Signer | null,
+  ) {
+    this.signer = signer ?? undefined;
+  }
+
+  async onApplicationBootstrap(): Promise<void> {
+    this.store = await this.storage.open<InFlightTransactionsData>('in-flight-transactions', { transactions: [] });
+    this.updateMetrics();
+
+    if (!this.signer) {
+      return;
+    }
+
+    try {
+      await this.recover(await this.signer.getAddress());
+    } catch (error) {
+      // Transactions stay tracked and are checked again before the next one is sent
+      this.logger.error('Failed to recover in-flight transactions', serializeError(error));
+    }
+  }
+
+  public get inFlight(): InFlightTransaction[] {
+    return [...this.store.data.transactions].sort((a, b) => a.nonce - b.nonce);
+  }
+
+  /**
+   * Sign and send the transaction with the next nonce, then wait until it is mined and confirmed.
+   * Fees are capped by the fee ceiling, the transaction is replaced with bumped fees every
+   * TX_REPLACEMENT_INTERVAL_MS while not mined
+   */
+  public async send(tx: PopulatedTransaction): Promise<TransactionReceipt> {
+    const from = await this.requireSigner().getAddress();
+    await this.settleInFlight();
+
+    const gasLimit = BigNumber.from(tx.gasLimit).toBigInt();
+    const maxFeePerGas = bigIntMin(BigNumber.from(tx.maxFeePerGas).toBigInt(), this.feeCeiling(gasLimit));
+    const maxPriorityFeePerGas = bigIntMin(BigNumber.from(tx.maxPriorityFeePerGas).toBigInt(), maxFeePerGas);
+
+    const now = Date.now();
+    const inFlight: InFlightTransaction = {
+      from,
+      nonce: await this.assignNonce(from),
+      to: tx.to!,
+      data: tx.data ?? '0x',
+      value: BigNumber.from(tx.value ?? 0).toString(),
+      gasLimit: gasLimit.toString(),
+      maxFeePerGas: maxFeePerGas.toString(),
+      maxPriorityFeePerGas: maxPriorityFeePerGas.toString(),
+      hashes: [],
+      cancel: false,
+      submission: this.defaultSubmission,
+      sentAt: now,
+      replacedAt: now,
+    };
+
+    // Tracked before sending, so a crash right after sending does not lose the transaction
+    await this.track(inFlight);
+    try {
+      await this.broadcast(inFlight);
+    } catch (error) {
+      // The nonce is not used, sync it from the node again
+      await this.untrack(inFlight);
+      this.nextNonce = undefined;
+      throw error;
+    }
+
+    return await this.waitForMined(inFlight);
+  }
+
+  /**
+   * Replace the transaction with the nonce by a zero value transfer to the signer.
+   * Transactions not sent by the bot are replaced with the given fees, they must exceed the fees of the pending one
+   */
+  public async cancel(nonce: number, fees?: CancellationFees): Promise<TransactionReceipt> {
+    const from = await this.requireSigner().getAddress();
+
+    const tracked = this.store.data.transactions.find((tx) => tx.nonce === nonce);
+    if (tracked) {
+      await this.replace(tracked, true);
+      return await this.waitForMined(tracked);
+    }
+
+    const latestNonce = await this.provider.getTransactionCount(from, 'latest');
+    if (nonce < latestNonce) {
+      throw new Error(`Nonce ${nonce} is already used by a mined transaction`);
+    }
+
+    const feeData = await this.provider.getFeeData();
+    const now = Date.now();
+    const cancellation: InFlightTransaction = {
+      from,
+      nonce,
+      to: from,
+      data: '0x',
+      value: '0',
+      gasLimit: CANCEL_GAS_LIMIT.toString(),
+      maxFeePerGas: (fees?.maxFeePerGas ?? feeData.maxFeePerGas!.toBigInt()).toString(),
+      maxPriorityFeePerGas: (fees?.maxPriorityFeePerGas ?? feeData.maxPriorityFeePerGas!.toBigInt()).toString(),
+      hashes: [],
+      cancel: true,
+      submission: this.defaultSubmission,
+      sentAt: now,
+      replacedAt: now,
+    };
+    await this.track(cancellation);
+    try {
+      await this.broadcast(cancellation);
+    } catch (error) {
+      await this.untrack(cancellation);
+      throw error;
+    }
+    this.prometheus?.transactionReplacementsCount.inc({ reason: ReplacementReason.cancel });
+
+    return await this.waitForMined(cancellation);
+  }
+
+  // ==========================================
+  // RECOVERY
+  // ==========================================
+
+  /**
+   * Reconcile transactions persisted by the previous run with the chain.
+   * Mined ones are dropped, pending ones stay tracked and are settled before the next transaction is sent
+   */
+  private async recover(address: string): Promise<void> {
+    const latestNonce = await this.provider.getTransactionCount(address, 'latest');
+    const pendingNonce = await this.provider.getTransactionCount(address, 'pending');
+
+    for (const tx of this.inFlight) {
+      if (tx.from !== address) {
+        this.logger.warn(
+          `Dropping in-flight transaction of another signer:` + `\n  From: ${tx.from}` + `\n  Nonce: ${tx.nonce}`,
+        );
+        await this.untrack(tx);
+        continue;
+      }
+
+      if (tx.nonce < latestNonce) {
+        const receipt = await this.findReceipt(tx);
+        if (receipt) {
+          await this.spendingGovernor.record(receipt, BigInt(tx.maxFeePerGas));
+        }
+        this.logger.log(
+          `In-flight transaction with nonce ${tx.nonce} was mined while the bot was stopped:` +
+            `\n  Hash: ${receipt?.transactionHash ?? 'none of the sent versions, the nonce was used elsewhere'}` +
+            `\n  Cancellation: ${tx.cancel}`,
+        );
+        await this.untrack(tx);
+        continue;
+      }
+
+      this.logger.warn(
+        `In-flight transaction with nonce ${tx.nonce} is still pending:` +
+          `\n  Hash: ${tx.hashes[tx.hashes.length - 1]}` +
+          `\n  Sent: ${new Date(tx.sentAt).toISOString()}` +
+          `\n  Max fee per gas: ${utils.formatUnits(tx.maxFeePerGas, 'gwei')} Gwei` +
+          `\n  Cancellation: ${tx.cancel}`,
+      );
+    }
+
+    const tracked = new Set(this.store.data.transactions.map((tx) => tx.nonce));
+    const untracked: number[] = [];
+    for (let nonce = latestNonce; nonce < pendingNonce; nonce++) {
+      if (!tracked.has(nonce)) {
+        untracked.push(nonce);
+      }
+    }
+    if (untracked.length > 0) {
+      this.logger.warn(
+        `Signer has pending transactions not sent by the bot, new transactions are queued behind them:` +
+          `\n  Address: ${address}` +
+          `\n  Nonces: ${untracked.join(', ')}` +
+          `\n  Action: Use the cancel-transaction command if they are stuck`,
+      );
+    }
+
+    this.logger.log(
+      `In-flight transactions recovered:` +
+        `\n  Tracked: ${this.store.data.transactions.length}` +
+        `\n  Untracked pending: ${untracked.length}` +
+        `\n  Next nonce: ${pendingNonce}`,
+    );
+  }
+
+  /**
+   * Wait for the transactions left by a timeout or by the previous run
+   */
+  private async settleInFlight(): Promise<void> {
+    for (const tx of this.inFlight) {
+      this.logger.log(`Waiting for the in-flight transaction with nonce ${tx.nonce} before sending a new one`);
+      // The node may have dropped the transaction while the bot was stopped
+      await this.broadcast(tx).catch((error) =>
+        this.logger.warn(`Failed to send the in-flight transaction with nonce ${tx.nonce} again: ${error.message}`),
+      );
+      try {
+        await this.waitForMined(tx);
+      } catch (error) {
+        if (!(error instanceof NonceConsumedError)) {
+          throw error;
+        }
+        this.logger.warn(error.message);
+      }
+    }
+  }
+
+  // ==========================================
+  // SENDING
+  // ==========================================
+
+  private async assignNonce(address: string): Promise<number> {
+    if (this.nextNonce === undefined) {
+      const pendingNonce = await this.provider.getTransactionCount(address, 'pending');
+      const trackedNonce = Math.max(-1, ...this.store.data.transactions.map((tx) => tx.nonce)) + 1;
+      this.nextNonce = Math.max(pendingNonce, trackedNonce);
+    }
+    return this.nextNonce++;
+  }
+
+  /**
+   * Sign and send the current version of the transaction.
+   * Sending a version the node already knows, or one with a nonce already mined, is not an error
+   */
+  private async broadcast(tx: InFlightTransaction): Promise<void> {
+    const signer = this.requireSigner();
+    const signed = await signer.signTransaction({
+      type: 2,
+      chainId: this.config.get('CHAIN_ID'),
+      nonce: tx.nonce,
+      to: tx.to,
+      data: tx.data,
+      value: BigNumber.from(tx.value),
+      gasLimit: BigNumber.from(tx.gasLimit),
+      maxFeePerGas: BigNumber.from(tx.maxFeePerGas),
+      maxPriorityFeePerGas: BigNumber.from(tx.maxPriorityFeePerGas),
+    });
+    const hash = utils.keccak256(signed);
+    if (!tx.hashes.includes(hash)) {
+      tx.hashes.push(hash);
+      await this.save();
+    }
+
+    if (tx.submission === SubmissionPath.private && (await this.sendPrivately(tx, signed, signer))) {
+      return;
+    }
+
+    const sending = this.provider.sendTransaction(signed);
+    spinnerFor(sending, {
+      text:
+        `Sending transaction with nonce ${tx.nonce} and gasLimit: ${tx.gasLimit}, ` +
+        `maxFeePerGas: ${tx.maxFeePerGas}, maxPriorityFeePerGas: ${tx.maxPriorityFeePerGas}`,
+    });
+    try {
+      await sending;
+      this.logger.log(`Transaction sent to mempool. Hash: ${hash}`);
+    } catch (error) {
+      const known = /already known|known transaction|already imported/i.test(error.message ?? '');
+      // One of the earlier versions is mined
+      const mined = error.code === 'NONCE_EXPIRED' && tx.hashes.length > 1;
+      if (!(known || mined)) {
+        throw error;
+      }
+    }
+  }
+
+  /**
+   * Send the transaction to the private relays until its fallback block.
+   * False once the fallback block is reached or if no relay accepted it, the transaction then goes public
+   */
+  private async sendPrivately(tx: InFlightTransaction, signed: string, signer: Signer): Promise<boolean> {
+    const blockNumber = await this.provider.getBlockNumber();
+    const untilBlock = (tx.privateUntilBlock ??= blockNumber + this.config.get('TX_PRIVATE_RELAY_FALLBACK_BLOCKS'));
+
+    if (blockNumber < untilBlock) {
+      const accepted = await this.privateRelays.send(signed, signer, blockNumber, untilBlock);
+      if (accepted > 0) {
+        const hash = tx.hashes[tx.hashes.length - 1];
+        tx.privateHashes = Array.from(new Set([...(tx.privateHashes ?? []), hash]));
+        this.logger.log(`Transaction sent to ${accepted} private relays until block ${untilBlock}. ` + `Hash: ${hash}`);
+        await this.save();
+        return true;
+      }
+    }
+
+    this.logger.warn(
+      `Transaction with nonce ${tx.nonce} falls back to the public mempool: ` +
+        (blockNumber < untilBlock ? 'no private relay accepted it' : `not mined until block ${untilBlock}`),
+    );
+    tx.submission = SubmissionPath.public;
+    await this.save();
+    return false;
+  }
+
+  /**
+   * Replace the transaction with bumped fees, or with a cancellation.
+   * Fee bumps stop at TX_MAX_FEE_PER_GAS and at the fee keeping the transaction within TX_BUDGET_PER_TX_ETH,
+   * the first cancellation may exceed them to be accepted by the nodes
+   */
+  private async replace(tx: InFlightTransaction, cancel: boolean): Promise<void> {
+    const bump = BigInt(100 + this.config.get('TX_REPLACEMENT_FEE_BUMP_PERCENT'));
+    const currentMaxFee = BigInt(tx.maxFeePerGas);
+    const currentPriorityFee = BigInt(tx.maxPriorityFeePerGas);
+    const minMaxFee = (currentMaxFee * bump + 99n) / 100n;
+    const minPriorityFee = (currentPriorityFee * bump + 99n) / 100n;
+
+    const cancelling = cancel && !tx.cancel;
+    const gasLimit = cancelling ? BigInt(CANCEL_GAS_LIMIT) : BigInt(tx.gasLimit);
+    const feeCeiling = this.feeCeiling(gasLimit);
+    const ceiling = cancelling ? bigIntMax(minMaxFee, feeCeiling) : feeCeiling;
+    const maxFeePerGas = bigIntMin(minMaxFee, ceiling);
+    const maxPriorityFeePerGas = bigIntMin(minPriorityFee, maxFeePerGas);
+
+    tx.replacedAt = Date.now();
+    if (maxFeePerGas < minMaxFee || maxPriorityFeePerGas < minPriorityFee) {
+      this.logger.warn(
+        `Transaction with nonce ${tx.nonce} is not replaced, the fee ceiling is reached:` +
+          `\n  Max fee per gas: ${utils.formatUnits(currentMaxFee, 'gwei')} Gwei` +
+          `\n  Ceiling (TX_MAX_FEE_PER_GAS, TX_BUDGET_PER_TX_ETH): ${utils.formatUnits(ceiling, 'gwei')} Gwei`,
+      );
+      await this.save();
+      return;
+    }
+
+    const previous = { ...tx };
+    tx.maxFeePerGas = maxFeePerGas.toString();
+    tx.maxPriorityFeePerGas = maxPriorityFeePerGas.toString();
+    if (cancelling) {
+      tx.cancel = true;
+      tx.to = tx.from;
+      tx.data = '0x';
+      tx.value = '0';
+      tx.gasLimit = CANCEL_GAS_LIMIT.toString();
+      tx.sentAt = tx.replacedAt;
+    }
+
+    try {
+      await this.broadcast(tx);
+    } catch (error) {
+      // Sent hashes are kept, the replacement may still reach the mempool
+      Object.assign(tx, { ...previous, hashes: tx.hashes });
+      await this.save();
+      throw error;
+    }
+    await this.save();
+
+    const reason = cancelling ? ReplacementReason.cancel : ReplacementReason.fee_bump;
+    this.prometheus?.transactionReplacementsCount.inc({ reason });
+    this.logger.log(
+      `Transaction with nonce ${tx.nonce} replaced (${reason}):` +
+        `\n  Hash: ${tx.hashes[tx.hashes.length - 1]}` +
+        `\n  Max fee per gas: ${utils.formatUnits(currentMaxFee, 'gwei')} -> ${utils.formatUnits(maxFeePerGas, 'gwei')} Gwei` +
+        `\n  Max priority fee: ${utils.formatUnits(currentPriorityFee, 'gwei')} -> ${utils.formatUnits(maxPriorityFeePerGas, 'gwei')} Gwei`,
+    );
+  }
+
+  /**
+   * Max fee per gas allowed by TX_MAX_FEE_PER_GAS and by TX_BUDGET_PER_TX_ETH for the gas limit
+   */
+  private feeCeiling(gasLimit: bigint): bigint {
+    const maxFee = BigInt(this.config.get('TX_MAX_FEE_PER_GAS'));
+    const budgetMaxFee = this.spendingGovernor.maxFeePerGas(gasLimit);
+    return budgetMaxFee !== undefined ? bigIntMin(maxFee, budgetMaxFee) : maxFee;
+  }
+
+  // ==========================================
+  // CONFIRMATION
+  // ==========================================
+
+  /**
+   * Poll until one of the sent versions is mined, replacing the transaction on schedule.
+   * A transaction not mined within TX_MINING_WAITING_TIMEOUT_MS is cancelled, the cancellation stays tracked.
+   * Cancellations are bumped up to the fee ceiling, one not mined within TX_CANCELLATION_WAITING_TIMEOUT_MS
+   * stays tracked and fails the wait, so the transactions queued behind it are not blocked silently
+   */
+  private async waitForMined(tx: InFlightTransaction): Promise<TransactionReceipt> {
+    const timeout = this.config.get('TX_MINING_WAITING_TIMEOUT_MS');
+    const cancellationTimeout = this.config.get('TX_CANCELLATION_WAITING_TIMEOUT_MS');
+    const replacementInterval = this.config.get('TX_REPLACEMENT_INTERVAL_MS');
+
+    while (true) {
+      // Waiting for mining is bounded by the timeouts, it keeps the liveness check passing
+      this.prometheus?.latestHeartbeat.setToCurrentTime();
+      // Read the nonce before the receipts, so a version mined in between is not mistaken for a foreign one
+      const nonceUsed = (await this.provider.getTransactionCount(tx.from, 'latest')) > tx.nonce;
+      const receipt = await this.findReceipt(tx);
+      if (receipt) {
+        await this.waitForConfirmations(receipt);
+        await this.untrack(tx);
+        await this.spendingGovernor.record(receipt, BigInt(tx.maxFeePerGas));
+        const path = this.minedPath(tx, receipt);
+        this.prometheus?.confirmedTransactionsCount.inc({ path });
+        this.logger.log(`Transaction with nonce ${tx.nonce} mined from the ${path} submission path`);
+        return receipt;
+      }
+      if (nonceUsed) {
+        await this.untrack(tx);
+        throw new NonceConsumedError(
+          `Nonce ${tx.nonce} was used by a transaction not sent by the bot, hashes: ${tx.hashes.join(', ')}`,
+        );
+      }
+
+      const now = Date.now();
+      if (!tx.cancel && now - tx.sentAt >= timeout) {
+        await this.replace(tx, true);
+        throw new TransactionTimeoutError(
+          `Transaction with nonce ${tx.nonce} is not mined in ${timeout}ms, ` +
+            `cancellation ${tx.hashes[tx.hashes.length - 1]} is pending`,
+        );
+      }
+      if (now - tx.replacedAt >= replacementInterval) {
+        await this.replace(tx, tx.cancel);
+      }
+      if (tx.cancel && now - tx.sentAt >= cancellationTimeout) {
+        this.updateMetrics();
+        throw new CancellationTimeoutError(
+          `Cancellation of nonce ${tx.nonce} is not mined in ${cancellationTimeout}ms, ` +
+            `new transactions are blocked behind it:` +
+            `\n  Hash: ${tx.hashes[tx.hashes.length - 1]}` +
+            `\n  Max fee per gas: ${utils.formatUnits(tx.maxFeePerGas, 'gwei')} Gwei` +
+            `\n  Action: Raise TX_MAX_FEE_PER_GAS or cancel it with higher fees using the cancel-transaction command`,
+        );
+      }
+      if (
+        tx.submission === SubmissionPath.private &&
+        (await this.provider.getBlockNumber()) >= (tx.privateUntilBlock ?? 0)
+      ) {
+        // Falls back to the public mempool
+        await this.broadcast(tx);
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, RECEIPT_POLL_INTERVAL_MS));
+    }
+  }
+
+  /**
+   * Submission path of the mined version. Relays include transactions up to `privateUntilBlock` only,
+   * so a relayed version mined later was taken from the public mempool after the fallback
+   */
+  private minedPath(tx: InFlightTransaction, receipt: TransactionReceipt): SubmissionPath {
+    const relayed = tx.privateHashes?.includes(receipt.transactionHash.toLowerCase()) ?? false;
+    return relayed && receipt.blockNumber <= (tx.privateUntilBlock ?? 0)
+      ? SubmissionPath.private
+      : SubmissionPath.public;
+  }
+
+  private async findReceipt(tx: InFlightTransaction): Promise<TransactionReceipt | undefined> {
+    for (const hash of tx.hashes) {
+      const receipt = await this.provider.getTransactionReceipt(hash);
+      if (receipt) {
+        return receipt;
+      }
+    }
+    return undefined;
+  }
+
+  private async waitForConfirmations(receipt: TransactionReceipt): Promise<void> {
+    const confirmations = this.config.get('TX_CONFIRMATIONS');
+    const waiting = this.provider.waitForTransaction(
+      receipt.transactionHash,
+      confirmations,
+      this.config.get('TX_MINING_WAITING_TIMEOUT_MS'),
+    );
+    spinnerFor(waiting, { text: `Waiting until the transaction has been confirmed ${confirmations} times` });
+    await waiting;
+  }
+
+  // ==========================================
+  // PERSISTENCE
+  // ==========================================
+
+  private async track(tx: InFlightTransaction): Promise<void> {
+    this.store.data.transactions.push(tx);
+    await this.save();
+  }
+
+  private async untrack(tx: InFlightTransaction): Promise<void> {
+    this.store.data.transactions = this.store.data.transactions.filter((tracked) => tracked !== tx);
+    await this.save();
+  }
+
+  private async save(): Promise<void> {
+    await this.store.write();
+    this.updateMetrics();
+  }
+
+  private updateMetrics(): void {
+    this.prometheus?.inFlightTransactions.set(this.store.data.transactions.length);
+
+    const cancellationTimeout = this.config.get('TX_CANCELLATION_WAITING_TIMEOUT_MS');
+    const stuck = this.store.data.transactions.filter(
+      (tx) => tx.cancel && Date.now() - tx.sentAt >= cancellationTimeout,
+    );
+    this.prometheus?.stuckCancellations.set(stuck.length);
+  }
+
+  private get defaultSubmission(): SubmissionPath {
+    return this.privateRelays.enabled ? SubmissionPath.private : SubmissionPath.public;
+  }
+
+  private requireSigner(): Signer {
+    if (!this.signer) {
+      throw new Error('No specified signer');
+    }
+    return this.signer;
+  }
+}
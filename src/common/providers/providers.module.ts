@@ -3,10 +3,17 @@ import { Module } from '@nestjs/common';
 import { ConditionalModule } from '@nestjs/config';
 
 import { Consensus } from './consensus/consensus';
+import { StateCache } from './consensus/state-cache';
 import { Execution } from './execution/execution';
+import { LogScanner } from './execution/log-scanner';
+import { PrivateRelays } from './execution/private-relays';
+import { signerProvider } from './execution/signers';
+import { SpendingGovernor } from './execution/spending-governor';
+import { TransactionManager } from './execution/transaction-manager';
 import { ConfigService } from '../config/config.service';
 import { WorkingMode } from '../config/env.validation';
 import { PrometheusService, RequestStatus } from '../prometheus';
+import { StateWorkersModule } from '../state-workers';
 
 const ExecutionDaemon = () =>
   FallbackProviderModule.forRootAsync({
@@ -47,13 +54,37 @@ const ExecutionDaemon = () =>
     inject: [ConfigService, PrometheusService],
   });
 
+const ExecutionCli = () =>
+  FallbackProviderModule.forRootAsync({
+    async useFactory(configService: ConfigService) {
+      return {
+        urls: configService.get('EL_RPC_URLS') as NonEmptyArray<string>,
+        network: configService.get('CHAIN_ID'),
+      };
+    },
+    inject: [ConfigService],
+  });
+
 @Module({
   imports: [
+    StateWorkersModule,
     ConditionalModule.registerWhen(ExecutionDaemon(), (env: NodeJS.ProcessEnv) => {
       return env['WORKING_MODE'] === WorkingMode.Daemon;
     }),
+    ConditionalModule.registerWhen(ExecutionCli(), (env: NodeJS.ProcessEnv) => {
+      return env['WORKING_MODE'] === WorkingMode.CLI;
+    }),
+  ],
+  providers: [
+    Execution,
+    TransactionManager,
+    PrivateRelays,
+    SpendingGovernor,
+    signerProvider,
+    Consensus,
+    StateCache,
+    LogScanner,
   ],
-  providers: [Execution, Consensus],
-  exports: [Execution, Consensus],
+  exports: [Execution, TransactionManager, SpendingGovernor, Consensus, LogScanner],
 })
 export class ProvidersModule {}
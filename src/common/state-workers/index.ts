@@ -0,0 +1,3 @@
+export * from './state-workers.module';
+export * from './state-workers.service';
+export * from './types';
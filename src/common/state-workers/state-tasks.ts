@@ -0,0 +1,97 @@
+import { StateBytes, StateDeserializationError, StateTask, StateTaskType, StateValidator, stateKey } from './types';
+import { generateHistoricalStateProof, generateValidatorProof, toHex } from '../helpers/proofs';
+
+// The finalized state and the state of the proved slot are used together by the historical proofs
+const MAX_VIEWS = 2;
+
+/**
+ * Beacon state tasks executed inside a state worker.
+ * Recently deserialized states are kept, so consecutive tasks on the same state don't deserialize it again
+ */
+export class StateTasks {
+  private readonly views = new Map<string, any>();
+  private deserializations: Array<{ forkName: string; durationMs: number }> = [];
+
+  constructor(private readonly ssz: any) {}
+
+  public run(task: StateTask): any {
+    switch (task.type) {
+      case StateTaskType.load:
+        this.view(task.state);
+        return;
+      case StateTaskType.stateRoot:
+        // Checks the integrity of the bytes, so a cached view of the same key must not be used nor replaced
+        return toHex(this.deserialize(task.state).hashTreeRoot());
+      case StateTaskType.validators: {
+        const view = this.view(task.state);
+        return task.indices.map((index) => this.toStateValidator(view.validators.getReadonly(index)));
+      }
+      case StateTaskType.validatorProofs: {
+        const view = this.view(task.state);
+        return task.indices.map((index) => generateValidatorProof(view, index).witnesses.map(toHex));
+      }
+      case StateTaskType.historicalProof: {
+        const finalizedView = this.view(task.finalizedState);
+        const summaryView = this.view(task.summaryState);
+        const proof = generateHistoricalStateProof(finalizedView, summaryView, task.summaryIndex, task.rootIndex);
+        return proof.witnesses.map(toHex);
+      }
+      default:
+        throw new Error(`Unknown state task [${(task as StateTask).type}]`);
+    }
+  }
+
+  /**
+   * Deserializations since the previous call
+   */
+  public takeDeserializations(): Array<{ forkName: string; durationMs: number }> {
+    const deserializations = this.deserializations;
+    this.deserializations = [];
+    return deserializations;
+  }
+
+  private view(state: StateBytes): any {
+    const key = stateKey(state);
+    const cached = this.views.get(key);
+    if (cached) {
+      // Move to the end, the least recently used view is dropped first
+      this.views.delete(key);
+      this.views.set(key, cached);
+      return cached;
+    }
+
+    const view = this.deserialize(state);
+    this.views.set(key, view);
+    if (this.views.size > MAX_VIEWS) {
+      this.views.delete(this.views.keys().next().value as string);
+    }
+    return view;
+  }
+
+  private deserialize(state: StateBytes): any {
+    const startTime = Date.now();
+    let view;
+    try {
+      view = this.ssz[state.forkName].BeaconState.deserializeToView(state.bodyBytes);
+    } catch (error) {
+      throw new StateDeserializationError(
+        `Failed to deserialize ${state.forkName} state of ${state.bodyBytes.length} bytes: ${error.message}`,
+      );
+    }
+    this.deserializations.push({ forkName: state.forkName, durationMs: Date.now() - startTime });
+    return view;
+  }
+
+  private toStateValidator(validator: any): StateValidator {
+    return {
+      pubkey: toHex(validator.pubkey),
+      withdrawalCredentials: toHex(validator.withdrawalCredentials),
+      effectiveBalance: Number(validator.effectiveBalance),
+      slashed: Boolean(validator.slashed),
+      activationEligibilityEpoch: validator.activationEligibilityEpoch,
+      activationEpoch: validator.activationEpoch,
+      exitEpoch: validator.exitEpoch,
+      withdrawableEpoch: validator.withdrawableEpoch,
+    };
+  }
+}
@@ -0,0 +1,30 @@
+import { parentPort } from 'node:worker_threads';
+
+import { StateTasks } from './state-tasks';
+import { StateDeserializationError, StateTaskRequest, StateTaskResponse } from './types';
+
+// Entry point of a state worker thread, tasks are received one at a time
+const tasks: Promise<StateTasks> = eval(`import('@lodestar/types').then((m) => m.ssz)`).then(
+  (ssz: any) => new StateTasks(ssz),
+);
+
+parentPort!.on('message', async ({ id, task }: StateTaskRequest) => {
+  const stateTasks = await tasks;
+
+  let response: StateTaskResponse;
+  try {
+    const result = stateTasks.run(task);
+    response = { id, result, deserializations: stateTasks.takeDeserializations() };
+  } catch (error) {
+    response = {
+      id,
+      error: {
+        message: error instanceof Error ? error.message : String(error),
+        deserialization: error instanceof StateDeserializationError,
+      },
+      deserializations: stateTasks.takeDeserializations(),
+    };
+  }
+
+  parentPort!.postMessage(response);
+});
@@ -0,0 +1,9 @@
+import { Module } from '@nestjs/common';
+
+import { StateWorkers } from './state-workers.service';
+
+@Module({
+  providers: [StateWorkers],
+  exports: [StateWorkers],
+})
+export class StateWorkersModule {}
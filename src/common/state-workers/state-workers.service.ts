@@ -0,0 +1,216 @@
+import { join } from 'node:path';
+import { Worker } from 'node:worker_threads';
+
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { Inject, Injectable, LoggerService, OnModuleDestroy, Optional } from '@nestjs/common';
+
+import {
+  StateBytes,
+  StateDeserializationError,
+  StateTask,
+  StateTaskRequest,
+  StateTaskResponse,
+  StateTaskType,
+  StateValidator,
+  stateKey,
+} from './types';
+import { ConfigService } from '../config/config.service';
+import { PrometheusService } from '../prometheus/prometheus.service';
+
+interface PendingTask {
+  id: number;
+  task: StateTask;
+  // Key of the first state of the task, used to route it to the worker already holding the state
+  key: string;
+  startTime: number;
+  resolve: (result: any) => void;
+  reject: (error: Error) => void;
+}
+
+interface PooledWorker {
+  worker: Worker;
+  current?: PendingTask;
+  // Keys of the states the worker has recently deserialized
+  keys: string[];
+}
+
+// Mirrors the number of states kept by each worker
+const WORKER_STATE_KEYS = 2;
+
+/**
+ * Pool of worker threads deserializing beacon states and generating proofs.
+ * The main thread only holds state bytes in shared memory and receives validator fields and proofs,
+ * so the event loop (metrics, health checks) is never blocked by state trees
+ */
+@Injectable()
+export class StateWorkers implements OnModuleDestroy {
+  private readonly workers: PooledWorker[] = [];
+  private readonly queue: PendingTask[] = [];
+  private nextTaskId = 0;
+
+  constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly config: ConfigService,
+    @Optional() protected readonly prometheus: PrometheusService,
+  ) {}
+
+  public async onModuleDestroy(): Promise<void> {
+    const workers = this.workers.splice(0);
+    await Promise.all(workers.map(({ worker }) => worker.terminate()));
+  }
+
+  /**
+   * Deserialize the state in a worker, so corrupted data is detected before the state is used
+   */
+  public async load(state: StateBytes): Promise<void> {
+    await this.run({ type: StateTaskType.load, state });
+  }
+
+  public async getStateRoot(state: StateBytes): Promise<string> {
+    return await this.run({ type: StateTaskType.stateRoot, state });
+  }
+
+  /**
+   * Validators of the state, in the order of the indices
+   */
+  public async getValidators(state: StateBytes, indices: number[]): Promise<StateValidator[]> {
+    return await this.run({ type: StateTaskType.validators, state, indices });
+  }
+
+  /**
+   * Proofs of the validators against the state root, in the order of the indices
+   */
+  public async getValidatorProofs(state: StateBytes, indices: number[]): Promise<string[][]> {
+    return await this.run({ type: StateTaskType.validatorProofs, state, indices });
+  }
+
+  /**
+   * Proof of the block root at `rootIndex` of the historical summary `summaryIndex` against the finalized state root
+   */
+  public async getHistoricalProof(
+    finalizedState: StateBytes,
+    summaryState: StateBytes,
+    summaryIndex: number,
+    rootIndex: number,
+  ): Promise<string[]> {
+    return await this.run({
+      type: StateTaskType.historicalProof,
+      finalizedState,
+      summaryState,
+      summaryIndex,
+      rootIndex,
+    });
+  }
+
+  private run<T>(task: StateTask): Promise<T> {
+    const states =
+      task.type === StateTaskType.historicalProof ? [task.finalizedState, task.summaryState] : [task.state];
+    states.forEach((state) => this.share(state));
+
+    return new Promise<T>((resolve, reject) => {
+      this.queue.push({
+        id: this.nextTaskId++,
+        task,
+        key: stateKey(states[0]),
+        startTime: Date.now(),
+        resolve,
+        reject,
+      });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Move the state bytes to shared memory once, later tasks pass them to the workers without copying
+   */
+  private share(state: StateBytes): void {
+    if (state.bodyBytes.buffer instanceof SharedArrayBuffer) {
+      return;
+    }
+    const shared = new Uint8Array(new SharedArrayBuffer(state.bodyBytes.length));
+    shared.set(state.bodyBytes);
+    state.bodyBytes = shared;
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const idle = this.workers.filter((pooled) => !pooled.current);
+      if (idle.length === 0) {
+        if (this.workers.length >= this.config.get('STATE_WORKERS')) {
+          return;
+        }
+        idle.push(this.spawn());
+      }
+
+      const pending = this.queue.shift()!;
+      const pooled = idle.find(({ keys }) => keys.includes(pending.key)) ?? idle[0];
+
+      pooled.current = pending;
+      pooled.keys = [pending.key, ...pooled.keys.filter((key) => key !== pending.key)].slice(0, WORKER_STATE_KEYS);
+
+      const request: StateTaskRequest = { id: pending.id, task: pending.task };
+      pooled.worker.postMessage(request);
+    }
+  }
+
+  private spawn(): PooledWorker {
+    const worker = new Worker(join(__dirname, 'state-worker.js'), {
+      resourceLimits: { maxOldGenerationSizeMb: this.config.get('STATE_WORKER_MAX_OLD_SPACE_MB') },
+    });
+    const pooled: PooledWorker = { worker, keys: [] };
+
+    worker.on('message', (response: StateTaskResponse) => this.settle(pooled, response));
+    worker.on('error', (error) => this.fail(pooled, error as Error));
+    worker.on('exit', (code) => this.fail(pooled, new Error(`State worker exited with code ${code}`)));
+
+    this.workers.push(pooled);
+    this.logger.log(`State worker ${worker.threadId} started (${this.workers.length} running)`);
+    return pooled;
+  }
+
+  private settle(pooled: PooledWorker, response: StateTaskResponse): void {
+    const pending = pooled.current;
+    if (!pending || pending.id !== response.id) {
+      return;
+    }
+    pooled.current = undefined;
+
+    for (const { forkName, durationMs } of response.deserializations) {
+      this.prometheus?.beaconStateDeserializationDuration.observe({ fork_name: forkName }, durationMs / 1000);
+    }
+    this.prometheus?.stateWorkerTaskDuration.observe(
+      { task: pending.task.type, status: response.error ? 'error' : 'success' },
+      (Date.now() - pending.startTime) / 1000,
+    );
+
+    if (response.error) {
+      const { message, deserialization } = response.error;
+      pending.reject(deserialization ? new StateDeserializationError(message) : new Error(message));
+    } else {
+      pending.resolve(response.result);
+    }
+    this.dispatch();
+  }
+
+  /**
+   * A crashed worker (e.g. out of memory) fails its current task and is replaced on the next dispatch
+   */
+  private fail(pooled: PooledWorker, error: Error): void {
+    const index = this.workers.indexOf(pooled);
+    if (index === -1) {
+      return;
+    }
+    this.workers.splice(index, 1);
+
+    this.logger.error(`State worker ${pooled.worker.threadId} failed: ${error.message}`);
+    void pooled.worker.terminate();
+    if (pooled.current) {
+      this.prometheus?.stateWorkerTaskDuration.observe(
+        { task: pooled.current.task.type, status: 'error' },
+        (Date.now() - pooled.current.startTime) / 1000,
+      );
+      pooled.current.reject(error);
+    }
+    this.dispatch();
+  }
+}
@@ -0,0 +1,67 @@
+// SSZ beacon state passed to the workers. The bytes are moved to shared memory, so workers read them without copying
+export interface StateBytes {
+  bodyBytes: Uint8Array;
+  forkName: string;
+}
+
+// Validator fields read from a beacon state, far future epochs are Infinity
+export interface StateValidator {
+  pubkey: string;
+  withdrawalCredentials: string;
+  effectiveBalance: number;
+  slashed: boolean;
+  activationEligibilityEpoch: number;
+  activationEpoch: number;
+  exitEpoch: number;
+  withdrawableEpoch: number;
+}
+
+export enum StateTaskType {
+  load = 'load',
+  stateRoot = 'state_root',
+  validators = 'validators',
+  validatorProofs = 'validator_proofs',
+  historicalProof = 'historical_proof',
+}
+
+export type StateTask =
+  | { type: StateTaskType.load; state: StateBytes }
+  | { type: StateTaskType.stateRoot; state: StateBytes }
+  | { type: StateTaskType.validators; state: StateBytes; indices: number[] }
+  | { type: StateTaskType.validatorProofs; state: StateBytes; indices: number[] }
+  | {
+      type: StateTaskType.historicalProof;
+      finalizedState: StateBytes;
+      summaryState: StateBytes;
+      summaryIndex: number;
+      rootIndex: number;
+    };
+
+export interface StateTaskRequest {
+  id: number;
+  task: StateTask;
+}
+
+export interface StateTaskResponse {
+  id: number;
+  result?: any;
+  error?: { message: string; deserialization: boolean };
+  // States deserialized by the task, reported for metrics
+  deserializations: Array<{ forkName: string; durationMs: number }>;
+}
+
+export class StateDeserializationError extends Error {}
+
+/**
+ * Identity of the state, the slot is read from the SSZ bytes (genesis time and genesis validators root go first).
+ * Only finalized states are requested by slot, so a slot has a single state.
+ * Corrupted bytes of the same slot and size share the key, so state roots are computed without the cached views
+ */
+export function stateKey(state: StateBytes): string {
+  const { bodyBytes, forkName } = state;
+  if (bodyBytes.length < 48) {
+    return `${forkName}:${bodyBytes.length}`;
+  }
+  const slot = new DataView(bodyBytes.buffer, bodyBytes.byteOffset, bodyBytes.byteLength).getBigUint64(40, true);
+  return `${forkName}:${slot}:${bodyBytes.length}`;
+}
@@ -0,0 +1,76 @@
+import { existsSync } from 'node:fs';
+import { mkdtemp, readFile, rm, utimes, writeFile } from 'node:fs/promises';
+import { hostname, tmpdir } from 'node:os';
+import { join } from 'node:path';
+
+import { StorageLockedError, StorageService } from './storage.service';
+import { StorageType } from '../config/env.validation';
+
+const logger = { log: jest.fn(), warn: jest.fn(), error: jest.fn() };
+
+const createStorage = (dir: string) =>
+  new StorageService(logger, {
+    get: (key: string) => ({ STORAGE_TYPE: StorageType.File, STORAGE_DIR: dir })[key],
+  } as any);
+
+describe('StorageService lock', () => {
+  let dir: string;
+  const services: StorageService[] = [];
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    dir = await mkdtemp(join(tmpdir(), 'storage-'));
+  });
+
+  afterEach(async () => {
+    services.splice(0).forEach((service) => service.onModuleDestroy());
+    await rm(dir, { recursive: true, force: true });
+  });
+
+  const open = (service: StorageService, name = 'deadline-queue') => {
+    services.push(service);
+    return service.open(name, { items: [] as number[] });
+  };
+
+  it('refuses to open the storage used by another process', async () => {
+    await open(createStorage(dir));
+    await writeFile(join(dir, '.lock'), JSON.stringify({ hostname: 'daemon', pid: 1 }));
+
+    await expect(open(createStorage(dir))).rejects.toBeInstanceOf(StorageLockedError);
+  });
+
+  it('locks the dir once for the stores opened concurrently', async () => {
+    const storage = createStorage(dir);
+
+    await Promise.all([open(storage, 'deadline-queue'), open(storage, 'spending'), open(storage, 'gas-model')]);
+
+    expect(JSON.parse(await readFile(join(dir, '.lock'), 'utf8'))).toEqual({ hostname: hostname(), pid: process.pid });
+    expect(logger.warn).not.toHaveBeenCalled();
+  });
+
+  it('takes over a lock not refreshed by its holder', async () => {
+    const lockPath = join(dir, '.lock');
+    await writeFile(lockPath, JSON.stringify({ hostname: 'daemon', pid: 1 }));
+    const refreshedAt = new Date(Date.now() - 120_000);
+    await utimes(lockPath, refreshedAt, refreshedAt);
+
+    await expect(open(createStorage(dir))).resolves.toBeDefined();
+    expect(JSON.parse(await readFile(lockPath, 'utf8'))).toEqual({ hostname: hostname(), pid: process.pid });
+  });
+
+  it('takes over a lock left by a process of this host', async () => {
+    await writeFile(join(dir, '.lock'), JSON.stringify({ hostname: hostname(), pid: process.pid }));
+
+    await expect(open(createStorage(dir))).resolves.toBeDefined();
+  });
+
+  it('releases the lock on shutdown', async () => {
+    const storage = createStorage(dir);
+    await open(storage);
+
+    storage.onModuleDestroy();
+
+    expect(existsSync(join(dir, '.lock'))).toBe(false);
+    await expect(open(createStorage(dir))).resolves.toBeDefined();
+  });
+});
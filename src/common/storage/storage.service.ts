@@ -0,0 +1,167 @@
+import { unlinkSync } from 'node:fs';
+import { mkdir, readFile, stat, utimes, writeFile } from 'node:fs/promises';
+import { hostname } from 'node:os';
+import { join } from 'node:path';
+
+import { Adapter, Low, Memory } from '@huanshiwushuang/lowdb';
+import { JSONFile } from '@huanshiwushuang/lowdb/node';
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { Inject, Injectable, LoggerService, OnModuleDestroy } from '@nestjs/common';
+
+import { ConfigService } from '../config/config.service';
+import { StorageType } from '../config/env.validation';
+import { serializeError } from '../logger/safe-error-format';
+
+export type Store<T> = Low<T>;
+
+export class StorageLockedError extends Error {}
+
+const LOCK_FILE = '.lock';
+// The holder touches the lock file every LOCK_REFRESH_MS, a lock not touched for LOCK_STALE_MS is left by a killed process
+const LOCK_REFRESH_MS = 10_000;
+const LOCK_STALE_MS = 60_000;
+
+interface LockOwner {
+  hostname: string;
+  pid: number;
+}
+
+@Injectable()
+export class StorageService implements OnModuleDestroy {
+  private readonly stores = new Map<string, Store<any>>();
+  private locking?: Promise<void>;
+  private lockPath?: string;
+  private lockTimer?: NodeJS.Timeout;
+
+  constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
+    protected readonly config: ConfigService,
+  ) {}
+
+  onModuleDestroy() {
+    this.unlock();
+  }
+
+  /**
+   * Open a named store using the adapter selected by STORAGE_TYPE.
+   * Each name maps to its own document, so unrelated components never overwrite each other's data.
+   * Opening the same name twice returns the same instance.
+   *
+   * The file adapter writes to a temporary file and renames it over the target,
+   * so a crash in the middle of a write never leaves a truncated document behind.
+   * Stores are kept in memory and written as a whole, so the storage dir is locked by the first opened store:
+   * a CLI command refuses to run on the storage of a running daemon instead of overwriting its changes.
+   */
+  public async open<T>(name: string, defaultData: T): Promise<Store<T>> {
+    const opened = this.stores.get(name);
+    if (opened) {
+      return opened as Store<T>;
+    }
+
+    const store = new Low<T>(await this.createAdapter<T>(name), defaultData);
+    try {
+      await store.read();
+    } catch (error) {
+      this.logger.error(`Failed to read store [${name}], starting from defaults`, serializeError(error));
+      store.data = defaultData;
+    }
+
+    this.stores.set(name, store);
+    return store;
+  }
+
+  private async createAdapter<T>(name: string): Promise<Adapter<T>> {
+    const type = this.config.get('STORAGE_TYPE');
+    switch (type) {
+      case StorageType.File: {
+        const dir = this.config.get('STORAGE_DIR');
+        await mkdir(dir, { recursive: true });
+        // Stores are opened concurrently by the module hooks, the lock is taken once
+        this.locking ??= this.lock(dir);
+        await this.locking;
+        return new JSONFile<T>(join(dir, `${name}.json`));
+      }
+      case StorageType.Memory:
+        return new Memory<T>();
+      default:
+        throw new Error(`Unknown storage type [${type}]`);
+    }
+  }
+
+  private async lock(dir: string): Promise<void> {
+    const path = join(dir, LOCK_FILE);
+    const owner: LockOwner = { hostname: hostname(), pid: process.pid };
+    try {
+      await writeFile(path, JSON.stringify(owner), { flag: 'wx' });
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+      const holder = await this.readLockOwner(path);
+      if (!(await this.isStale(path, holder))) {
+        throw new StorageLockedError(
+          `Storage dir ${dir} is used by process ${holder?.pid} on ${holder?.hostname}. ` +
+            `Stop the daemon before running commands on its storage`,
+        );
+      }
+      this.logger.warn(
+        `Taking over the lock of storage dir ${dir} left by process ${holder?.pid} on ${holder?.hostname}`,
+      );
+      await writeFile(path, JSON.stringify(owner));
+    }
+
+    this.lockPath = path;
+    this.lockTimer = setInterval(() => {
+      const now = new Date();
+      utimes(path, now, now).catch((error) =>
+        this.logger.error('Failed to refresh the storage lock', serializeError(error)),
+      );
+    }, LOCK_REFRESH_MS);
+    this.lockTimer.unref();
+    // Killed processes leave the lock behind, it is taken over once stale
+    process.once('exit', () => this.unlock());
+  }
+
+  private async readLockOwner(path: string): Promise<LockOwner | undefined> {
+    try {
+      return JSON.parse(await readFile(path, 'utf8'));
+    } catch {
+      return undefined;
+    }
+  }
+
+  /**
+   * The lock is stale once not refreshed for LOCK_STALE_MS. The holder on the same host is checked right away,
+   * so a restarted container (where the pid is reused) does not wait for the lock to expire
+   */
+  private async isStale(path: string, holder?: LockOwner): Promise<boolean> {
+    if (holder?.hostname === hostname() && (holder.pid === process.pid || !isRunning(holder.pid))) {
+      return true;
+    }
+    const { mtimeMs } = await stat(path);
+    return Date.now() - mtimeMs > LOCK_STALE_MS;
+  }
+
+  private unlock(): void {
+    clearInterval(this.lockTimer);
+    if (!this.lockPath) {
+      return;
+    }
+    try {
+      unlinkSync(this.lockPath);
+    } catch {
+      // Already removed
+    }
+    this.lockPath = undefined;
+  }
+}
+
+function isRunning(pid: number): boolean {
+  try {
+    process.kill(pid, 0);
+    return true;
+  } catch (error) {
+    // The process exists but belongs to another user
+    return (error as NodeJS.ErrnoException).code === 'EPERM';
+  }
+}
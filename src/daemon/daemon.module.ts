@@ -11,9 +11,19 @@ import { LoggerModule } from '../common/logger/logger.module';
 import { PrometheusModule } from '../common/prometheus/prometheus.module';
 import { ProverModule } from '../common/prover/prover.module';
 import { ProvidersModule } from '../common/providers/providers.module';
+import { StorageModule } from '../common/storage';
 
 @Module({
-  imports: [LoggerModule, ConfigModule, HealthModule, PrometheusModule, ContractsModule, ProvidersModule, ProverModule],
+  imports: [
+    LoggerModule,
+    ConfigModule,
+    HealthModule,
+    PrometheusModule,
+    StorageModule,
+    ContractsModule,
+    ProvidersModule,
+    ProverModule,
+  ],
   providers: [DaemonService, RootsProcessor, RootsProvider, LastProcessedRoot],
   exports: [DaemonService],
 })
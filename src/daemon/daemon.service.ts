@@ -1,10 +1,11 @@
 import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
-import { Inject, Injectable, LoggerService, OnModuleInit } from '@nestjs/common';
+import { Inject, Injectable, LoggerService, OnModuleDestroy, OnModuleInit } from '@nestjs/common';
 import { ethers } from 'ethers';
 import { LabelValues } from 'prom-client';
 
 import * as buildInfo from 'build-info';
 import { Execution } from 'common/providers/execution/execution';
+import { SpendingGovernor } from 'common/providers/execution/spending-governor';
 
 import { RootsProcessor } from './services/roots-processor';
 import { RootsProvider } from './services/roots-provider';
@@ -12,11 +13,17 @@ import sleep from './utils/sleep';
 import { ConfigService } from '../common/config/config.service';
 import { serializeError } from '../common/logger/safe-error-format';
 import { APP_NAME, PrometheusService } from '../common/prometheus';
+import { Submitter } from '../common/prover/submitter';
 import { Consensus } from '../common/providers/consensus/consensus';
+import { FinalizedCheckpointEvent } from '../common/providers/consensus/response.interface';
 
 @Injectable()
-export class DaemonService implements OnModuleInit {
+export class DaemonService implements OnModuleInit, OnModuleDestroy {
   private account?: string;
+  private readonly finalizedCheckpoints = new AbortController();
+  // Set when a finalized checkpoint arrives, so the next cycle starts without sleeping
+  private finalizationPending = false;
+  private wakeUp?: () => void;
 
   constructor(
     @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
@@ -24,8 +31,10 @@ export class DaemonService implements OnModuleInit {
     protected readonly prometheus: PrometheusService,
     protected readonly consensus: Consensus,
     protected readonly execution: Execution,
+    protected readonly spendingGovernor: SpendingGovernor,
     protected readonly rootsProvider: RootsProvider,
     protected readonly rootsProcessor: RootsProcessor,
+    protected readonly submitter: Submitter,
   ) {}
 
   async onModuleInit() {
@@ -39,13 +48,8 @@ export class DaemonService implements OnModuleInit {
     const WORKING_MODE = this.config.get('WORKING_MODE');
     const START_LOOKBACK_DAYS = this.config.get('START_LOOKBACK_DAYS');
     const LIDO_LOCATOR_ADDRESS = this.config.get('LIDO_LOCATOR_ADDRESS');
-    const TX_SIGNER_PRIVATE_KEY = this.config.get('TX_SIGNER_PRIVATE_KEY');
-    let account = 'None';
-    if (TX_SIGNER_PRIVATE_KEY) {
-      const address = new ethers.Wallet(TX_SIGNER_PRIVATE_KEY).address;
-      account = address;
-      this.account = address;
-    }
+    this.account = await this.execution.signer?.getAddress();
+    const account = this.account ?? 'None';
     const TX_MIN_GAS_PRIORITY_FEE = this.config.get('TX_MIN_GAS_PRIORITY_FEE');
     const TX_MAX_GAS_PRIORITY_FEE = this.config.get('TX_MAX_GAS_PRIORITY_FEE');
     const TX_GAS_PRIORITY_FEE_PERCENTILE = this.config.get('TX_GAS_PRIORITY_FEE_PERCENTILE');
@@ -67,6 +71,7 @@ export class DaemonService implements OnModuleInit {
     const CL_API_RETRY_DELAY_MS = this.config.get('CL_API_RETRY_DELAY_MS');
     const CL_API_RESPONSE_TIMEOUT_MS = this.config.get('CL_API_RESPONSE_TIMEOUT_MS');
     const CL_API_MAX_RETRIES = this.config.get('CL_API_MAX_RETRIES');
+    const CL_EVENTS_ENABLED = this.config.get('CL_EVENTS_ENABLED');
     const FORK_NAME = this.config.get('FORK_NAME');
 
     const buildInfoLabels: LabelValues<string> = {
@@ -101,18 +106,28 @@ export class DaemonService implements OnModuleInit {
       CL_API_RETRY_DELAY_MS: CL_API_RETRY_DELAY_MS.toString(),
       CL_API_RESPONSE_TIMEOUT_MS: CL_API_RESPONSE_TIMEOUT_MS.toString(),
       CL_API_MAX_RETRIES: CL_API_MAX_RETRIES.toString(),
+      CL_EVENTS_ENABLED: CL_EVENTS_ENABLED.toString(),
       FORK_NAME: FORK_NAME,
     };
 
     this.prometheus.buildInfo.labels(buildInfoLabels).setToCurrentTime();
   }
 
+  onModuleDestroy() {
+    this.finalizedCheckpoints.abort();
+  }
+
   public async run() {
+    this.subscribeToFinalizedCheckpoints();
+    // Queued proofs are sent independently of the cycles, so high gas fees never stall them
+    this.submitter.start();
+
     while (true) {
       // Track daemon cycle
       const stopCycleTimer = this.prometheus.daemonCycleDuration.startTimer({
         cycle_type: 'main_loop',
       });
+      this.spendingGovernor.startCycle();
       if (this.account) {
         const botBalance = await this.execution.balanceOf(this.account);
         const balanceEth = ethers.utils.formatEther(botBalance);
@@ -163,7 +178,7 @@ export class DaemonService implements OnModuleInit {
         reason: 'no_new_roots',
       });
 
-      await sleep(this.config.get('DAEMON_SLEEP_INTERVAL_MS'));
+      await this.waitForNextCycle();
       return;
     }
 
@@ -180,7 +195,7 @@ export class DaemonService implements OnModuleInit {
         reason: 'caught_up',
       });
 
-      await sleep(this.config.get('DAEMON_SLEEP_INTERVAL_MS'));
+      await this.waitForNextCycle();
       return;
     }
 
@@ -205,4 +220,46 @@ export class DaemonService implements OnModuleInit {
       stopRootsProcessorTimer();
     }
   }
+
+  private subscribeToFinalizedCheckpoints() {
+    if (!this.config.get('CL_EVENTS_ENABLED')) {
+      this.logger.log(
+        `Finalized checkpoint events are disabled, polling every ${this.config.get('DAEMON_SLEEP_INTERVAL_MS')}ms`,
+      );
+      return;
+    }
+
+    this.consensus
+      .subscribeFinalizedCheckpoints(
+        (checkpoint) => this.onFinalizedCheckpoint(checkpoint),
+        this.finalizedCheckpoints.signal,
+      )
+      .catch((error) => this.logger.error('Finalized checkpoint subscription stopped', serializeError(error)));
+  }
+
+  private onFinalizedCheckpoint(checkpoint: FinalizedCheckpointEvent) {
+    this.logger.log(
+      `🔔 New finalized checkpoint:` + `\n  Epoch: ${checkpoint.epoch}` + `\n  Block: ${checkpoint.block}`,
+    );
+    this.finalizationPending = true;
+    this.wakeUp?.();
+  }
+
+  /**
+   * Sleep until the next finalized checkpoint event
+   * Polling every DAEMON_SLEEP_INTERVAL_MS is the fallback if the event stream is unavailable
+   */
+  private async waitForNextCycle() {
+    if (!this.finalizationPending) {
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(resolve, this.config.get('DAEMON_SLEEP_INTERVAL_MS'));
+        this.wakeUp = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+      });
+      this.wakeUp = undefined;
+    }
+    this.finalizationPending = false;
+  }
 }
@@ -1,25 +1,38 @@
-import { Injectable, OnApplicationBootstrap } from '@nestjs/common';
+import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
+import { Inject, Injectable, LoggerService, OnApplicationBootstrap } from '@nestjs/common';
 
+import { serializeError } from '../../common/logger/safe-error-format';
 import { METRIC_DATA_ACTUALITY, METRIC_LAST_PROCESSED_SLOT_NUMBER, PrometheusService } from '../../common/prometheus';
+import { RequestError } from '../../common/providers/base/rest-provider';
 import { Consensus } from '../../common/providers/consensus/consensus';
 import { RootHex } from '../../common/providers/consensus/response.interface';
+import { StorageService, Store } from '../../common/storage';
 
 export interface ProcessedRoot {
   root: RootHex;
   slot: number;
 }
 
+interface LastProcessedRootData {
+  lastProcessed?: ProcessedRoot;
+}
+
 @Injectable()
 export class LastProcessedRoot implements OnApplicationBootstrap {
   private lastProcessedRoot: RootHex | undefined;
   private lastProcessedSlot: number | undefined;
+  private store: Store<LastProcessedRootData>;
 
   constructor(
+    @Inject(LOGGER_PROVIDER) protected readonly logger: LoggerService,
     protected readonly prometheus: PrometheusService,
     protected readonly consensus: Consensus,
+    protected readonly storage: StorageService,
   ) {}
 
   async onApplicationBootstrap(): Promise<void> {
+    this.store = await this.storage.open<LastProcessedRootData>('last-processed-root', {});
+    await this.restore();
     this.setMetrics();
   }
 
@@ -36,6 +49,48 @@ export class LastProcessedRoot implements OnApplicationBootstrap {
   public async set(processedRoot: ProcessedRoot): Promise<void> {
     this.lastProcessedRoot = processedRoot.root;
     this.lastProcessedSlot = processedRoot.slot;
+    this.store.data.lastProcessed = processedRoot;
+    await this.store.write();
+  }
+
+  /**
+   * Restore the last processed root from storage.
+   * The stored root is only trusted if the beacon node still reports it as canonical.
+   * Otherwise it is dropped, and the roots provider falls back to the lookback slot
+   */
+  private async restore(): Promise<void> {
+    const stored = this.store.data.lastProcessed;
+    if (!stored) {
+      this.logger.log('No last processed root in storage');
+      return;
+    }
+
+    try {
+      const header = await this.consensus.getBeaconHeader(stored.root);
+      if (!header.canonical) {
+        this.logger.warn(`Stored root [${stored.root}] at slot [${stored.slot}] is not canonical anymore`);
+        await this.drop();
+        return;
+      }
+    } catch (error) {
+      if (error instanceof RequestError && error.statusCode === 404) {
+        this.logger.warn(`Stored root [${stored.root}] at slot [${stored.slot}] is unknown to the beacon node`);
+        await this.drop();
+        return;
+      }
+      // The beacon node may be temporarily unavailable. Keep the stored root
+      // and let the roots provider validate it once the node is back
+      this.logger.warn(`Failed to validate stored root [${stored.root}]`, serializeError(error));
+    }
+
+    this.lastProcessedRoot = stored.root;
+    this.lastProcessedSlot = stored.slot;
+    this.logger.log(`Restored last processed root [${stored.root}] at slot [${stored.slot}]`);
+  }
+
+  private async drop(): Promise<void> {
+    this.store.data.lastProcessed = undefined;
+    await this.store.write();
   }
 
   private setMetrics() {
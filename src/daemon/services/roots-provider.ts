@@ -21,7 +21,7 @@ export class RootsProvider {
   /**
    * Get both PREV and LATEST roots.
    * PREV is initialized from:
-   * 1. Last processed root from memory
+   * 1. Last processed root from storage
    * 2. Fallback to START_LOOKBACK_DAYS ago (configurable, default 7 days)
    *
    * LATEST is always the finalized root.
@@ -59,11 +59,11 @@ export class RootsProvider {
   }
 
   private async getPrevRoot(): Promise<BlockHeaderResponse | undefined> {
-    // 1. Try to get last processed root from memory
+    // 1. Try to get last processed root from storage
     const lastProcessed = await this.lastProcessedRoot.get();
     if (lastProcessed) {
       const header = await this.consensus.getBeaconHeader(lastProcessed.root);
-      if (header) {
+      if (header?.canonical) {
         this.logger.log(`Using last processed root [${lastProcessed.root}]`);
         return header;
       }
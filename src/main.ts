@@ -1,6 +1,8 @@
 import { LOGGER_PROVIDER } from '@lido-nestjs/logger';
 import { NestFactory } from '@nestjs/core';
+import { CommandFactory } from 'nest-commander';
 
+import { CliModule } from './cli/cli.module';
 import { ConfigService } from './common/config/config.service';
 import { WorkingMode } from './common/config/env.validation';
 import { DaemonModule } from './daemon/daemon.module';
@@ -16,11 +18,26 @@ async function bootstrapDaemon() {
   daemonApp.get(DaemonService).run().then();
 }
 
+async function bootstrapCli() {
+  const cliApp = await CommandFactory.createWithoutRunning(CliModule, {
+    bufferLogs: true,
+    serviceErrorHandler: (error) => {
+      cliApp.get(LOGGER_PROVIDER).error(`Command failed: ${error.message}`);
+      process.exitCode = 1;
+    },
+  });
+  cliApp.useLogger(cliApp.get(LOGGER_PROVIDER));
+  await CommandFactory.runApplication(cliApp);
+}
+
 async function bootstrap() {
   switch (process.env.WORKING_MODE) {
     case WorkingMode.Daemon:
       await bootstrapDaemon();
       break;
+    case WorkingMode.CLI:
+      await bootstrapCli();
+      break;
     default:
       throw new Error('Unknown working mode');
   }